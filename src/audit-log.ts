@@ -0,0 +1,234 @@
+/**
+ * Structured audit log of coordination operations, stored as JSONL at auditLogPath
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { dirname, resolve } from 'path';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { AuditRecord, ToolResponse, WorkState } from './types.js';
+import { BeepBoopConfig, isDirectoryAllowed } from './config.js';
+import { getWorkStatus } from './file-operations.js';
+import { recordToolResult } from './metrics.js';
+
+/** Filters applied when querying the audit log */
+export interface AuditFilter {
+  agentId?: string;
+  directory?: string;
+  operation?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/** Request ID of the operation currently being audited */
+const requestContext = new AsyncLocalStorage<string>();
+
+/**
+ * Request ID of the audited operation in progress, so calls it makes to the
+ * listener carry the same ID
+ */
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore();
+}
+
+/** Fields of tool or route parameters that name the acting agent and target directories */
+interface AuditTargetParams {
+  directory?: unknown;
+  root?: unknown;
+  directories?: unknown;
+  claims?: unknown;
+  agentId?: unknown;
+  fromAgentId?: unknown;
+  newAgentId?: unknown;
+}
+
+/**
+ * Pull the acting agent and target directories out of tool or route parameters
+ */
+export function describeAuditTarget(params: object | undefined): { actor?: string; directories: string[] } {
+  const fields: AuditTargetParams = params ?? {};
+  const isString = (value: unknown): value is string => typeof value === 'string';
+  const directories: string[] = [];
+  if (isString(fields.directory)) {
+    directories.push(fields.directory);
+  }
+  if (isString(fields.root)) {
+    directories.push(fields.root);
+  }
+  if (Array.isArray(fields.directories)) {
+    directories.push(...fields.directories.filter(isString));
+  }
+  if (Array.isArray(fields.claims)) {
+    directories.push(...fields.claims.map((claim: { directory?: unknown } | undefined) => claim?.directory).filter(isString));
+  }
+
+  const actor = [fields.agentId, fields.fromAgentId, fields.newAgentId].find(
+    (value): value is string => isString(value) && value.length > 0
+  );
+  return { actor, directories: [...new Set(directories.map(directory => resolve(directory)))] };
+}
+
+/**
+ * Record the coordination state of each directory. Directories outside the
+ * allowed set, or that cannot be read, are left out.
+ */
+export async function captureAuditState(directories: string[], config: BeepBoopConfig): Promise<Record<string, WorkState>> {
+  const states: Record<string, WorkState> = {};
+  for (const directory of directories) {
+    if (!isDirectoryAllowed(directory, config)) {
+      continue;
+    }
+    try {
+      states[directory] = (await getWorkStatus(directory, config)).status;
+    } catch {
+      // Missing or unreadable directory
+    }
+  }
+  return states;
+}
+
+/**
+ * Append a record to the audit log. Auditing is best effort: a failed
+ * write is reported on stderr but never fails the audited operation.
+ */
+export async function writeAuditRecord(record: Omit<AuditRecord, 'timestamp'>, config: BeepBoopConfig): Promise<void> {
+  if (!config.auditLogEnabled) {
+    return;
+  }
+  const line = JSON.stringify({ timestamp: new Date(), ...record });
+  try {
+    await fs.mkdir(dirname(resolve(config.auditLogPath)), { recursive: true });
+    await fs.appendFile(resolve(config.auditLogPath), `${line}\n`);
+  } catch (error) {
+    console.error(`⚠️ Could not write audit record to ${config.auditLogPath}: ${error}`);
+  }
+}
+
+/**
+ * Run a tool handler, counting failures in the metrics and writing an audit
+ * record with the state of the target directories before and after the call.
+ * The caller passes its configuration, or undefined when it is invalid.
+ */
+export async function auditToolCall<P extends object>(
+  operation: string,
+  params: P,
+  handler: (params: P) => Promise<ToolResponse>,
+  config: BeepBoopConfig | undefined
+): Promise<ToolResponse> {
+  const requestId = randomUUID();
+  // Without a valid configuration there is no audit log; the handler reports the problem
+  if (!config?.auditLogEnabled) {
+    const response = await requestContext.run(requestId, () => handler(params));
+    recordToolResult(operation, response);
+    return response;
+  }
+
+  const { actor, directories } = describeAuditTarget(params);
+  const before = await captureAuditState(directories, config);
+  const startedAt = Date.now();
+
+  let response: ToolResponse;
+  try {
+    response = await requestContext.run(requestId, () => handler(params));
+  } catch (error) {
+    await writeAuditRecord({
+      requestId,
+      source: 'tool',
+      operation,
+      actor,
+      directories,
+      before,
+      after: await captureAuditState(directories, config),
+      result: 'error',
+      error: String(error),
+      durationMs: Date.now() - startedAt
+    }, config);
+    throw error;
+  }
+
+  await writeAuditRecord({
+    requestId,
+    source: 'tool',
+    operation,
+    actor,
+    directories,
+    before,
+    after: await captureAuditState(directories, config),
+    result: response.isError ? 'error' : 'success',
+    error: response.isError ? response.content[0]?.text.split('\n')[0] : undefined,
+    durationMs: Date.now() - startedAt
+  }, config);
+  recordToolResult(operation, response);
+  return response;
+}
+
+/**
+ * Read audit records, oldest first. Lines that cannot be parsed are skipped.
+ */
+export async function readAuditLog(config: BeepBoopConfig, filter: AuditFilter = {}): Promise<AuditRecord[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(resolve(config.auditLogPath), 'utf8');
+  } catch {
+    return [];
+  }
+
+  const directory = filter.directory ? resolve(filter.directory) : undefined;
+  const records: AuditRecord[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    const timestamp = new Date(parsed.timestamp);
+    if (Number.isNaN(timestamp.getTime()) || typeof parsed.operation !== 'string' || typeof parsed.requestId !== 'string') {
+      continue;
+    }
+    const record: AuditRecord = { ...parsed, timestamp, directories: Array.isArray(parsed.directories) ? parsed.directories : [] };
+    if (filter.agentId && record.actor !== filter.agentId) {
+      continue;
+    }
+    if (directory && !record.directories.includes(directory)) {
+      continue;
+    }
+    if (filter.operation && record.operation !== filter.operation) {
+      continue;
+    }
+    if (filter.since && timestamp < filter.since) {
+      continue;
+    }
+    if (filter.until && timestamp > filter.until) {
+      continue;
+    }
+    records.push(record);
+  }
+
+  return filter.limit !== undefined ? records.slice(-filter.limit) : records;
+}
+
+/**
+ * Format audit records for tool responses
+ */
+export function formatAuditRecords(records: AuditRecord[]): string {
+  return records.map(record => {
+    let line = `${record.timestamp.toISOString()} ${record.source}:${record.operation} ${record.result === 'success' ? '✅' : '❌'}`;
+    if (record.actor) {
+      line += ` by ${record.actor}`;
+    }
+    for (const directory of record.directories) {
+      const before = record.before?.[directory] ?? '-';
+      const after = record.after?.[directory] ?? '-';
+      line += `\n  ${directory}: ${before} → ${after}`;
+    }
+    if (record.error) {
+      line += `\n  ${record.error}`;
+    }
+    return `${line}\n  request ${record.requestId} (${record.durationMs}ms)`;
+  }).join('\n');
+}
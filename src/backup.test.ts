@@ -0,0 +1,103 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BeepBoopConfig, loadConfig } from './config.js';
+import { listBackups, restoreBackup } from './backup.js';
+import { createBoopFile, endWorkAtomically, getWorkStatus, removeBoopFile } from './file-operations.js';
+import { resolveCoordinationPaths } from './coordination-layout.js';
+import { CoordinationError, ErrorCode, WorkState } from './types.js';
+
+let root: string;
+let directory: string;
+let config: BeepBoopConfig;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'beep-boop-test-'));
+  directory = join(root, 'work');
+  await mkdir(directory);
+  // The temp directory lives under a directory blocked by default
+  config = {
+    ...loadConfig(),
+    blockedDirectories: [],
+    allowedDirectories: [],
+    backupEnabled: true,
+    backupDir: join(root, 'backups')
+  };
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+test('ending work backs up the boop before it is removed', async () => {
+  const claim = await createBoopFile(directory, 'agent-a', 'work', config);
+  const boop = await readFile(resolveCoordinationPaths(directory, config).boop, 'utf8');
+
+  await endWorkAtomically(directory, 'agent-a', 'done', config, claim.fencingToken);
+
+  const [backup] = await listBackups(config, directory);
+  assert.deepEqual(backup.files, ['boop']);
+  assert.equal(backup.reason, 'Work ended by agent-a');
+  assert.equal(await readFile(join(config.backupDir, backup.id, 'boop'), 'utf8'), boop);
+});
+
+test('nothing is backed up when backups are disabled', async () => {
+  await createBoopFile(directory, 'agent-a', 'work', config);
+
+  await removeBoopFile(directory, { ...config, backupEnabled: false }, 'cleanup');
+
+  assert.deepEqual(await listBackups(config), []);
+});
+
+test('backups are listed newest first and can be filtered by directory', async () => {
+  const other = join(root, 'other');
+  await mkdir(other);
+  await createBoopFile(directory, 'agent-a', 'work', config);
+  await createBoopFile(other, 'agent-b', 'work', config);
+
+  await removeBoopFile(directory, config, 'first');
+  await new Promise(resolve => setTimeout(resolve, 5));
+  await removeBoopFile(other, config, 'second');
+
+  assert.deepEqual((await listBackups(config)).map(backup => backup.reason), ['second', 'first']);
+  assert.deepEqual((await listBackups(config, other)).map(backup => backup.reason), ['second']);
+});
+
+test('restoring a backup brings the claim back and backs up what it replaces', async () => {
+  await createBoopFile(directory, 'agent-a', 'work', config);
+  await removeBoopFile(directory, config, 'cleanup');
+  const [backup] = await listBackups(config, directory);
+  await createBoopFile(directory, 'agent-b', 'stale work', { ...config, leaseDurationHours: 0 });
+
+  const { manifest, replaced } = await restoreBackup(backup.id, 'agent-a', config);
+
+  assert.equal(manifest.id, backup.id);
+  assert.equal(replaced?.reason, `Replaced by restore of backup ${backup.id}`);
+  const status = await getWorkStatus(directory, config);
+  assert.equal(status.status, WorkState.WORK_IN_PROGRESS);
+  assert.equal(status.agentId, 'agent-a');
+});
+
+test('a restore over another agent\'s live claim is refused and changes nothing', async () => {
+  await createBoopFile(directory, 'agent-a', 'work', config);
+  await removeBoopFile(directory, config, 'cleanup');
+  const [backup] = await listBackups(config, directory);
+  await createBoopFile(directory, 'agent-b', 'current work', config);
+
+  await assert.rejects(
+    restoreBackup(backup.id, 'agent-a', config),
+    (error: unknown) => error instanceof CoordinationError && error.code === ErrorCode.WORK_ALREADY_IN_PROGRESS
+  );
+
+  assert.equal((await getWorkStatus(directory, config)).agentId, 'agent-b');
+  assert.equal((await listBackups(config, directory)).length, 1);
+});
+
+test('an unknown backup ID is reported as not found', async () => {
+  await assert.rejects(
+    restoreBackup('no-such-backup', 'agent-a', config),
+    (error: unknown) => error instanceof CoordinationError && error.code === ErrorCode.BACKUP_NOT_FOUND
+  );
+});
@@ -0,0 +1,211 @@
+/**
+ * Backups of coordination files taken before destructive changes
+ *
+ * Each backup is a directory under backupDir holding copies of the beep and
+ * boop files that existed at the time, plus a manifest recording where they
+ * came from and why they were taken.
+ */
+
+import { join, resolve } from 'path';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { BackupManifest, CoordinationError, ErrorCode } from './types.js';
+import { BeepBoopConfig, isDirectoryAllowed, parseFileMode } from './config.js';
+import { candidatePaths, locateCoordinationFile, resolveCoordinationPaths, ensureMetadataDir } from './coordination-layout.js';
+import { appendHistory } from './history.js';
+import { getWorkStatus, isClaimStale, withCoordinationLock } from './file-operations.js';
+
+/** Manifest written alongside the copied files */
+const MANIFEST_FILE = 'manifest.json';
+
+/** Default number of backups listed by restore_backup */
+export const LIST_BACKUPS_DEFAULT_LIMIT = 20;
+
+/**
+ * Copy a directory's beep and boop files into backupDir. Does nothing when
+ * backups are disabled or there is nothing to copy. A failed backup throws,
+ * so the destructive change that asked for it does not go ahead.
+ */
+export async function backupCoordinationFiles(
+  directory: string,
+  reason: string,
+  config: BeepBoopConfig
+): Promise<BackupManifest | null> {
+  if (!config.backupEnabled) {
+    return null;
+  }
+
+  const sources: Array<{ kind: 'beep' | 'boop'; path: string }> = [];
+  for (const kind of ['beep', 'boop'] as const) {
+    const path = await locateCoordinationFile(directory, kind, config);
+    if (path) {
+      sources.push({ kind, path });
+    }
+  }
+  if (sources.length === 0) {
+    return null;
+  }
+
+  const createdAt = new Date();
+  const manifest: BackupManifest = {
+    id: `${createdAt.toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}`,
+    directory: resolve(directory),
+    reason,
+    createdAt,
+    files: sources.map(source => source.kind)
+  };
+  const backupPath = join(resolve(config.backupDir), manifest.id);
+
+  const mode = parseFileMode(config.filePermissions);
+  try {
+    await fs.mkdir(backupPath, { recursive: true });
+    for (const source of sources) {
+      await fs.copyFile(source.path, join(backupPath, source.kind));
+      await fs.chmod(join(backupPath, source.kind), mode);
+    }
+    const manifestPath = join(backupPath, MANIFEST_FILE);
+    await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2), { mode });
+    // The create mode is narrowed by the umask, so set it explicitly
+    await fs.chmod(manifestPath, mode);
+  } catch (error) {
+    await fs.rm(backupPath, { recursive: true, force: true }).catch(() => {});
+    throw new CoordinationError(
+      `Failed to back up coordination files to ${config.backupDir}: ${error}`,
+      ErrorCode.FILE_SYSTEM_ERROR,
+      directory
+    );
+  }
+
+  if (config.logLevel === 'debug') {
+    console.error(`💾 Backed up ${manifest.files.join(' and ')} from ${directory} (${reason})`);
+  }
+  return manifest;
+}
+
+/**
+ * Read one backup's manifest, or null if it is missing or unreadable
+ */
+async function readManifest(backupPath: string): Promise<BackupManifest | null> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(join(backupPath, MANIFEST_FILE), 'utf8'));
+    const createdAt = new Date(parsed.createdAt);
+    if (typeof parsed.id !== 'string' || typeof parsed.directory !== 'string' || Number.isNaN(createdAt.getTime()) || !Array.isArray(parsed.files)) {
+      return null;
+    }
+    return { ...parsed, createdAt };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List backups, newest first, optionally only those taken from one directory
+ */
+export async function listBackups(config: BeepBoopConfig, directory?: string): Promise<BackupManifest[]> {
+  const root = resolve(config.backupDir);
+  let names: string[];
+  try {
+    names = await fs.readdir(root);
+  } catch {
+    return [];
+  }
+
+  const target = directory ? resolve(directory) : undefined;
+  const manifests: BackupManifest[] = [];
+  for (const name of names) {
+    const manifest = await readManifest(join(root, name));
+    if (manifest && (!target || manifest.directory === target)) {
+      manifests.push(manifest);
+    }
+  }
+  return manifests.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Restore a backup into the directory it was taken from. The directory's
+ * current beep and boop files are backed up first and then replaced, so the
+ * directory ends up holding exactly the files in the backup. A live claim by
+ * another agent is refused with WORK_ALREADY_IN_PROGRESS.
+ */
+export async function restoreBackup(
+  backupId: string,
+  agentId: string,
+  config: BeepBoopConfig
+): Promise<{ manifest: BackupManifest; replaced: BackupManifest | null }> {
+  if (!/^[\w.-]+$/.test(backupId)) {
+    throw new CoordinationError(`Invalid backup ID: ${backupId}`, ErrorCode.BACKUP_NOT_FOUND);
+  }
+  const backupPath = join(resolve(config.backupDir), backupId);
+  const manifest = await readManifest(backupPath);
+  if (!manifest) {
+    throw new CoordinationError(
+      `Backup ${backupId} not found in ${config.backupDir}`,
+      ErrorCode.BACKUP_NOT_FOUND
+    );
+  }
+
+  const directory = manifest.directory;
+  if (!isDirectoryAllowed(directory, config)) {
+    throw new CoordinationError(
+      `Access denied to directory ${directory}`,
+      ErrorCode.PERMISSION_DENIED,
+      directory
+    );
+  }
+
+  // Locked so the restore cannot interleave with a claim, update or end_work;
+  // the lock also reports a directory that no longer exists
+  return withCoordinationLock(directory, config, async () => {
+    const status = await getWorkStatus(directory, config);
+    if (status.agentId && status.agentId !== agentId && !isClaimStale(status, config.defaultMaxAgeHours)) {
+      throw new CoordinationError(
+        `Directory is claimed by agent ${status.agentId}; only that agent can restore a backup over a live claim`,
+        ErrorCode.WORK_ALREADY_IN_PROGRESS,
+        directory
+      );
+    }
+
+    const replaced = await backupCoordinationFiles(directory, `Replaced by restore of backup ${backupId}`, config);
+
+    try {
+      for (const kind of ['beep', 'boop'] as const) {
+        for (const path of candidatePaths(directory, kind, config)) {
+          await fs.unlink(path).catch(error => {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+              throw error;
+            }
+          });
+        }
+      }
+      const paths = resolveCoordinationPaths(directory, config);
+      await ensureMetadataDir(paths);
+      for (const kind of manifest.files) {
+        await fs.copyFile(join(backupPath, kind), paths[kind]);
+        await fs.chmod(paths[kind], parseFileMode(config.filePermissions));
+      }
+    } catch (error) {
+      throw new CoordinationError(
+        `Failed to restore backup ${backupId}: ${error}`,
+        ErrorCode.FILE_SYSTEM_ERROR,
+        directory
+      );
+    }
+
+    await appendHistory(directory, {
+      event: 'restored',
+      agentId,
+      details: `Restored ${manifest.files.join(' and ')} from backup ${backupId} (${manifest.reason})`
+    }, config);
+
+    return { manifest, replaced };
+  });
+}
+
+/**
+ * Format backups for tool responses
+ */
+export function formatBackups(manifests: BackupManifest[]): string {
+  return manifests
+    .map(manifest => `• ${manifest.id}\n  ${manifest.directory} [${manifest.files.join(', ')}] - ${manifest.reason}`)
+    .join('\n');
+}
@@ -0,0 +1,107 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { access, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BeepBoopConfig, loadConfig } from './config.js';
+import { QUEUE_FILE } from './coordination-layout.js';
+import { createBoopFile } from './file-operations.js';
+import {
+  assertNotReservedForOther,
+  consumeQueueEntry,
+  joinQueue,
+  readQueue,
+  reserveForNextInQueue
+} from './claim-queue.js';
+import { CoordinationError, ErrorCode } from './types.js';
+
+const MINUTE_MS = 60 * 1000;
+
+let directory: string;
+let config: BeepBoopConfig;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'beep-boop-test-'));
+  // The temp directory lives under a directory blocked by default
+  config = { ...loadConfig(), blockedDirectories: [], allowedDirectories: [], queueGraceMinutes: 10 };
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+/**
+ * Write a queue whose reservation for the first agent expired the given time ago
+ */
+async function writeLapsedQueue(agents: string[], expiredAgoMs: number): Promise<Date> {
+  const expiresAt = new Date(Date.now() - expiredAgoMs);
+  await writeFile(join(directory, QUEUE_FILE), JSON.stringify({
+    entries: agents.map(agentId => ({ agentId, enqueuedAt: new Date(0) })),
+    reservation: { agentId: agents[0], reservedAt: new Date(expiresAt.getTime() - 10 * MINUTE_MS), expiresAt }
+  }));
+  return expiresAt;
+}
+
+test('a lapsed reservation passes to the next agent from its expiry', async () => {
+  const expiresAt = await writeLapsedQueue(['agent-a', 'agent-b', 'agent-c'], MINUTE_MS);
+
+  const queue = await readQueue(directory, config);
+
+  assert.deepEqual(queue.entries.map(entry => entry.agentId), ['agent-b', 'agent-c']);
+  assert.equal(queue.reservation?.agentId, 'agent-b');
+  assert.equal(queue.reservation?.reservedAt.getTime(), expiresAt.getTime());
+  assert.equal(queue.reservation?.expiresAt.getTime(), expiresAt.getTime() + 10 * MINUTE_MS);
+});
+
+test('several lapsed reservations are passed down in one read', async () => {
+  // Long enough ago for agent-a's and agent-b's grace periods to both run out
+  const expiresAt = await writeLapsedQueue(['agent-a', 'agent-b', 'agent-c'], 15 * MINUTE_MS);
+
+  const queue = await readQueue(directory, config);
+
+  assert.deepEqual(queue.entries.map(entry => entry.agentId), ['agent-c']);
+  assert.equal(queue.reservation?.agentId, 'agent-c');
+  assert.equal(queue.reservation?.reservedAt.getTime(), expiresAt.getTime() + 10 * MINUTE_MS);
+  // The result is written back, so the next read agrees
+  assert.deepEqual(await readQueue(directory, config), queue);
+});
+
+test('the queue is cleared once the last reservation lapses', async () => {
+  await writeLapsedQueue(['agent-a'], MINUTE_MS);
+
+  const queue = await readQueue(directory, config);
+
+  assert.deepEqual(queue.entries, []);
+  assert.equal(queue.reservation, undefined);
+  await assert.rejects(access(join(directory, QUEUE_FILE)));
+});
+
+test('joins from parallel callers are all kept', async () => {
+  await createBoopFile(directory, 'holder', 'work', config);
+  const agents = ['agent-a', 'agent-b', 'agent-c', 'agent-d'];
+
+  const positions = await Promise.all(agents.map(agent => joinQueue(directory, agent, undefined, config)));
+
+  assert.deepEqual([...positions].sort(), [1, 2, 3, 4]);
+  assert.equal((await readQueue(directory, config)).entries.length, agents.length);
+  assert.equal(await joinQueue(directory, 'agent-a', undefined, config), positions[0]);
+});
+
+test('a released directory is held for the head of the queue', async () => {
+  await joinQueue(directory, 'agent-a', undefined, config);
+  await joinQueue(directory, 'agent-b', undefined, config);
+
+  const reservation = await reserveForNextInQueue(directory, config);
+  assert.equal(reservation?.agentId, 'agent-a');
+
+  await assert.rejects(
+    assertNotReservedForOther(directory, 'agent-b', config),
+    (error: unknown) => error instanceof CoordinationError && error.code === ErrorCode.RESERVED_FOR_QUEUED_AGENT
+  );
+  await assertNotReservedForOther(directory, 'agent-a', config);
+
+  await consumeQueueEntry(directory, 'agent-a', config);
+  const queue = await readQueue(directory, config);
+  assert.deepEqual(queue.entries.map(entry => entry.agentId), ['agent-b']);
+  assert.equal(queue.reservation, undefined);
+});
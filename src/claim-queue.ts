@@ -0,0 +1,241 @@
+/**
+ * Per-directory claim waitlist with FIFO handoff
+ */
+
+import { promises as fs } from 'fs';
+import {
+  ClaimQueue,
+  QueueEntry,
+  QueueReservation,
+  CoordinationError,
+  ErrorCode
+} from './types.js';
+import { getFileMetadata, writeFileAtomic, checkBoopExists, withCoordinationLock, coordinationFileMode } from './file-operations.js';
+import { resolveCoordinationPaths, ensureMetadataDir } from './coordination-layout.js';
+import { BeepBoopConfig } from './config.js';
+
+/**
+ * Parse queue file content, tolerating a missing or corrupt file
+ */
+function parseQueue(content?: string): ClaimQueue {
+  if (!content) {
+    return { entries: [] };
+  }
+  try {
+    const parsed = JSON.parse(content);
+    const entries: QueueEntry[] = Array.isArray(parsed.entries)
+      ? parsed.entries.map((entry: any) => ({
+          agentId: entry.agentId,
+          workDescription: entry.workDescription,
+          enqueuedAt: new Date(entry.enqueuedAt)
+        }))
+      : [];
+    const reservation: QueueReservation | undefined = parsed.reservation
+      ? {
+          agentId: parsed.reservation.agentId,
+          reservedAt: new Date(parsed.reservation.reservedAt),
+          expiresAt: new Date(parsed.reservation.expiresAt)
+        }
+      : undefined;
+    return { entries, reservation };
+  } catch {
+    return { entries: [] };
+  }
+}
+
+/**
+ * Persist the queue, removing the file once nobody is waiting
+ */
+async function writeQueue(directory: string, queue: ClaimQueue, config: BeepBoopConfig): Promise<void> {
+  const paths = resolveCoordinationPaths(directory, config);
+  if (queue.entries.length === 0 && !queue.reservation) {
+    await fs.unlink(paths.queue).catch(() => {});
+    return;
+  }
+  await ensureMetadataDir(paths);
+  await writeFileAtomic(paths.queue, JSON.stringify(queue, null, 2), coordinationFileMode(config));
+}
+
+/**
+ * Drop agents whose reservation lapsed without a claim, passing the
+ * reservation down the queue. Each lapsed reservation starts the next
+ * one at its own expiry, so the outcome does not depend on when we look.
+ */
+function expireReservations(queue: ClaimQueue, graceMs: number, now: number): boolean {
+  let changed = false;
+  while (queue.reservation && queue.reservation.expiresAt.getTime() <= now) {
+    const lapsed = queue.reservation;
+    queue.entries = queue.entries.filter(entry => entry.agentId !== lapsed.agentId);
+    queue.reservation = queue.entries.length > 0
+      ? {
+          agentId: queue.entries[0].agentId,
+          reservedAt: lapsed.expiresAt,
+          expiresAt: new Date(lapsed.expiresAt.getTime() + graceMs)
+        }
+      : undefined;
+    changed = true;
+  }
+  return changed;
+}
+
+/**
+ * Read a directory's queue file as stored, without applying lapsed reservations
+ */
+async function loadQueue(directory: string, config: BeepBoopConfig): Promise<ClaimQueue> {
+  const meta = await getFileMetadata(resolveCoordinationPaths(directory, config).queue);
+  return parseQueue(meta?.content);
+}
+
+/**
+ * Read, change and write a directory's queue while holding the directory's
+ * lock, so joins and handoffs from other processes are not lost. The change
+ * reports whether it modified the queue alongside its result.
+ */
+async function updateQueue<T>(
+  directory: string,
+  config: BeepBoopConfig,
+  change: (queue: ClaimQueue) => Promise<{ changed: boolean; result: T }>
+): Promise<T> {
+  return withCoordinationLock(directory, config, async () => {
+    const queue = await loadQueue(directory, config);
+    const expired = expireReservations(queue, config.queueGraceMinutes * 60 * 1000, Date.now());
+    const { changed, result } = await change(queue);
+    if (expired || changed) {
+      await writeQueue(directory, queue, config);
+    }
+    return result;
+  });
+}
+
+/**
+ * Read a directory's queue, applying any lapsed reservations
+ */
+export async function readQueue(directory: string, config: BeepBoopConfig): Promise<ClaimQueue> {
+  const queue = await loadQueue(directory, config);
+  if (!expireReservations(queue, config.queueGraceMinutes * 60 * 1000, Date.now())) {
+    return queue;
+  }
+  // Another process may have changed the queue since it was read, so expire again under the lock
+  return updateQueue(directory, config, async current => ({ changed: false, result: current }));
+}
+
+/**
+ * Add an agent to the end of a directory's queue. Returns its 1-based position.
+ */
+export async function joinQueue(
+  directory: string,
+  agentId: string,
+  workDescription: string | undefined,
+  config: BeepBoopConfig
+): Promise<number> {
+  return updateQueue(directory, config, async queue => {
+    const existing = queue.entries.findIndex(entry => entry.agentId === agentId);
+    if (existing >= 0) {
+      return { changed: false, result: existing + 1 };
+    }
+    queue.entries.push({ agentId, workDescription, enqueuedAt: new Date() });
+    return { changed: true, result: queue.entries.length };
+  });
+}
+
+/**
+ * Reserve the head of an unreserved queue in place
+ */
+function reserveHead(queue: ClaimQueue, config: BeepBoopConfig): boolean {
+  if (queue.reservation || queue.entries.length === 0) {
+    return false;
+  }
+  const now = new Date();
+  queue.reservation = {
+    agentId: queue.entries[0].agentId,
+    reservedAt: now,
+    expiresAt: new Date(now.getTime() + config.queueGraceMinutes * 60 * 1000)
+  };
+  return true;
+}
+
+/**
+ * Reserve the directory for the agent at the head of the queue, if any.
+ * Called when the current holder releases the directory.
+ */
+export async function reserveForNextInQueue(
+  directory: string,
+  config: BeepBoopConfig
+): Promise<QueueReservation | undefined> {
+  const current = await readQueue(directory, config);
+  if (current.reservation || current.entries.length === 0) {
+    return current.reservation;
+  }
+  return updateQueue(directory, config, async queue => ({
+    changed: reserveHead(queue, config),
+    result: queue.reservation
+  }));
+}
+
+/**
+ * Reject a claim by an agent other than the one the directory is reserved for.
+ * If agents are waiting on a free directory with no reservation (for example
+ * after stale cleanup), the head of the queue is reserved first.
+ */
+export async function assertNotReservedForOther(
+  directory: string,
+  agentId: string,
+  config: BeepBoopConfig
+): Promise<void> {
+  const current = await readQueue(directory, config);
+  if (!current.reservation && current.entries.length === 0) {
+    return;
+  }
+
+  const reservation = await updateQueue(directory, config, async queue => {
+    const changed = !queue.reservation && queue.entries.length > 0 && !(await checkBoopExists(directory, config))
+      ? reserveHead(queue, config)
+      : false;
+    return { changed, result: queue.reservation };
+  });
+
+  if (reservation && reservation.agentId !== agentId) {
+    throw new CoordinationError(
+      `Directory is reserved for queued agent ${reservation.agentId} until ${reservation.expiresAt.toISOString()}. Use join_queue to wait your turn.`,
+      ErrorCode.RESERVED_FOR_QUEUED_AGENT,
+      directory
+    );
+  }
+}
+
+/**
+ * Remove an agent from the queue once it has claimed the directory
+ */
+export async function consumeQueueEntry(
+  directory: string,
+  agentId: string,
+  config: BeepBoopConfig
+): Promise<void> {
+  const current = await readQueue(directory, config);
+  if (!current.entries.some(entry => entry.agentId === agentId) && current.reservation?.agentId !== agentId) {
+    return;
+  }
+
+  await updateQueue(directory, config, async queue => {
+    const before = queue.entries.length;
+    queue.entries = queue.entries.filter(entry => entry.agentId !== agentId);
+    const hadReservation = queue.reservation?.agentId === agentId;
+    if (hadReservation) {
+      queue.reservation = undefined;
+    }
+    return { changed: queue.entries.length !== before || hadReservation, result: undefined };
+  });
+}
+
+/**
+ * Describe the queue for tool responses
+ */
+export function describeQueue(queue: ClaimQueue): string {
+  const lines = queue.entries.map((entry, index) => {
+    const reserved = queue.reservation?.agentId === entry.agentId
+      ? ` (reserved until ${queue.reservation.expiresAt.toISOString()})`
+      : '';
+    return `${index + 1}. ${entry.agentId}${reserved}${entry.workDescription ? ` - ${entry.workDescription}` : ''}`;
+  });
+  return lines.join('\n');
+}
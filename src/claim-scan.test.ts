@@ -0,0 +1,84 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { BeepBoopConfig, loadConfig } from './config.js';
+import { createBoopFile } from './file-operations.js';
+import { listClaims } from './claim-scan.js';
+
+let root: string;
+let config: BeepBoopConfig;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'beep-boop-test-'));
+  // The temp directory lives under a directory blocked by default
+  config = { ...loadConfig(), blockedDirectories: [], allowedDirectories: [] };
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+/**
+ * Claim each directory, creating it first
+ */
+async function claimAll(directories: string[]): Promise<void> {
+  for (const directory of directories) {
+    await mkdir(join(root, directory), { recursive: true });
+    await createBoopFile(join(root, directory), 'agent-a', 'work', config);
+  }
+}
+
+/**
+ * Directories listed under a scan root, relative to the test root
+ */
+async function listed(scanRoot: string = root): Promise<string[]> {
+  return (await listClaims(scanRoot, config)).map(listing => relative(root, listing.directory));
+}
+
+test('directories matched by .gitignore patterns are not scanned', async () => {
+  await writeFile(join(root, '.gitignore'), [
+    '# build output',
+    'build/',
+    '*.tmp',
+    '!keep.tmp',
+    '/anchored',
+    'docs/**/generated',
+    'cache-?',
+    'out[0-9]'
+  ].join('\n'));
+  await claimAll([
+    'build',
+    'src/build',
+    'scratch.tmp',
+    'keep.tmp',
+    'anchored',
+    'src/anchored',
+    'docs/generated',
+    'docs/api/v1/generated',
+    'cache-1',
+    'cache-12',
+    'out7',
+    'outer',
+    'src'
+  ]);
+
+  assert.deepEqual(await listed(), ['cache-12', 'keep.tmp', 'outer', 'src', 'src/anchored']);
+});
+
+test('rules in nested .gitignore files apply below their directory only', async () => {
+  await writeFile(join(root, '.gitignore'), 'logs\n');
+  await claimAll(['packages/app/vendor', 'packages/lib/vendor', 'packages/app/logs']);
+  await writeFile(join(root, 'packages/app/.gitignore'), 'vendor/\n');
+
+  assert.deepEqual(await listed(), ['packages/lib/vendor']);
+});
+
+test('rules between the repository root and the scan root still apply', async () => {
+  await mkdir(join(root, '.git'));
+  await writeFile(join(root, '.gitignore'), 'dist\n');
+  await claimAll(['packages/app/dist', 'packages/app/src']);
+
+  assert.deepEqual(await listed(join(root, 'packages')), ['packages/app/src']);
+});
@@ -0,0 +1,319 @@
+/**
+ * Repository-wide scan for directories with coordination files
+ */
+
+import { join, relative, resolve, dirname, sep } from 'path';
+import { promises as fs } from 'fs';
+import { ClaimListing, WorkState } from './types.js';
+import {
+  SKIPPED_SCAN_DIRECTORIES,
+  getWorkStatus,
+  getFileMetadata,
+  parseBeepContent,
+  isClaimStale,
+  getFileAgeDescription,
+  findRepoRoot
+} from './file-operations.js';
+import { BeepBoopConfig, isDirectoryAllowed } from './config.js';
+import { coordinationEntryNames, locateCoordinationFile } from './coordination-layout.js';
+
+/** Default depth below the root to descend when listing claims */
+export const LIST_CLAIMS_DEFAULT_DEPTH = 8;
+
+/**
+ * Roots to scan when no root is given: the allowed directories, or the
+ * working directory when every directory is allowed
+ */
+export function defaultScanRoots(config: BeepBoopConfig): string[] {
+  return config.allowedDirectories.length > 0 ? config.allowedDirectories : [process.cwd()];
+}
+
+/** A single .gitignore pattern, relative to the directory holding the file */
+interface IgnoreRule {
+  base: string;
+  pattern: RegExp;
+  negate: boolean;
+}
+
+/**
+ * Translate a gitignore glob into a regular expression source
+ */
+function globToRegExpSource(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        source += glob.slice(i, close + 1).replace(/^\[!/, '[^');
+        i = close;
+      }
+    } else if ('\\^$.|+(){}'.includes(char)) {
+      source += `\\${char}`;
+    } else {
+      source += char;
+    }
+  }
+  return source;
+}
+
+/**
+ * Load the rules from a directory's .gitignore, if it has one
+ */
+async function loadIgnoreRules(directory: string): Promise<IgnoreRule[]> {
+  const meta = await getFileMetadata(join(directory, '.gitignore'));
+  if (!meta?.content) {
+    return [];
+  }
+
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of meta.content.split('\n')) {
+    let line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const negate = line.startsWith('!');
+    if (negate) {
+      line = line.slice(1);
+    }
+    line = line.replace(/\/+$/, '');
+    // Patterns containing a slash are relative to the .gitignore's directory
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    if (!line) {
+      continue;
+    }
+    const source = globToRegExpSource(line);
+    rules.push({
+      base: directory,
+      pattern: new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`),
+      negate
+    });
+  }
+  return rules;
+}
+
+/**
+ * Check a directory against the accumulated .gitignore rules (last match wins)
+ */
+function isIgnored(directory: string, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    const relativePath = relative(rule.base, directory).split(sep).join('/');
+    if (!relativePath || relativePath.startsWith('..')) {
+      continue;
+    }
+    if (rule.pattern.test(relativePath)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Describe a directory that has coordination files
+ */
+async function describeDirectory(directory: string, maxAgeHours: number, config: BeepBoopConfig): Promise<ClaimListing | null> {
+  const status = await getWorkStatus(directory, config);
+
+  switch (status.status) {
+    case WorkState.NO_COORDINATION:
+      return null;
+
+    case WorkState.WORK_ALLOWED: {
+      const beepPath = await locateCoordinationFile(directory, 'beep', config);
+      const beep = beepPath ? await getFileMetadata(beepPath) : null;
+      const content = beep?.content ? parseBeepContent(beep.content, beep.timestamp, directory) : undefined;
+      return {
+        directory,
+        status: status.status,
+        agentId: content?.completedBy,
+        workDescription: content?.message,
+        timestamp: status.beepTimestamp,
+        age: status.beepTimestamp ? getFileAgeDescription(status.beepTimestamp) : undefined,
+        stale: false
+      };
+    }
+
+    case WorkState.SHARED_IN_PROGRESS: {
+      const oldest = status.holders
+        .map(holder => holder.startedAt)
+        .filter((startedAt): startedAt is Date => startedAt !== undefined)
+        .sort((a, b) => a.getTime() - b.getTime())[0];
+      return {
+        directory,
+        status: status.status,
+        agentId: status.holders.map(holder => holder.agentId).join(', '),
+        workDescription: status.holders.map(holder => holder.workDescription).filter(Boolean).join('; ') || undefined,
+        timestamp: oldest,
+        age: oldest ? getFileAgeDescription(oldest) : undefined,
+        stale: status.holders.every(holder => holder.leaseExpiresAt !== undefined && holder.leaseExpiresAt.getTime() <= Date.now())
+      };
+    }
+
+    case WorkState.CORRUPT_FILE: {
+      const timestamp = status.boopTimestamp ?? status.beepTimestamp;
+      return {
+        directory,
+        status: status.status,
+        workDescription: status.details,
+        timestamp,
+        age: timestamp ? getFileAgeDescription(timestamp) : undefined,
+        stale: false
+      };
+    }
+
+    default: {
+      const exclusive = status.holders.find(holder => holder.mode === 'exclusive');
+      return {
+        directory,
+        status: status.status,
+        agentId: status.agentId,
+        workDescription: exclusive?.workDescription,
+        timestamp: status.boopTimestamp,
+        age: status.boopTimestamp ? getFileAgeDescription(status.boopTimestamp) : undefined,
+        stale: status.boopTimestamp ? isClaimStale(status, maxAgeHours) : false
+      };
+    }
+  }
+}
+
+/**
+ * Walk a directory tree, starting with the root itself, and call visit for every
+ * directory holding coordination entries. Only directory listings are read on
+ * the way down. Blocked directories and paths excluded by .gitignore, including
+ * rules between the repository root and the walk root, are not entered.
+ */
+export async function walkCoordinatedDirectories(
+  root: string,
+  config: BeepBoopConfig,
+  maxDepth: number,
+  visit: (directory: string) => Promise<void>
+): Promise<void> {
+  const start = resolve(root);
+  const markers = [...coordinationEntryNames(config)];
+
+  // Rules from .gitignore files between the repository root and the scan root also apply
+  let inheritedRules: IgnoreRule[] = [];
+  const repoRoot = await findRepoRoot(start);
+  if (repoRoot && repoRoot !== start) {
+    const ancestors: string[] = [];
+    for (let current = dirname(start); ; current = dirname(current)) {
+      ancestors.unshift(current);
+      if (current === repoRoot || dirname(current) === current) {
+        break;
+      }
+    }
+    for (const ancestor of ancestors) {
+      inheritedRules = inheritedRules.concat(await loadIgnoreRules(ancestor));
+    }
+  }
+
+  const walk = async (directory: string, depth: number, rules: IgnoreRule[]): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    const names = new Set(entries.map(entry => entry.name));
+    if (markers.some(marker => names.has(marker))) {
+      await visit(directory);
+    }
+
+    if (depth >= maxDepth) {
+      return;
+    }
+
+    const activeRules = rules.concat(await loadIgnoreRules(directory));
+    for (const entry of entries) {
+      if (!entry.isDirectory() || SKIPPED_SCAN_DIRECTORIES.has(entry.name)) {
+        continue;
+      }
+      const child = join(directory, entry.name);
+      if (!isDirectoryAllowed(child, config) || isIgnored(child, activeRules)) {
+        continue;
+      }
+      await walk(child, depth + 1, activeRules);
+    }
+  };
+  await walk(start, 0, inheritedRules);
+}
+
+/**
+ * Walk a directory tree and report every directory with a beep, boop or shared
+ * claim. Blocked directories and paths excluded by .gitignore are not entered.
+ */
+export async function listClaims(
+  root: string,
+  config: BeepBoopConfig,
+  maxDepth: number = LIST_CLAIMS_DEFAULT_DEPTH,
+  maxAgeHours: number = config.defaultMaxAgeHours
+): Promise<ClaimListing[]> {
+  const listings: ClaimListing[] = [];
+  await walkCoordinatedDirectories(root, config, maxDepth, async directory => {
+    const listing = await describeDirectory(directory, maxAgeHours, config);
+    if (listing) {
+      listings.push(listing);
+    }
+  });
+
+  return listings.sort((a, b) => a.directory.localeCompare(b.directory));
+}
+
+/**
+ * Summarise a scan for tool responses
+ */
+export function describeClaimListingSummary(root: string, maxDepth: number, listings: ClaimListing[]): string {
+  if (listings.length === 0) {
+    return `⭕ No coordination files found under ${root} (depth ${maxDepth}).`;
+  }
+  const claimed = listings.filter(listing => listing.status !== WorkState.WORK_ALLOWED).length;
+  const stale = listings.filter(listing => listing.stale).length;
+  return `📋 ${listings.length} director${listings.length === 1 ? 'y' : 'ies'} with coordination files under ${root} (${claimed} claimed or invalid, ${stale} stale):\n\n${formatClaimListings(listings)}`;
+}
+
+/**
+ * Format claim listings for tool responses
+ */
+export function formatClaimListings(listings: ClaimListing[]): string {
+  const emoji: Partial<Record<WorkState, string>> = {
+    [WorkState.WORK_ALLOWED]: '✅',
+    [WorkState.WORK_IN_PROGRESS]: '🚧',
+    [WorkState.SHARED_IN_PROGRESS]: '👥',
+    [WorkState.INVALID_STATE]: '⚠️',
+    [WorkState.CORRUPT_FILE]: '💥'
+  };
+  return listings.map(listing => {
+    let line = `${emoji[listing.status] ?? '•'} ${listing.directory} [${listing.status}]`;
+    if (listing.agentId) {
+      line += ` ${listing.agentId}`;
+    }
+    if (listing.age) {
+      line += ` (${listing.age}${listing.stale ? ', STALE' : ''})`;
+    } else if (listing.stale) {
+      line += ' (STALE)';
+    }
+    if (listing.workDescription) {
+      line += ` - ${listing.workDescription}`;
+    }
+    return line;
+  }).join('\n');
+}
@@ -0,0 +1,339 @@
+#!/usr/bin/env node
+
+/**
+ * Beep/Boop command line interface
+ * Inspect and change claims from a shell or script, using the same handlers as the MCP tools
+ */
+
+import { parseArgs } from 'util';
+import { resolve } from 'path';
+import {
+  handleCheckStatus,
+  handleUpdateBoop,
+  handleEndWork,
+  handleListClaims,
+  handleCheckListenerStatus
+} from './tools.js';
+import { auditToolCall } from './audit-log.js';
+import { loadConfig, loadConfigWithSources, describeEffectiveConfig } from './config.js';
+import { getWorkStatus } from './file-operations.js';
+import { listClaims, LIST_CLAIMS_DEFAULT_DEPTH } from './claim-scan.js';
+import { InboxStore } from './ingress/inbox.js';
+import { ErrorCode, ToolResponse, errorCodeOfResponse } from './types.js';
+
+/** Exit code for success */
+const EXIT_SUCCESS = 0;
+
+/** Exit code for failures without an error code */
+const EXIT_FAILURE = 1;
+
+/** Exit code for invalid command lines */
+const EXIT_USAGE = 2;
+
+/** Exit code for each error code, so scripts can tell failures apart */
+export const EXIT_CODES: Record<ErrorCode, number> = {
+  [ErrorCode.DIRECTORY_NOT_FOUND]: 3,
+  [ErrorCode.PERMISSION_DENIED]: 4,
+  [ErrorCode.FILE_SYSTEM_ERROR]: 5,
+  [ErrorCode.INVALID_AGENT_ID]: 6,
+  [ErrorCode.WORK_ALREADY_IN_PROGRESS]: 7,
+  [ErrorCode.WORK_NOT_CLAIMED]: 8,
+  [ErrorCode.INVALID_STATE]: 9,
+  [ErrorCode.AGENT_MISMATCH]: 10,
+  [ErrorCode.STALE_FENCING_TOKEN]: 11,
+  [ErrorCode.NESTED_CLAIM_CONFLICT]: 12,
+  [ErrorCode.CORRUPT_FILE]: 13,
+  [ErrorCode.RESERVED_FOR_QUEUED_AGENT]: 14,
+  [ErrorCode.BACKUP_NOT_FOUND]: 15,
+  [ErrorCode.OPERATION_BUSY]: 16
+};
+
+const USAGE = `Usage: beep-boop <command> [options]
+
+Commands:
+  status <directory>              Show the coordination status of a directory
+  claim <directory> --agent <id>  Claim a directory (update_boop)
+  release <directory> --agent <id>
+                                  End work and release the claim (end_work)
+  list [root]                     List claimed and completed directories under root (default: .)
+  cleanup-stale [root]            Remove stale claims under root (default: .)
+  inbox list                      List unprocessed inbox messages
+  inbox read <id>                 Show an inbox message
+  inbox ack <id>                  Mark an inbox message as processed
+  listener-status                 Check the central listener configuration and connectivity
+  config                          Show the effective configuration and where each value came from
+
+Options:
+  --agent <id>                    Agent identifier
+  --description <text>            Work description (claim)
+  --shared                        Take a shared claim instead of an exclusive one (claim)
+  --fencing-token <n>             Fencing token of the claim (claim, release)
+  --message <text>                Completion message (release)
+  --max-age-hours <n>             Age before a claim counts as stale (status, list, cleanup-stale)
+  --max-depth <n>                 Depth below root to scan (list, cleanup-stale)
+  --include-config                Include configuration details (listener-status)
+  --json                          Print the result as JSON
+  -h, --help                      Show this help
+
+Exit codes: 0 success, 1 error, 2 invalid usage, ${Object.entries(EXIT_CODES).map(([code, exitCode]) => `${exitCode} ${code}`).join(', ')}`;
+
+/** Result of a command, with extra fields for --json output */
+interface CommandResult {
+  response: ToolResponse;
+  data?: Record<string, unknown>;
+}
+
+class UsageError extends Error {}
+
+type Options = ReturnType<typeof parseCommandLine>['values'];
+
+function parseCommandLine(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      agent: { type: 'string' },
+      description: { type: 'string' },
+      shared: { type: 'boolean' },
+      'fencing-token': { type: 'string' },
+      message: { type: 'string' },
+      'max-age-hours': { type: 'string' },
+      'max-depth': { type: 'string' },
+      'include-config': { type: 'boolean' },
+      json: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+}
+
+function requireArg(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new UsageError(`Missing ${name}`);
+  }
+  return value;
+}
+
+function numberOption(options: Options, name: 'fencing-token' | 'max-age-hours' | 'max-depth', integer = false): number | undefined {
+  const raw = options[name];
+  if (raw === undefined) {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+    throw new UsageError(`--${name} must be ${integer ? 'an integer' : 'a number'}`);
+  }
+  return value;
+}
+
+function textResponse(text: string, isError = false): ToolResponse {
+  return { content: [{ type: 'text', text }], ...(isError ? { isError: true } : {}) };
+}
+
+/**
+ * Inbox message IDs are UUIDs; anything else could escape the inbox directory
+ */
+function inboxMessageId(id: string | undefined): string {
+  const value = requireArg(id, 'message ID');
+  if (!/^[a-zA-Z0-9-]+$/.test(value)) {
+    throw new UsageError(`Invalid message ID: ${value}`);
+  }
+  return value;
+}
+
+async function runInbox(args: string[]): Promise<CommandResult> {
+  const inbox = new InboxStore(loadConfig());
+  const [action, id] = args;
+
+  switch (action) {
+    case 'list': {
+      const ids = (await inbox.list()).map(file => file.replace(/\.json$/, ''));
+      return {
+        response: textResponse(ids.length > 0 ? ids.join('\n') : '📭 No unprocessed messages'),
+        data: { ids }
+      };
+    }
+
+    case 'read': {
+      const messageId = inboxMessageId(id);
+      const message = await inbox.read(messageId);
+      if (!message) {
+        return { response: textResponse(`❌ Message ${messageId} not found`, true) };
+      }
+      return {
+        response: textResponse(`📨 ${message.platform} message from ${message.authoredBy.username || message.authoredBy.id} at ${message.createdAt}\n${message.text}`),
+        data: { message }
+      };
+    }
+
+    case 'ack': {
+      const messageId = inboxMessageId(id);
+      const ok = await inbox.ack(messageId);
+      return {
+        response: textResponse(ok ? `✅ Message ${messageId} marked as processed` : `❌ Could not acknowledge message ${messageId}`, !ok),
+        data: { ok }
+      };
+    }
+
+    default:
+      throw new UsageError(action ? `Unknown inbox command: ${action}` : 'Missing inbox command');
+  }
+}
+
+/**
+ * Print every setting with the layer it came from: default, preset (NODE_ENV), file or env
+ */
+function runConfig(): CommandResult {
+  const loaded = loadConfigWithSources();
+  const { preset, settings } = describeEffectiveConfig(loaded);
+  const width = Math.max(...settings.map(entry => entry.variable.length));
+  const lines = settings.map(entry => `${entry.variable.padEnd(width)}  ${entry.value || '(unset)'}  [${entry.source}]`);
+  return {
+    response: textResponse(`⚙️ Config file: ${loaded.configFile ?? 'none'}\n🎛️ Preset: ${preset}\n\n${lines.join('\n')}`),
+    data: { configFile: loaded.configFile ?? null, preset: loaded.preset ?? null, settings }
+  };
+}
+
+/**
+ * Check every stale claim under a root with auto cleanup enabled
+ */
+async function runCleanupStale(root: string, options: Options): Promise<CommandResult> {
+  const config = loadConfig();
+  const maxAgeHours = numberOption(options, 'max-age-hours') ?? config.defaultMaxAgeHours;
+  const maxDepth = numberOption(options, 'max-depth', true) ?? LIST_CLAIMS_DEFAULT_DEPTH;
+  const stale = (await listClaims(root, config, maxDepth, maxAgeHours)).filter(listing => listing.stale);
+  if (stale.length === 0) {
+    return { response: textResponse(`✅ No stale claims under ${root}`), data: { cleaned: [] } };
+  }
+
+  const texts: string[] = [];
+  const cleaned: string[] = [];
+  let failure: ToolResponse | undefined;
+  for (const listing of stale) {
+    const response = await auditToolCall('check_status', { directory: listing.directory, maxAgeHours, autoCleanStale: true }, handleCheckStatus, config);
+    texts.push(`${listing.directory}:\n${response.content.map(item => item.text).join('\n')}`);
+    if (response.isError) {
+      failure = failure ?? response;
+    } else {
+      cleaned.push(listing.directory);
+    }
+  }
+
+  // Report the first failure's error code
+  const text = texts.join('\n\n');
+  return {
+    response: failure ? { ...failure, content: [{ type: 'text', text }] } : textResponse(text),
+    data: { cleaned }
+  };
+}
+
+async function runCommand(command: string | undefined, args: string[], options: Options): Promise<CommandResult> {
+  switch (command) {
+    case 'status': {
+      const directory = resolve(requireArg(args[0], 'directory'));
+      const config = loadConfig();
+      const response = await auditToolCall('check_status', {
+        directory,
+        maxAgeHours: numberOption(options, 'max-age-hours') ?? config.defaultMaxAgeHours
+      }, handleCheckStatus, config);
+      return { response, data: response.isError ? undefined : { status: await getWorkStatus(directory, config) } };
+    }
+
+    case 'claim':
+      return {
+        response: await auditToolCall('update_boop', {
+          directory: resolve(requireArg(args[0], 'directory')),
+          agentId: requireArg(options.agent, '--agent'),
+          workDescription: options.description,
+          fencingToken: numberOption(options, 'fencing-token', true),
+          mode: options.shared ? 'shared' : 'exclusive'
+        }, handleUpdateBoop, loadConfig())
+      };
+
+    case 'release':
+      return {
+        response: await auditToolCall('end_work', {
+          directory: resolve(requireArg(args[0], 'directory')),
+          agentId: requireArg(options.agent, '--agent'),
+          message: options.message,
+          fencingToken: numberOption(options, 'fencing-token', true)
+        }, handleEndWork, loadConfig())
+      };
+
+    case 'list': {
+      const root = resolve(args[0] ?? '.');
+      const config = loadConfig();
+      const maxDepth = numberOption(options, 'max-depth', true) ?? LIST_CLAIMS_DEFAULT_DEPTH;
+      const maxAgeHours = numberOption(options, 'max-age-hours') ?? config.defaultMaxAgeHours;
+      const response = await auditToolCall('list_claims', { root, maxDepth, maxAgeHours }, handleListClaims, config);
+      return {
+        response,
+        data: options.json && !response.isError ? { claims: await listClaims(root, config, maxDepth, maxAgeHours) } : undefined
+      };
+    }
+
+    case 'cleanup-stale':
+      return await runCleanupStale(resolve(args[0] ?? '.'), options);
+
+    case 'inbox':
+      return await runInbox(args);
+
+    case 'listener-status':
+      return { response: await handleCheckListenerStatus({ includeConfig: options['include-config'] ?? false }) };
+
+    case 'config':
+      return runConfig();
+
+    default:
+      throw new UsageError(command ? `Unknown command: ${command}` : 'Missing command');
+  }
+}
+
+/**
+ * Print a command's result and work out the exit code
+ */
+function report(result: CommandResult, json: boolean): number {
+  const { response } = result;
+  const code = errorCodeOfResponse(response);
+  const exitCode = response.isError ? (code ? EXIT_CODES[code] : EXIT_FAILURE) : EXIT_SUCCESS;
+  const text = response.content.map(item => item.text).join('\n');
+
+  if (json) {
+    process.stdout.write(`${JSON.stringify({ ok: !response.isError, code, exitCode, text, ...result.data }, null, 2)}\n`);
+  } else if (response.isError) {
+    process.stderr.write(`${text}\n`);
+  } else {
+    process.stdout.write(`${text}\n`);
+  }
+  return exitCode;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(argv);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+
+  const { values: options, positionals } = parsed;
+  const [command, ...args] = positionals;
+  if (options.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_SUCCESS;
+  }
+
+  try {
+    return report(await runCommand(command, args, options), options.json ?? false);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`❌ ${error.message}\n\n${USAGE}\n`);
+      return EXIT_USAGE;
+    }
+    return report({ response: textResponse(`❌ ${error instanceof Error ? error.message : error}`, true) }, options.json ?? false);
+  }
+}
+
+main(process.argv.slice(2)).then(exitCode => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,105 @@
+/**
+ * beep-boop.config.json: environment variable settings kept in a file
+ *
+ * The file is a JSON object of BEEP_BOOP_* variables, in the same form as the
+ * "env" blocks in example-configs. It is looked up in BEEP_BOOP_CONFIG_FILE,
+ * then at the root of the repository containing the working directory, then
+ * in the home directory; the first one found is used.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import os from 'os';
+import { dirname, join, resolve } from 'path';
+
+/** Name of the config file at a repository root or in the home directory */
+export const CONFIG_FILE_NAME = 'beep-boop.config.json';
+
+/** Settings read from a config file, by environment variable name */
+export interface ConfigFileSettings {
+  path: string;
+  values: Record<string, string>;
+}
+
+/**
+ * Nearest directory at or above a directory that contains .git
+ */
+function findRepoRootSync(directory: string): string | null {
+  let current = resolve(directory);
+  while (true) {
+    if (existsSync(join(current, '.git'))) {
+      return current;
+    }
+    const parent = dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Places a config file is looked for, in order of preference
+ */
+export function configFileCandidates(): string[] {
+  const explicit = process.env.BEEP_BOOP_CONFIG_FILE;
+  if (explicit) {
+    return [resolve(explicit)];
+  }
+  const repoRoot = findRepoRootSync(process.cwd());
+  return [
+    ...(repoRoot ? [join(repoRoot, CONFIG_FILE_NAME)] : []),
+    join(os.homedir(), CONFIG_FILE_NAME)
+  ];
+}
+
+/**
+ * Path of the config file in effect, or undefined when there is none
+ */
+export function findConfigFile(): string | undefined {
+  const explicit = process.env.BEEP_BOOP_CONFIG_FILE;
+  if (explicit && !existsSync(explicit)) {
+    throw new Error(`BEEP_BOOP_CONFIG_FILE points to a missing file: ${explicit}`);
+  }
+  return configFileCandidates().find(candidate => existsSync(candidate));
+}
+
+/**
+ * Read a config file. Lists may be given as arrays and numbers and booleans
+ * as JSON values; everything is converted to the string an environment
+ * variable would hold. Keys other than BEEP_BOOP_* (such as _COMMENT entries)
+ * are ignored.
+ */
+export function readConfigFile(path: string): ConfigFileSettings {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read config file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Config file ${path} must contain a JSON object of BEEP_BOOP_* settings`);
+  }
+
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    if (!key.startsWith('BEEP_BOOP_') || value === null) {
+      continue;
+    }
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+      values[key] = value.join(',');
+    } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      values[key] = String(value);
+    } else {
+      throw new Error(`Config file ${path}: ${key} must be a string, number, boolean or list of strings`);
+    }
+  }
+  return { path, values };
+}
+
+/**
+ * Settings from the config file in effect, if any
+ */
+export function loadConfigFile(): ConfigFileSettings | undefined {
+  const path = findConfigFile();
+  return path ? readConfigFile(path) : undefined;
+}
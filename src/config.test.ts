@@ -0,0 +1,159 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { checkConfig, ConfigValidationError, describeEffectiveConfig, loadConfig, loadConfigWithSources } from './config.js';
+
+let directory: string;
+let configFile: string;
+let savedEnv: NodeJS.ProcessEnv;
+
+beforeEach(() => {
+  savedEnv = { ...process.env };
+  // Start every test from built-in defaults, whatever the environment running the tests sets
+  for (const key of Object.keys(process.env)) {
+    if (key.startsWith('BEEP_BOOP_') || key === 'NODE_ENV' || key === 'CI') {
+      delete process.env[key];
+    }
+  }
+  directory = mkdtempSync(join(tmpdir(), 'beep-boop-test-'));
+  configFile = join(directory, 'beep-boop.config.json');
+  process.env.BEEP_BOOP_CONFIG_FILE = configFile;
+});
+
+afterEach(() => {
+  process.env = savedEnv;
+  rmSync(directory, { recursive: true, force: true });
+});
+
+/**
+ * Write the config file the tests point BEEP_BOOP_CONFIG_FILE at
+ */
+function writeConfigFile(settings: Record<string, unknown>): void {
+  writeFileSync(configFile, JSON.stringify(settings));
+}
+
+test('environment variables beat the config file, which beats the preset and defaults', () => {
+  process.env.NODE_ENV = 'production';
+  writeConfigFile({
+    BEEP_BOOP_DEFAULT_MAX_AGE_HOURS: 12,
+    BEEP_BOOP_LOG_LEVEL: 'warn'
+  });
+  process.env.BEEP_BOOP_DEFAULT_MAX_AGE_HOURS = '6';
+
+  const { config, sources, configFile: usedFile } = loadConfigWithSources();
+
+  assert.equal(usedFile, configFile);
+  assert.equal(config.defaultMaxAgeHours, 6);
+  assert.equal(sources.defaultMaxAgeHours, 'env');
+  assert.equal(config.logLevel, 'warn');
+  assert.equal(sources.logLevel, 'file');
+  assert.equal(config.backupEnabled, true);
+  assert.equal(sources.backupEnabled, 'preset');
+  assert.equal(config.maxAgentIdLength, 100);
+  assert.equal(sources.maxAgentIdLength, 'default');
+});
+
+test('without NODE_ENV no preset applies', () => {
+  writeConfigFile({});
+
+  const { config, sources } = loadConfigWithSources();
+
+  assert.equal(config.logLevel, 'info');
+  assert.equal(config.defaultMaxAgeHours, 24);
+  assert.ok(!Object.values(sources).includes('preset'));
+});
+
+test('config file lists, numbers and booleans are read like environment strings', () => {
+  writeConfigFile({
+    BEEP_BOOP_BLOCKED_DIRECTORIES: ['/srv/secrets', '/opt/private'],
+    BEEP_BOOP_MAX_CONCURRENT_OPERATIONS: 3,
+    BEEP_BOOP_WATCH_MODE: true,
+    _COMMENT: 'ignored'
+  });
+
+  const { config } = loadConfigWithSources();
+
+  assert.deepEqual(config.blockedDirectories, ['/srv/secrets', '/opt/private']);
+  assert.equal(config.maxConcurrentOperations, 3);
+  assert.equal(config.watchMode, true);
+});
+
+test('an empty environment variable does not hide the config file value', () => {
+  writeConfigFile({ BEEP_BOOP_LOG_LEVEL: 'error' });
+  process.env.BEEP_BOOP_LOG_LEVEL = '';
+
+  const { config, sources } = loadConfigWithSources();
+
+  assert.equal(config.logLevel, 'error');
+  assert.equal(sources.logLevel, 'file');
+});
+
+test('every invalid setting is reported at once', () => {
+  writeConfigFile({ BEEP_BOOP_LOG_LEVEL: 'loud' });
+  process.env.BEEP_BOOP_DEFAULT_MAX_AGE_HOURS = 'abc';
+  process.env.BEEP_BOOP_MAX_CONCURRENT_OPERATIONS = '0';
+
+  const report = checkConfig();
+
+  assert.equal(report.valid, false);
+  assert.deepEqual(report.errors, [
+    'BEEP_BOOP_DEFAULT_MAX_AGE_HOURS must be a number (got "abc")',
+    'BEEP_BOOP_LOG_LEVEL must be one of: error, warn, info, debug',
+    'BEEP_BOOP_MAX_CONCURRENT_OPERATIONS must be between 1 and 100'
+  ]);
+  assert.throws(
+    () => loadConfig(),
+    (error: unknown) => error instanceof ConfigValidationError && error.errors.length === 3
+  );
+});
+
+test('unknown settings are warnings with a suggested name', () => {
+  writeConfigFile({ BEEP_BOOP_WATCHMODE: true });
+  process.env.BEEP_BOOP_LOGLEVEL = 'debug';
+
+  const report = checkConfig();
+
+  assert.equal(report.valid, true);
+  assert.deepEqual(report.warnings, [
+    `BEEP_BOOP_WATCHMODE in ${configFile} is not a known setting (did you mean BEEP_BOOP_WATCH_MODE?)`,
+    'BEEP_BOOP_LOGLEVEL in the environment is not a known setting (did you mean BEEP_BOOP_LOG_LEVEL?)'
+  ]);
+});
+
+test('a missing or malformed config file is a configuration error', () => {
+  assert.deepEqual(checkConfig().errors, [`BEEP_BOOP_CONFIG_FILE points to a missing file: ${configFile}`]);
+
+  writeFileSync(configFile, '["not", "an", "object"]');
+  assert.deepEqual(checkConfig().errors, [`Config file ${configFile} must contain a JSON object of BEEP_BOOP_* settings`]);
+});
+
+test('the test and ci presets sweep stale claims and refuse to start while any remain', () => {
+  writeConfigFile({});
+
+  for (const preset of ['test', 'ci']) {
+    process.env.NODE_ENV = preset;
+    const { config, sources } = loadConfigWithSources();
+
+    assert.equal(config.forceCleanupOnStart, true, preset);
+    assert.equal(config.failOnStale, true, preset);
+    assert.equal(sources.failOnStale, 'preset', preset);
+  }
+});
+
+test('the effective config explains which preset applied, or why none did', () => {
+  writeConfigFile({});
+
+  assert.match(describeEffectiveConfig(loadConfigWithSources()).preset, /^none \(NODE_ENV is unset/);
+
+  process.env.NODE_ENV = 'staging';
+  const staging = loadConfigWithSources();
+  assert.equal(staging.preset, undefined);
+  assert.match(describeEffectiveConfig(staging).preset, /^none \(NODE_ENV=staging has no preset/);
+
+  process.env.NODE_ENV = 'production';
+  const production = loadConfigWithSources();
+  assert.equal(production.preset, 'production');
+  assert.equal(describeEffectiveConfig(production).preset, 'production (NODE_ENV=production)');
+});
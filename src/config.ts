@@ -4,13 +4,15 @@
 
 import os from 'os';
 import path from 'path';
+import { z } from 'zod';
+import { ConfigFileSettings, loadConfigFile } from './config-file.js';
 
 export interface BeepBoopConfig {
   // Core settings
   defaultMaxAgeHours: number;
   autoCleanupEnabled: boolean;
   maxAgentIdLength: number;
-  filePermissions: string;
+  filePermissions: string; // mode of beep and boop files
   
   // Logging and debugging
   logLevel: 'error' | 'warn' | 'info' | 'debug';
@@ -47,6 +49,18 @@ export interface BeepBoopConfig {
   warnThresholdHours: number;
   escalationEnabled: boolean;
   escalationAfterHours: number;
+  escalationMentions: string[]; // mentions added to escalation notifications
+  escalationCheckIntervalMinutes: number; // how often the ingress process checks claim ages (0 = disabled)
+  escalationScanRoots: string[]; // where to look for claims (default: allowed directories, else cwd)
+  forceExpireEnabled: boolean; // expire claims older than maxWorkDurationHours
+  leaseDurationHours: number;
+  nestedClaimPolicy: 'block' | 'warn' | 'off';
+  queueGraceMinutes: number;
+  
+  // Coordination file layout
+  beepFileName: string;
+  boopFileName: string;
+  useMetadataDir: boolean; // keep all coordination state under .beep-boop/
   
   // Environment-specific
   devMode: boolean;
@@ -55,6 +69,7 @@ export interface BeepBoopConfig {
   forceCleanupOnStart: boolean;
   failOnStale: boolean;
   maxConcurrentOperations: number;
+  operationQueueTimeoutMs: number; // How long a tool call waits for its directory or a free slot
   
   // Git integration
   manageGitIgnore: boolean;
@@ -66,6 +81,8 @@ export interface BeepBoopConfig {
   ingressHttpPort: number;
   ingressHttpAuthToken?: string;
   ingressInboxDir: string;
+  inboxFilePermissions: string; // mode of inbox message files
+  inboxDirPermissions: string; // mode of the inbox directories
 
   // Central HTTP listener delegation (synchronous request/response)
   listenerEnabled: boolean;
@@ -102,107 +119,305 @@ export interface BeepBoopConfig {
   inboxCleanupIntervalHours: number; // How often to run automatic cleanup (0 = disabled)
 }
 
+/** Layer a configuration value came from, lowest precedence first */
+export type ConfigSource = 'default' | 'preset' | 'file' | 'env';
+
+/** Configuration together with the origin of each value */
+export interface LoadedConfig {
+  config: BeepBoopConfig;
+  sources: Record<keyof BeepBoopConfig, ConfigSource>;
+  configFile?: string;
+  /** NODE_ENV preset that was applied, if any */
+  preset?: string;
+}
+
+/** Result of checking the configuration */
+export interface ConfigReport {
+  valid: boolean;
+  errors: string[];
+  /** Unknown BEEP_BOOP_* settings, which are likely typos */
+  warnings: string[];
+  configFile?: string;
+}
+
 /**
- * Load configuration from environment variables
+ * Thrown by loadConfig when settings are invalid; lists every problem found
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(errors.length === 1
+      ? errors[0]
+      : `Invalid configuration (${errors.length} problems):\n${errors.map(error => `  • ${error}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/** Environment variable (and config file key) behind each setting */
+export const CONFIG_ENV_VARS: Record<keyof BeepBoopConfig, string> = {
+  defaultMaxAgeHours: 'BEEP_BOOP_DEFAULT_MAX_AGE_HOURS',
+  autoCleanupEnabled: 'BEEP_BOOP_AUTO_CLEANUP_ENABLED',
+  maxAgentIdLength: 'BEEP_BOOP_MAX_AGENT_ID_LENGTH',
+  filePermissions: 'BEEP_BOOP_FILE_PERMISSIONS',
+  logLevel: 'BEEP_BOOP_LOG_LEVEL',
+  timezone: 'BEEP_BOOP_TIMEZONE',
+  allowedDirectories: 'BEEP_BOOP_ALLOWED_DIRECTORIES',
+  blockedDirectories: 'BEEP_BOOP_BLOCKED_DIRECTORIES',
+  requireTeamPrefix: 'BEEP_BOOP_REQUIRE_TEAM_PREFIX',
+  teamPrefixes: 'BEEP_BOOP_TEAM_PREFIXES',
+  backupEnabled: 'BEEP_BOOP_BACKUP_ENABLED',
+  backupDir: 'BEEP_BOOP_BACKUP_DIR',
+  enableMetrics: 'BEEP_BOOP_ENABLE_METRICS',
+  enableNotifications: 'BEEP_BOOP_ENABLE_NOTIFICATIONS',
+  notificationWebhook: 'BEEP_BOOP_NOTIFICATION_WEBHOOK',
+  notificationService: 'BEEP_BOOP_NOTIFICATION_SERVICE',
+  discordWebhookUrl: 'BEEP_BOOP_DISCORD_WEBHOOK_URL',
+  slackWebhookUrl: 'BEEP_BOOP_SLACK_WEBHOOK_URL',
+  notificationRetryAttempts: 'BEEP_BOOP_NOTIFICATION_RETRY_ATTEMPTS',
+  notificationTimeoutMs: 'BEEP_BOOP_NOTIFICATION_TIMEOUT_MS',
+  auditLogEnabled: 'BEEP_BOOP_AUDIT_LOG_ENABLED',
+  auditLogPath: 'BEEP_BOOP_AUDIT_LOG_PATH',
+  maxWorkDurationHours: 'BEEP_BOOP_MAX_WORK_DURATION_HOURS',
+  warnThresholdHours: 'BEEP_BOOP_WARN_THRESHOLD_HOURS',
+  escalationEnabled: 'BEEP_BOOP_ESCALATION_ENABLED',
+  escalationAfterHours: 'BEEP_BOOP_ESCALATION_AFTER_HOURS',
+  escalationMentions: 'BEEP_BOOP_ESCALATION_MENTIONS',
+  escalationCheckIntervalMinutes: 'BEEP_BOOP_ESCALATION_CHECK_INTERVAL_MINUTES',
+  escalationScanRoots: 'BEEP_BOOP_ESCALATION_SCAN_ROOTS',
+  forceExpireEnabled: 'BEEP_BOOP_FORCE_EXPIRE_ENABLED',
+  leaseDurationHours: 'BEEP_BOOP_LEASE_DURATION_HOURS',
+  nestedClaimPolicy: 'BEEP_BOOP_NESTED_CLAIM_POLICY',
+  queueGraceMinutes: 'BEEP_BOOP_QUEUE_GRACE_MINUTES',
+  beepFileName: 'BEEP_BOOP_BEEP_FILE_NAME',
+  boopFileName: 'BEEP_BOOP_BOOP_FILE_NAME',
+  useMetadataDir: 'BEEP_BOOP_USE_METADATA_DIR',
+  devMode: 'BEEP_BOOP_DEV_MODE',
+  ciMode: 'BEEP_BOOP_CI_MODE',
+  watchMode: 'BEEP_BOOP_WATCH_MODE',
+  forceCleanupOnStart: 'BEEP_BOOP_FORCE_CLEANUP_ON_START',
+  failOnStale: 'BEEP_BOOP_FAIL_ON_STALE',
+  maxConcurrentOperations: 'BEEP_BOOP_MAX_CONCURRENT_OPERATIONS',
+  operationQueueTimeoutMs: 'BEEP_BOOP_OPERATION_QUEUE_TIMEOUT_MS',
+  manageGitIgnore: 'BEEP_BOOP_MANAGE_GITIGNORE',
+  ingressEnabled: 'BEEP_BOOP_INGRESS_ENABLED',
+  ingressProvider: 'BEEP_BOOP_INGRESS_PROVIDER',
+  ingressHttpEnabled: 'BEEP_BOOP_INGRESS_HTTP_ENABLED',
+  ingressHttpPort: 'BEEP_BOOP_INGRESS_HTTP_PORT',
+  ingressHttpAuthToken: 'BEEP_BOOP_INGRESS_HTTP_AUTH_TOKEN',
+  inboxFilePermissions: 'BEEP_BOOP_INBOX_FILE_PERMISSIONS',
+  inboxDirPermissions: 'BEEP_BOOP_INBOX_DIR_PERMISSIONS',
+  ingressInboxDir: 'BEEP_BOOP_INGRESS_INBOX_DIR',
+  listenerEnabled: 'BEEP_BOOP_LISTENER_ENABLED',
+  listenerBaseUrl: 'BEEP_BOOP_LISTENER_BASE_URL',
+  listenerAuthToken: 'BEEP_BOOP_LISTENER_AUTH_TOKEN',
+  listenerTimeoutBaseMs: 'BEEP_BOOP_LISTENER_TIMEOUT_BASE_MS',
+  listenerTimeoutPerCharMs: 'BEEP_BOOP_LISTENER_TIMEOUT_PER_CHAR_MS',
+  listenerTimeoutMaxMs: 'BEEP_BOOP_LISTENER_TIMEOUT_MAX_MS',
+  maxConcurrentListenerRequests: 'BEEP_BOOP_MAX_CONCURRENT_LISTENER_REQUESTS',
+  slackAppToken: 'BEEP_BOOP_SLACK_APP_TOKEN',
+  slackBotToken: 'BEEP_BOOP_SLACK_BOT_TOKEN',
+  discordBotToken: 'BEEP_BOOP_DISCORD_BOT_TOKEN',
+  discordDefaultChannelId: 'BEEP_BOOP_DISCORD_DEFAULT_CHANNEL_ID',
+  conversationTimeoutMinutes: 'BEEP_BOOP_CONVERSATION_TIMEOUT_MINUTES',
+  conversationPollIntervalMs: 'BEEP_BOOP_CONVERSATION_POLL_INTERVAL_MS',
+  discordApiRetryAttempts: 'BEEP_BOOP_DISCORD_API_RETRY_ATTEMPTS',
+  discordApiRetryBaseDelayMs: 'BEEP_BOOP_DISCORD_API_RETRY_BASE_DELAY_MS',
+  discordApiTimeoutMs: 'BEEP_BOOP_DISCORD_API_TIMEOUT_MS',
+  inboxCleanupEnabled: 'BEEP_BOOP_INBOX_CLEANUP_ENABLED',
+  inboxProcessedRetentionDays: 'BEEP_BOOP_INBOX_PROCESSED_RETENTION_DAYS',
+  inboxUnprocessedRetentionDays: 'BEEP_BOOP_INBOX_UNPROCESSED_RETENTION_DAYS',
+  inboxMaxFilesPerDir: 'BEEP_BOOP_INBOX_MAX_FILES_PER_DIR',
+  inboxCleanupOnStartup: 'BEEP_BOOP_INBOX_CLEANUP_ON_STARTUP',
+  inboxCleanupIntervalHours: 'BEEP_BOOP_INBOX_CLEANUP_INTERVAL_HOURS'
+};
+
+/** Variables read outside BeepBoopConfig */
+const OTHER_ENV_VARS = ['BEEP_BOOP_CONFIG_FILE', 'BEEP_BOOP_START_INGRESS_WITH_SERVER'];
+
+/** Settings whose values are masked when the effective config is printed */
+const SECRET_SETTINGS = new Set<keyof BeepBoopConfig>([
+  'notificationWebhook',
+  'discordWebhookUrl',
+  'slackWebhookUrl',
+  'ingressHttpAuthToken',
+  'listenerAuthToken',
+  'slackAppToken',
+  'slackBotToken',
+  'discordBotToken'
+]);
+
+/**
+ * Load configuration from beep-boop.config.json and environment variables
  */
 export function loadConfig(): BeepBoopConfig {
+  return loadConfigWithSources().config;
+}
+
+/**
+ * Load configuration and record where each value came from. Layers, lowest
+ * precedence first: built-in defaults, the NODE_ENV preset from
+ * getEnvironmentDefaults, beep-boop.config.json, environment variables.
+ * Unlike getEnvironmentDefaults, no preset applies while NODE_ENV is unset.
+ */
+export function loadConfigWithSources(): LoadedConfig {
+  const { loaded, report } = resolveConfig();
+  if (!report.valid) {
+    throw new ConfigValidationError(report.errors);
+  }
+  return loaded;
+}
+
+/**
+ * Check the configuration in effect and report every problem, without throwing
+ */
+export function checkConfig(): ConfigReport {
+  return resolveConfig().report;
+}
+
+function resolveConfig(): { loaded: LoadedConfig; report: ConfigReport } {
+  const errors: string[] = [];
+  let configFile: ConfigFileSettings | undefined;
+  try {
+    configFile = loadConfigFile();
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+  }
+  const env = environmentSettings();
+  const settings: Record<string, string | undefined> = { ...configFile?.values, ...env };
+
   const config: BeepBoopConfig = {
     // Core settings
-    defaultMaxAgeHours: parseFloat(process.env.BEEP_BOOP_DEFAULT_MAX_AGE_HOURS || '24'),
-    autoCleanupEnabled: process.env.BEEP_BOOP_AUTO_CLEANUP_ENABLED === 'true',
-    maxAgentIdLength: parseInt(process.env.BEEP_BOOP_MAX_AGENT_ID_LENGTH || '100', 10),
-    filePermissions: process.env.BEEP_BOOP_FILE_PERMISSIONS || '0644',
+    defaultMaxAgeHours: parseFloat(settings.BEEP_BOOP_DEFAULT_MAX_AGE_HOURS || '24'),
+    autoCleanupEnabled: settings.BEEP_BOOP_AUTO_CLEANUP_ENABLED === 'true',
+    maxAgentIdLength: parseInt(settings.BEEP_BOOP_MAX_AGENT_ID_LENGTH || '100', 10),
+    filePermissions: settings.BEEP_BOOP_FILE_PERMISSIONS || '0644',
     
     // Logging and debugging
-    logLevel: (process.env.BEEP_BOOP_LOG_LEVEL || 'info') as BeepBoopConfig['logLevel'],
-    timezone: process.env.BEEP_BOOP_TIMEZONE || 'UTC',
+    logLevel: (settings.BEEP_BOOP_LOG_LEVEL || 'info') as BeepBoopConfig['logLevel'],
+    timezone: settings.BEEP_BOOP_TIMEZONE || 'UTC',
     
     // Security and access control
-    allowedDirectories: parseDirectories(process.env.BEEP_BOOP_ALLOWED_DIRECTORIES),
-    blockedDirectories: parseDirectories(process.env.BEEP_BOOP_BLOCKED_DIRECTORIES || '/tmp,/var,/etc'),
-    requireTeamPrefix: process.env.BEEP_BOOP_REQUIRE_TEAM_PREFIX === 'true',
-    teamPrefixes: parseList(process.env.BEEP_BOOP_TEAM_PREFIXES),
+    allowedDirectories: parseDirectories(settings.BEEP_BOOP_ALLOWED_DIRECTORIES),
+    blockedDirectories: parseDirectories(settings.BEEP_BOOP_BLOCKED_DIRECTORIES || '/tmp,/var,/etc'),
+    requireTeamPrefix: settings.BEEP_BOOP_REQUIRE_TEAM_PREFIX === 'true',
+    teamPrefixes: parseList(settings.BEEP_BOOP_TEAM_PREFIXES),
     
     // Backup and recovery
-    backupEnabled: process.env.BEEP_BOOP_BACKUP_ENABLED === 'true',
-    backupDir: process.env.BEEP_BOOP_BACKUP_DIR || './.beep-boop-backups',
+    backupEnabled: settings.BEEP_BOOP_BACKUP_ENABLED === 'true',
+    backupDir: settings.BEEP_BOOP_BACKUP_DIR || './.beep-boop-backups',
     
     // Monitoring and metrics
-    enableMetrics: process.env.BEEP_BOOP_ENABLE_METRICS === 'true',
-    enableNotifications: process.env.BEEP_BOOP_ENABLE_NOTIFICATIONS === 'true',
-    notificationWebhook: process.env.BEEP_BOOP_NOTIFICATION_WEBHOOK,
+    enableMetrics: settings.BEEP_BOOP_ENABLE_METRICS === 'true',
+    enableNotifications: settings.BEEP_BOOP_ENABLE_NOTIFICATIONS === 'true',
+    notificationWebhook: settings.BEEP_BOOP_NOTIFICATION_WEBHOOK,
     
     // Webhook notifications
-    notificationService: (process.env.BEEP_BOOP_NOTIFICATION_SERVICE || 'both') as BeepBoopConfig['notificationService'],
-    discordWebhookUrl: process.env.BEEP_BOOP_DISCORD_WEBHOOK_URL,
-    slackWebhookUrl: process.env.BEEP_BOOP_SLACK_WEBHOOK_URL,
-    notificationRetryAttempts: parseInt(process.env.BEEP_BOOP_NOTIFICATION_RETRY_ATTEMPTS || '3', 10),
-    notificationTimeoutMs: parseInt(process.env.BEEP_BOOP_NOTIFICATION_TIMEOUT_MS || '5000', 10),
+    notificationService: (settings.BEEP_BOOP_NOTIFICATION_SERVICE || 'both') as BeepBoopConfig['notificationService'],
+    discordWebhookUrl: settings.BEEP_BOOP_DISCORD_WEBHOOK_URL,
+    slackWebhookUrl: settings.BEEP_BOOP_SLACK_WEBHOOK_URL,
+    notificationRetryAttempts: parseInt(settings.BEEP_BOOP_NOTIFICATION_RETRY_ATTEMPTS || '3', 10),
+    notificationTimeoutMs: parseInt(settings.BEEP_BOOP_NOTIFICATION_TIMEOUT_MS || '5000', 10),
     
     // Audit and compliance
-    auditLogEnabled: process.env.BEEP_BOOP_AUDIT_LOG_ENABLED === 'true',
-    auditLogPath: process.env.BEEP_BOOP_AUDIT_LOG_PATH || './logs/coordination-audit.log',
+    auditLogEnabled: settings.BEEP_BOOP_AUDIT_LOG_ENABLED === 'true',
+    auditLogPath: settings.BEEP_BOOP_AUDIT_LOG_PATH || './logs/coordination-audit.log',
     
     // Work management
-    maxWorkDurationHours: parseFloat(process.env.BEEP_BOOP_MAX_WORK_DURATION_HOURS || '48'),
-    warnThresholdHours: parseFloat(process.env.BEEP_BOOP_WARN_THRESHOLD_HOURS || '8'),
-    escalationEnabled: process.env.BEEP_BOOP_ESCALATION_ENABLED === 'true',
-    escalationAfterHours: parseFloat(process.env.BEEP_BOOP_ESCALATION_AFTER_HOURS || '24'),
+    maxWorkDurationHours: parseFloat(settings.BEEP_BOOP_MAX_WORK_DURATION_HOURS || '48'),
+    warnThresholdHours: parseFloat(settings.BEEP_BOOP_WARN_THRESHOLD_HOURS || '8'),
+    escalationEnabled: settings.BEEP_BOOP_ESCALATION_ENABLED === 'true',
+    escalationAfterHours: parseFloat(settings.BEEP_BOOP_ESCALATION_AFTER_HOURS || '24'),
+    escalationMentions: parseList(settings.BEEP_BOOP_ESCALATION_MENTIONS),
+    escalationCheckIntervalMinutes: parseFloat(settings.BEEP_BOOP_ESCALATION_CHECK_INTERVAL_MINUTES || '15'),
+    escalationScanRoots: parseDirectories(settings.BEEP_BOOP_ESCALATION_SCAN_ROOTS),
+    forceExpireEnabled: settings.BEEP_BOOP_FORCE_EXPIRE_ENABLED === 'true',
+    leaseDurationHours: parseFloat(settings.BEEP_BOOP_LEASE_DURATION_HOURS || '24'),
+    nestedClaimPolicy: (settings.BEEP_BOOP_NESTED_CLAIM_POLICY || 'block') as BeepBoopConfig['nestedClaimPolicy'],
+    queueGraceMinutes: parseFloat(settings.BEEP_BOOP_QUEUE_GRACE_MINUTES || '10'),
+    
+    // Coordination file layout
+    beepFileName: (settings.BEEP_BOOP_BEEP_FILE_NAME || 'beep').trim(),
+    boopFileName: (settings.BEEP_BOOP_BOOP_FILE_NAME || 'boop').trim(),
+    useMetadataDir: settings.BEEP_BOOP_USE_METADATA_DIR === 'true',
     
     // Environment-specific
-    devMode: process.env.BEEP_BOOP_DEV_MODE === 'true' || process.env.NODE_ENV === 'development',
-    ciMode: process.env.BEEP_BOOP_CI_MODE === 'true' || process.env.CI === 'true',
-    watchMode: process.env.BEEP_BOOP_WATCH_MODE === 'true',
-    forceCleanupOnStart: process.env.BEEP_BOOP_FORCE_CLEANUP_ON_START === 'true',
-    failOnStale: process.env.BEEP_BOOP_FAIL_ON_STALE === 'true',
-    maxConcurrentOperations: parseInt(process.env.BEEP_BOOP_MAX_CONCURRENT_OPERATIONS || '5', 10),
+    devMode: settings.BEEP_BOOP_DEV_MODE === 'true' || process.env.NODE_ENV === 'development',
+    ciMode: settings.BEEP_BOOP_CI_MODE === 'true' || process.env.CI === 'true',
+    watchMode: settings.BEEP_BOOP_WATCH_MODE === 'true',
+    forceCleanupOnStart: settings.BEEP_BOOP_FORCE_CLEANUP_ON_START === 'true',
+    failOnStale: settings.BEEP_BOOP_FAIL_ON_STALE === 'true',
+    maxConcurrentOperations: parseInt(settings.BEEP_BOOP_MAX_CONCURRENT_OPERATIONS || '5', 10),
+    operationQueueTimeoutMs: parseInt(settings.BEEP_BOOP_OPERATION_QUEUE_TIMEOUT_MS || '30000', 10),
     
     // Git integration
-    manageGitIgnore: process.env.BEEP_BOOP_MANAGE_GITIGNORE !== 'false', // Default to true
+    manageGitIgnore: settings.BEEP_BOOP_MANAGE_GITIGNORE !== 'false', // Default to true
 
     // Ingress listener feature
-    ingressEnabled: process.env.BEEP_BOOP_INGRESS_ENABLED === 'true',
-    ingressProvider: (process.env.BEEP_BOOP_INGRESS_PROVIDER || 'none') as BeepBoopConfig['ingressProvider'],
-    ingressHttpEnabled: process.env.BEEP_BOOP_INGRESS_HTTP_ENABLED !== 'false',
-    ingressHttpPort: parseInt(process.env.BEEP_BOOP_INGRESS_HTTP_PORT || '7077', 10),
-    ingressHttpAuthToken: process.env.BEEP_BOOP_INGRESS_HTTP_AUTH_TOKEN,
-    ingressInboxDir: process.env.BEEP_BOOP_INGRESS_INBOX_DIR || path.join(os.homedir(), '.beep-boop-inbox'),
+    ingressEnabled: settings.BEEP_BOOP_INGRESS_ENABLED === 'true',
+    ingressProvider: (settings.BEEP_BOOP_INGRESS_PROVIDER || 'none') as BeepBoopConfig['ingressProvider'],
+    ingressHttpEnabled: settings.BEEP_BOOP_INGRESS_HTTP_ENABLED !== 'false',
+    ingressHttpPort: parseInt(settings.BEEP_BOOP_INGRESS_HTTP_PORT || '7077', 10),
+    ingressHttpAuthToken: settings.BEEP_BOOP_INGRESS_HTTP_AUTH_TOKEN,
+    inboxFilePermissions: settings.BEEP_BOOP_INBOX_FILE_PERMISSIONS || '0600',
+    inboxDirPermissions: settings.BEEP_BOOP_INBOX_DIR_PERMISSIONS || '0700',
+    ingressInboxDir: settings.BEEP_BOOP_INGRESS_INBOX_DIR || path.join(os.homedir(), '.beep-boop-inbox'),
 
     // Central HTTP listener delegation (synchronous request/response)
-    listenerEnabled: process.env.BEEP_BOOP_LISTENER_ENABLED === 'true',
-    listenerBaseUrl: process.env.BEEP_BOOP_LISTENER_BASE_URL || `http://localhost:${process.env.BEEP_BOOP_INGRESS_HTTP_PORT || '7077'}`,
-    listenerAuthToken: process.env.BEEP_BOOP_LISTENER_AUTH_TOKEN,
-    listenerTimeoutBaseMs: parseInt(process.env.BEEP_BOOP_LISTENER_TIMEOUT_BASE_MS || '10000', 10),
-    listenerTimeoutPerCharMs: parseInt(process.env.BEEP_BOOP_LISTENER_TIMEOUT_PER_CHAR_MS || '5', 10),
-    listenerTimeoutMaxMs: parseInt(process.env.BEEP_BOOP_LISTENER_TIMEOUT_MAX_MS || '60000', 10),
-    maxConcurrentListenerRequests: parseInt(process.env.BEEP_BOOP_MAX_CONCURRENT_LISTENER_REQUESTS || '25', 10),
+    listenerEnabled: settings.BEEP_BOOP_LISTENER_ENABLED === 'true',
+    listenerBaseUrl: settings.BEEP_BOOP_LISTENER_BASE_URL || `http://localhost:${settings.BEEP_BOOP_INGRESS_HTTP_PORT || '7077'}`,
+    listenerAuthToken: settings.BEEP_BOOP_LISTENER_AUTH_TOKEN,
+    listenerTimeoutBaseMs: parseInt(settings.BEEP_BOOP_LISTENER_TIMEOUT_BASE_MS || '10000', 10),
+    listenerTimeoutPerCharMs: parseInt(settings.BEEP_BOOP_LISTENER_TIMEOUT_PER_CHAR_MS || '5', 10),
+    listenerTimeoutMaxMs: parseInt(settings.BEEP_BOOP_LISTENER_TIMEOUT_MAX_MS || '60000', 10),
+    maxConcurrentListenerRequests: parseInt(settings.BEEP_BOOP_MAX_CONCURRENT_LISTENER_REQUESTS || '25', 10),
 
     // Slack
-    slackAppToken: process.env.BEEP_BOOP_SLACK_APP_TOKEN,
-    slackBotToken: process.env.BEEP_BOOP_SLACK_BOT_TOKEN,
+    slackAppToken: settings.BEEP_BOOP_SLACK_APP_TOKEN,
+    slackBotToken: settings.BEEP_BOOP_SLACK_BOT_TOKEN,
 
     // Discord
-    discordBotToken: process.env.BEEP_BOOP_DISCORD_BOT_TOKEN,
-    discordDefaultChannelId: process.env.BEEP_BOOP_DISCORD_DEFAULT_CHANNEL_ID,
+    discordBotToken: settings.BEEP_BOOP_DISCORD_BOT_TOKEN,
+    discordDefaultChannelId: settings.BEEP_BOOP_DISCORD_DEFAULT_CHANNEL_ID,
     
     // Conversation flow settings
-    conversationTimeoutMinutes: parseInt(process.env.BEEP_BOOP_CONVERSATION_TIMEOUT_MINUTES || '5', 10),
-    conversationPollIntervalMs: parseInt(process.env.BEEP_BOOP_CONVERSATION_POLL_INTERVAL_MS || '2000', 10),
+    conversationTimeoutMinutes: parseInt(settings.BEEP_BOOP_CONVERSATION_TIMEOUT_MINUTES || '5', 10),
+    conversationPollIntervalMs: parseInt(settings.BEEP_BOOP_CONVERSATION_POLL_INTERVAL_MS || '2000', 10),
     
     // Discord API reliability settings
-    discordApiRetryAttempts: parseInt(process.env.BEEP_BOOP_DISCORD_API_RETRY_ATTEMPTS || '3', 10),
-    discordApiRetryBaseDelayMs: parseInt(process.env.BEEP_BOOP_DISCORD_API_RETRY_BASE_DELAY_MS || '1000', 10),
-    discordApiTimeoutMs: parseInt(process.env.BEEP_BOOP_DISCORD_API_TIMEOUT_MS || '30000', 10),
+    discordApiRetryAttempts: parseInt(settings.BEEP_BOOP_DISCORD_API_RETRY_ATTEMPTS || '3', 10),
+    discordApiRetryBaseDelayMs: parseInt(settings.BEEP_BOOP_DISCORD_API_RETRY_BASE_DELAY_MS || '1000', 10),
+    discordApiTimeoutMs: parseInt(settings.BEEP_BOOP_DISCORD_API_TIMEOUT_MS || '30000', 10),
     
     // Inbox cleanup settings
-    inboxCleanupEnabled: process.env.BEEP_BOOP_INBOX_CLEANUP_ENABLED !== 'false', // Default to true
-    inboxProcessedRetentionDays: parseInt(process.env.BEEP_BOOP_INBOX_PROCESSED_RETENTION_DAYS || '7', 10),
-    inboxUnprocessedRetentionDays: parseInt(process.env.BEEP_BOOP_INBOX_UNPROCESSED_RETENTION_DAYS || '30', 10),
-    inboxMaxFilesPerDir: parseInt(process.env.BEEP_BOOP_INBOX_MAX_FILES_PER_DIR || '0', 10), // 0 = no limit
-    inboxCleanupOnStartup: process.env.BEEP_BOOP_INBOX_CLEANUP_ON_STARTUP !== 'false', // Default to true
-    inboxCleanupIntervalHours: parseInt(process.env.BEEP_BOOP_INBOX_CLEANUP_INTERVAL_HOURS || '24', 10) // Run daily
+    inboxCleanupEnabled: settings.BEEP_BOOP_INBOX_CLEANUP_ENABLED !== 'false', // Default to true
+    inboxProcessedRetentionDays: parseInt(settings.BEEP_BOOP_INBOX_PROCESSED_RETENTION_DAYS || '7', 10),
+    inboxUnprocessedRetentionDays: parseInt(settings.BEEP_BOOP_INBOX_UNPROCESSED_RETENTION_DAYS || '30', 10),
+    inboxMaxFilesPerDir: parseInt(settings.BEEP_BOOP_INBOX_MAX_FILES_PER_DIR || '0', 10), // 0 = no limit
+    inboxCleanupOnStartup: settings.BEEP_BOOP_INBOX_CLEANUP_ON_STARTUP !== 'false', // Default to true
+    inboxCleanupIntervalHours: parseInt(settings.BEEP_BOOP_INBOX_CLEANUP_INTERVAL_HOURS || '24', 10) // Run daily
   };
   
+  const sources = {} as Record<keyof BeepBoopConfig, ConfigSource>;
+  for (const [key, variable] of Object.entries(CONFIG_ENV_VARS) as Array<[keyof BeepBoopConfig, string]>) {
+    sources[key] = variable in env ? 'env' : configFile && variable in configFile.values ? 'file' : 'default';
+  }
+  if (process.env.NODE_ENV === 'development') sources.devMode = 'env';
+  if (process.env.CI === 'true') sources.ciMode = 'env';
+
+  // The preset only fills values no other layer set. Without NODE_ENV there is
+  // no preset, so installs that never set it keep the built-in defaults rather
+  // than getting the development preset getEnvironmentDefaults falls back to.
+  let preset: string | undefined;
+  if (process.env.NODE_ENV) {
+    const presetValues = getEnvironmentDefaults();
+    preset = Object.keys(presetValues).length > 0 ? process.env.NODE_ENV : undefined;
+    for (const [key, value] of Object.entries(presetValues) as Array<[keyof BeepBoopConfig, unknown]>) {
+      if (sources[key] === 'default') {
+        (config as unknown as Record<string, unknown>)[key] = value;
+        sources[key] = 'preset';
+      }
+    }
+  }
+
   // Handle backward compatibility for legacy webhook config
   handleLegacyWebhookConfig(config);
 
@@ -218,9 +433,30 @@ export function loadConfig(): BeepBoopConfig {
   } catch {}
   
   // Validate configuration
-  validateConfig(config);
+  errors.push(...validateConfig(config, settings));
+  const warnings = [
+    ...(configFile ? unknownSettingWarnings(Object.keys(configFile.values), configFile.path) : []),
+    ...unknownSettingWarnings(Object.keys(env), 'the environment')
+  ];
   
-  return config;
+  return {
+    loaded: { config, sources, configFile: configFile?.path, preset },
+    report: { valid: errors.length === 0, errors, warnings, configFile: configFile?.path }
+  };
+}
+
+/**
+ * BEEP_BOOP_* environment variables that are set. Empty values count as
+ * unset, so they do not hide a value from the config file.
+ */
+function environmentSettings(): Record<string, string> {
+  const settings: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (key.startsWith('BEEP_BOOP_') && value) {
+      settings[key] = value;
+    }
+  }
+  return settings;
 }
 
 /**
@@ -239,61 +475,251 @@ function parseList(envVar?: string): string[] {
   return envVar.split(',').map(item => item.trim()).filter(item => item.length > 0);
 }
 
+const OCTAL_MODE = /^0[0-7]{3}$/;
+
+const numberSetting = () => z.number({ invalid_type_error: 'must be a number' });
+const integerSetting = () => numberSetting().int('must be a whole number');
+const enumSetting = <U extends string, T extends Readonly<[U, ...U[]]>>(values: T) =>
+  z.enum(values, { errorMap: () => ({ message: `must be one of: ${values.join(', ')}` }) });
+const modeSetting = (example: string) => z.string().regex(OCTAL_MODE, `must be in octal format (e.g., ${example})`);
+const fileNameSetting = () => z.string().refine(
+  name => name.length > 0 && name !== '.' && name !== '..' && !/[\\/]/.test(name),
+  'must be a plain file name without path separators'
+);
+
+/** Type and range of every setting */
+const configObjectSchema = z.object({
+  // Core settings
+  defaultMaxAgeHours: numberSetting().min(0, 'must be >= 0'),
+  autoCleanupEnabled: z.boolean(),
+  maxAgentIdLength: integerSetting().min(1, 'must be between 1 and 500').max(500, 'must be between 1 and 500'),
+  filePermissions: modeSetting('0644'),
+
+  // Logging and debugging
+  logLevel: enumSetting(['error', 'warn', 'info', 'debug']),
+  timezone: z.string(),
+
+  // Security and access control
+  allowedDirectories: z.array(z.string()),
+  blockedDirectories: z.array(z.string()),
+  requireTeamPrefix: z.boolean(),
+  teamPrefixes: z.array(z.string()),
+
+  // Backup and recovery
+  backupEnabled: z.boolean(),
+  backupDir: z.string(),
+
+  // Monitoring and metrics
+  enableMetrics: z.boolean(),
+  enableNotifications: z.boolean(),
+  notificationWebhook: z.string().optional(),
+
+  // Webhook notifications
+  notificationService: enumSetting(['discord', 'slack', 'both']),
+  discordWebhookUrl: z.string().optional(),
+  slackWebhookUrl: z.string().optional(),
+  notificationRetryAttempts: integerSetting().min(0, 'must be >= 0'),
+  notificationTimeoutMs: integerSetting().min(0, 'must be >= 0'),
+
+  // Audit and compliance
+  auditLogEnabled: z.boolean(),
+  auditLogPath: z.string(),
+
+  // Work management
+  maxWorkDurationHours: numberSetting(),
+  warnThresholdHours: numberSetting().gt(0, 'must be > 0'),
+  escalationEnabled: z.boolean(),
+  escalationAfterHours: numberSetting(),
+  escalationMentions: z.array(z.string()),
+  escalationCheckIntervalMinutes: numberSetting().min(0, 'must be >= 0'),
+  escalationScanRoots: z.array(z.string()),
+  forceExpireEnabled: z.boolean(),
+  leaseDurationHours: numberSetting().gt(0, 'must be > 0'),
+  nestedClaimPolicy: enumSetting(['block', 'warn', 'off']),
+  queueGraceMinutes: numberSetting().gt(0, 'must be > 0'),
+
+  // Coordination file layout
+  beepFileName: fileNameSetting(),
+  boopFileName: fileNameSetting(),
+  useMetadataDir: z.boolean(),
+
+  // Environment-specific
+  devMode: z.boolean(),
+  ciMode: z.boolean(),
+  watchMode: z.boolean(),
+  forceCleanupOnStart: z.boolean(),
+  failOnStale: z.boolean(),
+  maxConcurrentOperations: integerSetting().min(1, 'must be between 1 and 100').max(100, 'must be between 1 and 100'),
+  operationQueueTimeoutMs: integerSetting().min(1, 'must be >= 1'),
+
+  // Git integration
+  manageGitIgnore: z.boolean(),
+
+  // Ingress listener feature
+  ingressEnabled: z.boolean(),
+  ingressProvider: enumSetting(['slack', 'discord', 'none']),
+  ingressHttpEnabled: z.boolean(),
+  ingressHttpPort: integerSetting().min(1, 'must be a port between 1 and 65535').max(65535, 'must be a port between 1 and 65535'),
+  ingressHttpAuthToken: z.string().optional(),
+  ingressInboxDir: z.string(),
+  inboxFilePermissions: modeSetting('0600'),
+  inboxDirPermissions: modeSetting('0700'),
+
+  // Central HTTP listener delegation
+  listenerEnabled: z.boolean(),
+  listenerBaseUrl: z.string().optional(),
+  listenerAuthToken: z.string().optional(),
+  listenerTimeoutBaseMs: integerSetting(),
+  listenerTimeoutPerCharMs: integerSetting().min(0, 'must be >= 0'),
+  listenerTimeoutMaxMs: integerSetting(),
+  maxConcurrentListenerRequests: integerSetting(),
+
+  // Slack
+  slackAppToken: z.string().optional(),
+  slackBotToken: z.string().optional(),
+
+  // Discord
+  discordBotToken: z.string().optional(),
+  discordDefaultChannelId: z.string().optional(),
+
+  // Conversation flow settings
+  conversationTimeoutMinutes: integerSetting().min(0, 'must be >= 0'),
+  conversationPollIntervalMs: integerSetting().min(0, 'must be >= 0'),
+
+  // Discord API reliability settings
+  discordApiRetryAttempts: integerSetting().min(0, 'must be >= 0'),
+  discordApiRetryBaseDelayMs: integerSetting().min(0, 'must be >= 0'),
+  discordApiTimeoutMs: integerSetting().min(0, 'must be >= 0'),
+
+  // Inbox cleanup settings
+  inboxCleanupEnabled: z.boolean(),
+  inboxProcessedRetentionDays: integerSetting().min(0, 'must be >= 0'),
+  inboxUnprocessedRetentionDays: integerSetting().min(0, 'must be >= 0'),
+  inboxMaxFilesPerDir: integerSetting().min(0, 'must be >= 0'),
+  inboxCleanupOnStartup: z.boolean(),
+  inboxCleanupIntervalHours: integerSetting().min(0, 'must be >= 0')
+});
+
 /**
- * Validate configuration values
+ * Schema of BeepBoopConfig: each setting's type and range, plus the rules
+ * that relate settings to each other. Issue paths name the setting, so
+ * messages can be reported against its environment variable.
  */
-function validateConfig(config: BeepBoopConfig): void {
-  // Validate age thresholds
-  if (config.defaultMaxAgeHours < 0) {
-    throw new Error('BEEP_BOOP_DEFAULT_MAX_AGE_HOURS must be >= 0');
-  }
-  
+export const BeepBoopConfigSchema: z.ZodType<BeepBoopConfig> = configObjectSchema.superRefine((config, ctx) => {
+  const issue = (setting: keyof BeepBoopConfig | undefined, message: string) => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: setting ? [setting] : [], message });
+  };
+
   if (config.maxWorkDurationHours < config.defaultMaxAgeHours) {
-    throw new Error('BEEP_BOOP_MAX_WORK_DURATION_HOURS must be >= BEEP_BOOP_DEFAULT_MAX_AGE_HOURS');
+    issue('maxWorkDurationHours', 'must be >= BEEP_BOOP_DEFAULT_MAX_AGE_HOURS');
   }
-  
-  // Validate agent ID length
-  if (config.maxAgentIdLength < 1 || config.maxAgentIdLength > 500) {
-    throw new Error('BEEP_BOOP_MAX_AGENT_ID_LENGTH must be between 1 and 500');
+  if (config.escalationEnabled && !(config.escalationAfterHours > config.warnThresholdHours)) {
+    issue('escalationAfterHours', 'must be > BEEP_BOOP_WARN_THRESHOLD_HOURS');
   }
-  
-  // Validate log level
-  const validLogLevels = ['error', 'warn', 'info', 'debug'];
-  if (!validLogLevels.includes(config.logLevel)) {
-    throw new Error(`BEEP_BOOP_LOG_LEVEL must be one of: ${validLogLevels.join(', ')}`);
-  }
-  
-  // Validate file permissions
-  if (!/^0[0-7]{3}$/.test(config.filePermissions)) {
-    throw new Error('BEEP_BOOP_FILE_PERMISSIONS must be in octal format (e.g., 0644)');
-  }
-  
-  // Validate concurrent operations
-  if (config.maxConcurrentOperations < 1 || config.maxConcurrentOperations > 100) {
-    throw new Error('BEEP_BOOP_MAX_CONCURRENT_OPERATIONS must be between 1 and 100');
-  }
-
-  // Validate ingress provider selection
-  const validProviders = ['slack', 'discord', 'none'];
-  if (!validProviders.includes(config.ingressProvider)) {
-    throw new Error('BEEP_BOOP_INGRESS_PROVIDER must be one of slack, discord, none');
+  if (config.beepFileName === config.boopFileName) {
+    issue('boopFileName', 'must differ from BEEP_BOOP_BEEP_FILE_NAME');
   }
   if (config.ingressEnabled && config.ingressProvider === 'none') {
-    throw new Error('Ingress enabled but no provider selected. Set BEEP_BOOP_INGRESS_PROVIDER=slack or discord');
+    issue(undefined, 'Ingress enabled but no provider selected. Set BEEP_BOOP_INGRESS_PROVIDER=slack or discord');
   }
 
-  // Validate listener delegation
+  // Listener delegation
   if (config.listenerEnabled) {
     if (!config.listenerBaseUrl || !/^https?:\/\//.test(config.listenerBaseUrl)) {
-      throw new Error('BEEP_BOOP_LISTENER_BASE_URL must be set to a valid http(s) URL when BEEP_BOOP_LISTENER_ENABLED=true');
+      issue('listenerBaseUrl', 'must be set to a valid http(s) URL when BEEP_BOOP_LISTENER_ENABLED=true');
     }
     if (config.maxConcurrentListenerRequests < 1 || config.maxConcurrentListenerRequests > 500) {
-      throw new Error('BEEP_BOOP_MAX_CONCURRENT_LISTENER_REQUESTS must be between 1 and 500');
+      issue('maxConcurrentListenerRequests', 'must be between 1 and 500');
     }
     if (config.listenerTimeoutBaseMs < 1000 || config.listenerTimeoutMaxMs < config.listenerTimeoutBaseMs) {
-      throw new Error('Listener timeout values are invalid. Ensure base >= 1000 and max >= base.');
+      issue(undefined, 'Listener timeout values are invalid. Ensure base >= 1000 and max >= base.');
+    }
+  }
+});
+
+/**
+ * Check the raw text of boolean and numeric settings, which would otherwise
+ * be read as false or truncated (BEEP_BOOP_BACKUP_ENABLED=yes, a port of 80x)
+ */
+function validateSettingText(settings: Record<string, string | undefined>): Map<string, string> {
+  const problems = new Map<string, string>();
+  for (const [setting, variable] of Object.entries(CONFIG_ENV_VARS) as Array<[keyof BeepBoopConfig, string]>) {
+    const raw = settings[variable];
+    if (raw === undefined || raw === '') {
+      continue;
+    }
+    const schema = configObjectSchema.shape[setting];
+    if (schema instanceof z.ZodBoolean && raw !== 'true' && raw !== 'false') {
+      problems.set(variable, `${variable} must be true or false (got "${raw}")`);
+    } else if (schema instanceof z.ZodNumber && !Number.isFinite(Number(raw.trim()))) {
+      problems.set(variable, `${variable} must be a number (got "${raw}")`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Validate configuration values, returning every problem found
+ */
+function validateConfig(config: BeepBoopConfig, settings: Record<string, string | undefined>): string[] {
+  const problems = validateSettingText(settings);
+  const result = BeepBoopConfigSchema.safeParse(config);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      const variable = CONFIG_ENV_VARS[issue.path[0] as keyof BeepBoopConfig];
+      // A setting whose text was rejected would only repeat the problem here
+      if (variable && problems.has(variable)) {
+        continue;
+      }
+      problems.set(variable ?? issue.message, variable ? `${variable} ${issue.message}` : issue.message);
+    }
+  }
+  return [...problems.values()];
+}
+
+/**
+ * Edit distance between two strings, for suggesting the intended name of a misspelt variable
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
     }
+    previous = current;
   }
+  return previous[b.length];
+}
+
+/**
+ * Warn about BEEP_BOOP_* settings this server does not know, which are usually typos
+ */
+function unknownSettingWarnings(names: string[], origin: string): string[] {
+  const known = [...Object.values(CONFIG_ENV_VARS), ...OTHER_ENV_VARS];
+  return names
+    .filter(name => !known.includes(name))
+    .map(name => {
+      const closest = known
+        .map(candidate => ({ candidate, distance: editDistance(name, candidate) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+      const suggestion = closest && closest.distance <= 3 ? ` (did you mean ${closest.candidate}?)` : '';
+      return `${name} in ${origin} is not a known setting${suggestion}`;
+    });
+}
+
+/**
+ * Convert a validated octal permission string such as 0644 to a file mode
+ */
+export function parseFileMode(permissions: string): number {
+  return parseInt(permissions, 8);
+}
+
+/**
+ * Format the permission bits of a file mode as an octal string such as 0644
+ */
+export function formatFileMode(mode: number): string {
+  return `0${(mode & 0o777).toString(8).padStart(3, '0')}`;
 }
 
 /**
@@ -353,7 +779,17 @@ export function getEnvironmentDefaults(): Partial<BeepBoopConfig> {
         autoCleanupEnabled: true,
         logLevel: 'warn',
         backupEnabled: false,
-        forceCleanupOnStart: true
+        forceCleanupOnStart: true,
+        failOnStale: true
+      };
+
+    case 'ci':
+      return {
+        logLevel: 'warn',
+        backupEnabled: false,
+        ciMode: true,
+        forceCleanupOnStart: true,
+        failOnStale: true
       };
       
     case 'production':
@@ -416,6 +852,36 @@ export function validateWebhookUrls(config: BeepBoopConfig): string[] {
   return errors;
 }
 
+/** Effective configuration as printed by `beep-boop config` */
+export interface EffectiveConfigDescription {
+  /** Which NODE_ENV preset applied, or why none did */
+  preset: string;
+  /** Every setting with its value and the layer it came from */
+  settings: Array<{ setting: keyof BeepBoopConfig; variable: string; value: string; source: ConfigSource }>;
+}
+
+/**
+ * Every setting with its effective value and the layer it came from, with
+ * secrets masked, and a note on the preset layer
+ */
+export function describeEffectiveConfig(loaded: LoadedConfig): EffectiveConfigDescription {
+  const nodeEnv = process.env.NODE_ENV;
+  const preset = loaded.preset
+    ? `${loaded.preset} (NODE_ENV=${loaded.preset})`
+    : nodeEnv
+      ? `none (NODE_ENV=${nodeEnv} has no preset; presets: development, test, ci, production)`
+      : 'none (NODE_ENV is unset, so unset settings keep their built-in defaults instead of the development preset)';
+  const settings = (Object.keys(CONFIG_ENV_VARS) as Array<keyof BeepBoopConfig>).map(setting => {
+    const raw = loaded.config[setting];
+    let value = Array.isArray(raw) ? raw.join(',') : raw === undefined ? '' : String(raw);
+    if (SECRET_SETTINGS.has(setting) && value) {
+      value = '********';
+    }
+    return { setting, variable: CONFIG_ENV_VARS[setting], value, source: loaded.sources[setting] };
+  });
+  return { preset, settings };
+}
+
 /**
  * Print configuration summary (for debugging)
  */
@@ -439,11 +905,14 @@ export function printConfigSummary(config: BeepBoopConfig): void {
       console.error(`   • Retry attempts: ${config.notificationRetryAttempts}`);
       console.error(`   • Timeout: ${config.notificationTimeoutMs}ms`);
     }
+    console.error(`   • Claim age checks: warn at ${config.warnThresholdHours}h, escalation ${config.escalationEnabled ? `at ${config.escalationAfterHours}h` : 'disabled'}, force-expire ${config.forceExpireEnabled ? `at ${config.maxWorkDurationHours}h` : 'disabled'}`);
+    console.error(`   • Coordination files: ${config.useMetadataDir ? '.beep-boop/' : ''}${config.beepFileName}, ${config.useMetadataDir ? '.beep-boop/' : ''}${config.boopFileName} (mode ${config.filePermissions})`);
+    console.error(`   • Concurrent operations: ${config.maxConcurrentOperations} (queue timeout ${config.operationQueueTimeoutMs}ms)`);
     console.error(`   • Git integration: ${config.manageGitIgnore ? 'enabled' : 'disabled'}`);
     console.error(`   • Ingress: ${config.ingressEnabled ? 'enabled' : 'disabled'} (${config.ingressProvider})`);
     if (config.ingressEnabled) {
       console.error(`   • Ingress HTTP: ${config.ingressHttpEnabled ? `enabled on port ${config.ingressHttpPort}` : 'disabled'}`);
-      console.error(`   • Inbox dir: ${config.ingressInboxDir}`);
+      console.error(`   • Inbox dir: ${config.ingressInboxDir} (files ${config.inboxFilePermissions}, directories ${config.inboxDirPermissions})`);
       console.error(`   • Slack Socket Mode: ${config.slackAppToken && config.slackBotToken ? 'configured' : 'not configured'}`);
       console.error(`   • Discord Bot: ${config.discordBotToken ? 'configured' : 'not configured'}`);
       if (config.discordBotToken && config.discordDefaultChannelId) {
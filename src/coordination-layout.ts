@@ -0,0 +1,156 @@
+/**
+ * Where coordination state lives inside a directory
+ *
+ * By default the beep and boop files sit at the top of each directory next to
+ * a few dot-files. With BEEP_BOOP_USE_METADATA_DIR everything moves under a
+ * single .beep-boop/ subdirectory, and the beep/boop file names can be changed.
+ * The default layout is still read so existing claims survive a layout change.
+ */
+
+import { join } from 'path';
+import { promises as fs } from 'fs';
+import { BeepBoopConfig } from './config.js';
+
+/** Default file names for coordination */
+export const BEEP_FILE = 'beep';
+export const BOOP_FILE = 'boop';
+
+/** Per-directory counter backing fencing tokens, kept across claims */
+export const FENCE_FILE = '.beep-boop-fence';
+
+/** Subdirectory holding one file per shared (read) claim holder */
+export const SHARED_BOOP_DIR = '.boop-shared';
+
+/** Per-directory FIFO waitlist of agents waiting to claim */
+export const QUEUE_FILE = '.boop-queue';
+
+/** Subdirectory holding copies of files discarded by repair_state */
+export const REPAIR_ARCHIVE_DIR = '.beep-boop-repaired';
+
+/** Append-only event log kept next to the coordination files */
+export const HISTORY_FILE = '.beep-boop-history.jsonl';
+
+/** Short-lived lock file held while a process rewrites a directory's claim or queue */
+export const LOCK_FILE = '.beep-boop-lock';
+
+/** Subdirectory holding all coordination state when the metadata directory is enabled */
+export const METADATA_DIR = '.beep-boop';
+
+/** Settings that decide the layout */
+export type LayoutConfig = Pick<BeepBoopConfig, 'beepFileName' | 'boopFileName' | 'useMetadataDir'>;
+
+/** Resolved locations of a directory's coordination state */
+export interface CoordinationPaths {
+  beep: string;
+  boop: string;
+  fence: string;
+  sharedDir: string;
+  queue: string;
+  history: string;
+  lock: string;
+  repairDir: string;
+  /** Set when state lives in a subdirectory that may need creating */
+  metadataDir?: string;
+}
+
+/** Entries of a directory's coordination state with a fixed location */
+export type CoordinationPathKey = Exclude<keyof CoordinationPaths, 'metadataDir'>;
+
+/** Layout used before file names and the metadata directory were configurable */
+const DEFAULT_LAYOUT: LayoutConfig = {
+  beepFileName: BEEP_FILE,
+  boopFileName: BOOP_FILE,
+  useMetadataDir: false
+};
+
+/**
+ * Resolve coordination paths for a directory under the given layout
+ */
+export function resolveCoordinationPaths(directory: string, config: LayoutConfig): CoordinationPaths {
+  const base = config.useMetadataDir ? join(directory, METADATA_DIR) : directory;
+  return {
+    beep: join(base, config.beepFileName),
+    boop: join(base, config.boopFileName),
+    fence: join(base, FENCE_FILE),
+    sharedDir: join(base, SHARED_BOOP_DIR),
+    queue: join(base, QUEUE_FILE),
+    history: join(base, HISTORY_FILE),
+    lock: join(base, LOCK_FILE),
+    repairDir: join(base, REPAIR_ARCHIVE_DIR),
+    metadataDir: config.useMetadataDir ? base : undefined
+  };
+}
+
+/**
+ * Locations to look for an entry: the configured layout first, then the
+ * default layout if it differs, so state written before a layout change is
+ * still found
+ */
+export function candidatePaths(directory: string, key: CoordinationPathKey, config: LayoutConfig): string[] {
+  const current = resolveCoordinationPaths(directory, config)[key];
+  const legacy = resolveCoordinationPaths(directory, DEFAULT_LAYOUT)[key];
+  return legacy !== current ? [current, legacy] : [current];
+}
+
+/**
+ * Find the beep or boop file of a directory, checking the configured layout
+ * before the default one. Returns null if neither exists.
+ */
+export async function locateCoordinationFile(
+  directory: string,
+  kind: 'beep' | 'boop',
+  config: LayoutConfig
+): Promise<string | null> {
+  for (const candidate of candidatePaths(directory, kind, config)) {
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // Try the next layout
+    }
+  }
+  return null;
+}
+
+/**
+ * Create the metadata directory before writing into it
+ */
+export async function ensureMetadataDir(paths: CoordinationPaths): Promise<void> {
+  if (paths.metadataDir) {
+    await fs.mkdir(paths.metadataDir, { recursive: true });
+  }
+}
+
+/**
+ * Directory entries whose presence means a directory may hold coordination
+ * state, in either the configured or the default layout
+ */
+export function coordinationEntryNames(config: LayoutConfig): Set<string> {
+  return new Set([
+    config.beepFileName,
+    config.boopFileName,
+    BEEP_FILE,
+    BOOP_FILE,
+    SHARED_BOOP_DIR,
+    METADATA_DIR
+  ]);
+}
+
+/**
+ * Entries that keep coordination state out of version control
+ */
+export function gitIgnoreEntries(config: LayoutConfig): string[] {
+  if (config.useMetadataDir) {
+    return [`${METADATA_DIR}/`];
+  }
+  return [
+    config.beepFileName,
+    config.boopFileName,
+    FENCE_FILE,
+    `${SHARED_BOOP_DIR}/`,
+    QUEUE_FILE,
+    `${REPAIR_ARCHIVE_DIR}/`,
+    HISTORY_FILE,
+    LOCK_FILE
+  ];
+}
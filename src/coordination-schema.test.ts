@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig } from './config.js';
+import {
+  COORDINATION_SCHEMA_VERSION,
+  CorruptFileError,
+  decodeBeepFile,
+  decodeBoopFile,
+  serializeBoopFile
+} from './coordination-schema.js';
+import { getWorkStatus, updateBoopFile } from './file-operations.js';
+import { WorkState } from './types.js';
+
+const FILE_TIME = new Date('2024-08-20T10:00:00.000Z');
+
+test('plain-text boop files are read as version 0', () => {
+  const decoded = decodeBoopFile('agent-a\nRefactoring the parser\n', FILE_TIME);
+
+  assert.equal(decoded.migratedFrom, 0);
+  assert.deepEqual(decoded.content, {
+    schemaVersion: COORDINATION_SCHEMA_VERSION,
+    startedAt: FILE_TIME,
+    agentId: 'agent-a',
+    workDescription: 'Refactoring the parser',
+    mode: 'exclusive'
+  });
+});
+
+test('plain-text and empty beep files are read as version 0', () => {
+  assert.deepEqual(decodeBeepFile('All done', FILE_TIME), {
+    content: { schemaVersion: COORDINATION_SCHEMA_VERSION, completedAt: FILE_TIME, message: 'All done' },
+    migratedFrom: 0
+  });
+  assert.equal(decodeBeepFile('', FILE_TIME).content.message, 'Work completed');
+});
+
+test('JSON files without a schemaVersion are read as version 1', () => {
+  const decoded = decodeBoopFile(JSON.stringify({
+    startedAt: FILE_TIME.toISOString(),
+    agentId: 'agent-a',
+    fencingToken: 3
+  }));
+
+  assert.equal(decoded.migratedFrom, 1);
+  assert.equal(decoded.content.schemaVersion, COORDINATION_SCHEMA_VERSION);
+  assert.equal(decoded.content.fencingToken, 3);
+  assert.equal(decoded.content.mode, 'exclusive');
+});
+
+test('current files round-trip without migration', () => {
+  const content = {
+    schemaVersion: COORDINATION_SCHEMA_VERSION,
+    startedAt: FILE_TIME,
+    agentId: 'agent-a',
+    workDescription: 'work',
+    leaseExpiresAt: new Date(FILE_TIME.getTime() + 60 * 60 * 1000),
+    renewalCount: 2,
+    fencingToken: 7,
+    mode: 'exclusive' as const,
+    transfers: [{ fromAgentId: 'agent-z', toAgentId: 'agent-a', transferredAt: FILE_TIME, reason: 'handoff' }]
+  };
+
+  const decoded = decodeBoopFile(serializeBoopFile(content));
+
+  assert.equal(decoded.migratedFrom, undefined);
+  assert.deepEqual(decoded.content, content);
+});
+
+test('unreadable files are reported as corrupt', () => {
+  const corrupt = [
+    '{"agentId": ',
+    '[]',
+    JSON.stringify({ schemaVersion: 99, startedAt: FILE_TIME.toISOString(), agentId: 'agent-a' }),
+    JSON.stringify({ schemaVersion: COORDINATION_SCHEMA_VERSION, startedAt: 'yesterday', agentId: 'agent-a' }),
+    'not an agent id!\nwork',
+    ''
+  ];
+  for (const raw of corrupt) {
+    assert.throws(() => decodeBoopFile(raw), CorruptFileError, raw);
+  }
+});
+
+test('legacy files are left alone on read and rewritten by the holder', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'beep-boop-test-'));
+  try {
+    // The temp directory lives under a directory blocked by default
+    const config = { ...loadConfig(), blockedDirectories: [], allowedDirectories: [] };
+    const boopPath = join(directory, config.boopFileName);
+    await writeFile(boopPath, 'agent-a\nLegacy work\n');
+
+    const status = await getWorkStatus(directory, config);
+    assert.equal(status.status, WorkState.WORK_IN_PROGRESS);
+    assert.equal(status.agentId, 'agent-a');
+    assert.equal(await readFile(boopPath, 'utf8'), 'agent-a\nLegacy work\n');
+
+    await updateBoopFile(directory, 'agent-a', 'Current work', config);
+    const rewritten = decodeBoopFile(await readFile(boopPath, 'utf8'));
+    assert.equal(rewritten.migratedFrom, undefined);
+    assert.equal(rewritten.content.workDescription, 'Current work');
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
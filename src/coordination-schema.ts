@@ -0,0 +1,210 @@
+/**
+ * Versioned on-disk format for beep and boop files
+ *
+ * Version history:
+ *   0 - plain text (beep: message, boop: agent ID on the first line, description below)
+ *   1 - JSON without a schemaVersion field
+ *   2 - JSON with schemaVersion, validated by the schemas below
+ */
+
+import { z } from 'zod';
+import { BeepFileContent, BoopFileContent } from './types.js';
+
+/** Schema version written by this release */
+export const COORDINATION_SCHEMA_VERSION = 2;
+
+const isoTimestamp = z.string().refine(value => !Number.isNaN(Date.parse(value)), {
+  message: 'must be an ISO 8601 timestamp'
+});
+
+/** Fields of a beep file, shared by v1 and v2 */
+const BeepFields = z.object({
+  completedAt: isoTimestamp,
+  message: z.string().optional(),
+  completedBy: z.string().optional(),
+  fencingToken: z.number().int().nonnegative().optional()
+});
+
+/** Fields of a boop file, shared by v1 and v2 */
+const BoopFields = z.object({
+  startedAt: isoTimestamp,
+  agentId: z.string().min(1),
+  workDescription: z.string().optional(),
+  leaseExpiresAt: isoTimestamp.optional(),
+  renewalCount: z.number().int().nonnegative().optional(),
+  fencingToken: z.number().int().nonnegative().optional(),
+  mode: z.enum(['shared', 'exclusive']).optional(),
+  transfers: z.array(z.object({
+    fromAgentId: z.string(),
+    toAgentId: z.string(),
+    transferredAt: isoTimestamp,
+    reason: z.string().optional()
+  })).optional()
+});
+
+/** Current beep file schema */
+export const BeepFileSchema = BeepFields.extend({
+  schemaVersion: z.literal(COORDINATION_SCHEMA_VERSION)
+});
+
+/** Current boop file schema */
+export const BoopFileSchema = BoopFields.extend({
+  schemaVersion: z.literal(COORDINATION_SCHEMA_VERSION)
+});
+
+/** Result of decoding a coordination file */
+export interface DecodedFile<T> {
+  /** Parsed content */
+  content: T;
+  /** Version the file was stored in, when older than the current version */
+  migratedFrom?: number;
+}
+
+/** Error raised for a coordination file that cannot be decoded */
+export class CorruptFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CorruptFileError';
+  }
+}
+
+/** Agent IDs in legacy plain-text boop files */
+const LEGACY_AGENT_ID = /^[a-zA-Z0-9._-]+$/;
+
+/**
+ * Parse JSON coordination content, or return undefined for plain text.
+ * Content that looks like JSON but does not parse is corrupt.
+ */
+function parseJsonObject(raw: string): Record<string, unknown> | undefined {
+  const trimmed = raw.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return undefined;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch (error) {
+    throw new CorruptFileError(`invalid JSON (${error instanceof Error ? error.message : error})`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new CorruptFileError('expected a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Check the schemaVersion field and pick the schema to validate against
+ */
+function versionOf(parsed: Record<string, unknown>): number {
+  if (parsed.schemaVersion === undefined) {
+    return 1;
+  }
+  if (parsed.schemaVersion === COORDINATION_SCHEMA_VERSION) {
+    return COORDINATION_SCHEMA_VERSION;
+  }
+  throw new CorruptFileError(`unsupported schemaVersion ${JSON.stringify(parsed.schemaVersion)} (this release reads up to ${COORDINATION_SCHEMA_VERSION})`);
+}
+
+/**
+ * Summarise zod issues for error messages
+ */
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Decode beep file content, migrating plain-text and v1 files
+ */
+export function decodeBeepFile(raw: string, fileTimestamp: Date = new Date()): DecodedFile<BeepFileContent> {
+  const parsed = parseJsonObject(raw);
+  if (!parsed) {
+    // Plain-text beeps (including empty `touch beep` files) carry only a message
+    return {
+      content: {
+        schemaVersion: COORDINATION_SCHEMA_VERSION,
+        completedAt: fileTimestamp,
+        message: raw.trim() || 'Work completed'
+      },
+      migratedFrom: 0
+    };
+  }
+
+  const version = versionOf(parsed);
+  const result = (version === 1 ? BeepFields : BeepFileSchema).safeParse(parsed);
+  if (!result.success) {
+    throw new CorruptFileError(describeIssues(result.error));
+  }
+  const data = result.data;
+  return {
+    content: {
+      schemaVersion: COORDINATION_SCHEMA_VERSION,
+      completedAt: new Date(data.completedAt),
+      message: data.message,
+      completedBy: data.completedBy,
+      fencingToken: data.fencingToken
+    },
+    migratedFrom: version < COORDINATION_SCHEMA_VERSION ? version : undefined
+  };
+}
+
+/**
+ * Decode boop file content, migrating plain-text and v1 files
+ */
+export function decodeBoopFile(raw: string, fileTimestamp: Date = new Date()): DecodedFile<BoopFileContent> {
+  const parsed = parseJsonObject(raw);
+  if (!parsed) {
+    const lines = raw.split('\n');
+    const agentId = lines[0]?.trim() ?? '';
+    if (!LEGACY_AGENT_ID.test(agentId)) {
+      throw new CorruptFileError(agentId ? `first line "${agentId.slice(0, 40)}" is not an agent ID` : 'file is empty');
+    }
+    return {
+      content: {
+        schemaVersion: COORDINATION_SCHEMA_VERSION,
+        startedAt: fileTimestamp,
+        agentId,
+        workDescription: lines.slice(1).join('\n').trim() || 'Work in progress',
+        mode: 'exclusive'
+      },
+      migratedFrom: 0
+    };
+  }
+
+  const version = versionOf(parsed);
+  const result = (version === 1 ? BoopFields : BoopFileSchema).safeParse(parsed);
+  if (!result.success) {
+    throw new CorruptFileError(describeIssues(result.error));
+  }
+  const data = result.data;
+  return {
+    content: {
+      schemaVersion: COORDINATION_SCHEMA_VERSION,
+      startedAt: new Date(data.startedAt),
+      agentId: data.agentId,
+      workDescription: data.workDescription,
+      leaseExpiresAt: data.leaseExpiresAt ? new Date(data.leaseExpiresAt) : undefined,
+      renewalCount: data.renewalCount,
+      fencingToken: data.fencingToken,
+      mode: data.mode ?? 'exclusive',
+      transfers: data.transfers?.map(transfer => ({
+        ...transfer,
+        transferredAt: new Date(transfer.transferredAt)
+      }))
+    },
+    migratedFrom: version < COORDINATION_SCHEMA_VERSION ? version : undefined
+  };
+}
+
+/**
+ * Serialize beep content in the current schema version
+ */
+export function serializeBeepFile(content: BeepFileContent): string {
+  return JSON.stringify({ schemaVersion: COORDINATION_SCHEMA_VERSION, ...content }, null, 2);
+}
+
+/**
+ * Serialize boop content in the current schema version
+ */
+export function serializeBoopFile(content: BoopFileContent): string {
+  return JSON.stringify({ schemaVersion: COORDINATION_SCHEMA_VERSION, ...content }, null, 2);
+}
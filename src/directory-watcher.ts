@@ -0,0 +1,149 @@
+/**
+ * Watch mode: notices beep and boop changes made outside this server
+ *
+ * Each watched directory gets an fs.watch on the directory itself and on the
+ * subdirectories that hold coordination state (the shared claim directory and
+ * the metadata directory), so claims made by other agents or by hand are
+ * reported as soon as they happen.
+ */
+
+import { existsSync, watch, FSWatcher } from 'fs';
+import { resolve } from 'path';
+import { BeepBoopConfig } from './config.js';
+import { candidatePaths, coordinationEntryNames, resolveCoordinationPaths } from './coordination-layout.js';
+
+/** URI template of the per-directory status resource */
+export const STATUS_RESOURCE_TEMPLATE = 'beep-boop://status/{directory}';
+
+/** Upper bound on watched directories, to stay clear of file descriptor limits */
+export const MAX_WATCHED_DIRECTORIES = 500;
+
+/** Quiet period before a burst of file events is reported as one change */
+const CHANGE_DEBOUNCE_MS = 100;
+
+/**
+ * Status resource URI of a directory
+ */
+export function statusResourceUri(directory: string): string {
+  return `beep-boop://status/${encodeURIComponent(resolve(directory))}`;
+}
+
+interface WatchedDirectory {
+  watchers: Map<string, FSWatcher>;
+  debounce?: NodeJS.Timeout;
+}
+
+/**
+ * Watches directories and reports when their coordination state changes
+ */
+export class DirectoryWatcher {
+  private config: BeepBoopConfig;
+  private onChange: (directory: string) => void;
+  private directories: Map<string, WatchedDirectory> = new Map();
+  private entryNames: Set<string>;
+  private limitReported = false;
+
+  constructor(config: BeepBoopConfig, onChange: (directory: string) => void) {
+    this.config = config;
+    this.onChange = onChange;
+    this.entryNames = coordinationEntryNames(config);
+  }
+
+  /**
+   * Start watching a directory. Directories already watched are ignored.
+   */
+  watch(directory: string): void {
+    const target = resolve(directory);
+    if (this.directories.has(target) || !existsSync(target)) {
+      return;
+    }
+    if (this.directories.size >= MAX_WATCHED_DIRECTORIES) {
+      if (!this.limitReported) {
+        console.error(`⚠️ Watch mode limit of ${MAX_WATCHED_DIRECTORIES} directories reached; further directories are not watched`);
+        this.limitReported = true;
+      }
+      return;
+    }
+
+    const entry: WatchedDirectory = { watchers: new Map() };
+    this.directories.set(target, entry);
+    this.syncWatchers(target, entry);
+    if (this.config.logLevel === 'debug') {
+      console.error(`👀 Watching ${target} for coordination changes`);
+    }
+  }
+
+  /**
+   * Directories currently being watched
+   */
+  watchedDirectories(): string[] {
+    return [...this.directories.keys()].sort();
+  }
+
+  /**
+   * Stop watching everything
+   */
+  close(): void {
+    for (const entry of this.directories.values()) {
+      clearTimeout(entry.debounce);
+      for (const watcher of entry.watchers.values()) {
+        watcher.close();
+      }
+    }
+    this.directories.clear();
+  }
+
+  /**
+   * Paths that hold a directory's coordination state
+   */
+  private watchPaths(directory: string): string[] {
+    const paths = new Set([directory, ...candidatePaths(directory, 'sharedDir', this.config)]);
+    const metadataDir = resolveCoordinationPaths(directory, this.config).metadataDir;
+    if (metadataDir) {
+      paths.add(metadataDir);
+    }
+    return [...paths];
+  }
+
+  /**
+   * Watch the state subdirectories that exist now and drop watchers on ones
+   * that were removed, since they come and go with claims
+   */
+  private syncWatchers(directory: string, entry: WatchedDirectory): void {
+    const sharedDirs = new Set(candidatePaths(directory, 'sharedDir', this.config));
+    for (const path of this.watchPaths(directory)) {
+      const existing = entry.watchers.get(path);
+      if (existing && !existsSync(path)) {
+        existing.close();
+        entry.watchers.delete(path);
+      }
+      if (entry.watchers.has(path) || !existsSync(path)) {
+        continue;
+      }
+      try {
+        const watcher = watch(path, { persistent: false }, (_event, filename) => {
+          // Every file in a shared directory is a holder; elsewhere only coordination entries matter
+          if (!sharedDirs.has(path) && filename && !this.entryNames.has(filename.toString())) {
+            return;
+          }
+          this.scheduleChange(directory, entry);
+        });
+        watcher.on('error', () => {
+          watcher.close();
+          entry.watchers.delete(path);
+        });
+        entry.watchers.set(path, watcher);
+      } catch (error) {
+        console.error(`⚠️ Could not watch ${path}: ${error}`);
+      }
+    }
+  }
+
+  private scheduleChange(directory: string, entry: WatchedDirectory): void {
+    clearTimeout(entry.debounce);
+    entry.debounce = setTimeout(() => {
+      this.syncWatchers(directory, entry);
+      this.onChange(directory);
+    }, CHANGE_DEBOUNCE_MS);
+  }
+}
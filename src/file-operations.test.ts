@@ -0,0 +1,381 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmod, mkdir, mkdtemp, readdir, readFile, rm, stat, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BeepBoopConfig, formatFileMode, loadConfig } from './config.js';
+import {
+  applyStateRepair,
+  checkCoordinationFilePermissions,
+  claimManyAtomically,
+  cleanupStaleBoopAndClaim,
+  createBeepFile,
+  createBoopFile,
+  endWorkAtomically,
+  findNestedClaims,
+  getWorkStatus,
+  removeBeepFile,
+  renewBoopLease,
+  transferClaim,
+  updateBoopFile
+} from './file-operations.js';
+import { LOCK_FILE, resolveCoordinationPaths } from './coordination-layout.js';
+import { joinQueue } from './claim-queue.js';
+import { decodeBoopFile } from './coordination-schema.js';
+import { BoopFileContent, CoordinationError, ErrorCode, WorkState } from './types.js';
+
+let directory: string;
+let config: BeepBoopConfig;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'beep-boop-test-'));
+  // The temp directory lives under a directory blocked by default
+  config = { ...loadConfig(), blockedDirectories: [], allowedDirectories: [] };
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+test('only one of several concurrent claims wins', async () => {
+  const agents = ['agent-a', 'agent-b', 'agent-c', 'agent-d', 'agent-e'];
+  const results = await Promise.allSettled(agents.map(agent => createBoopFile(directory, agent, 'work', config)));
+
+  const winners = results.filter((result): result is PromiseFulfilledResult<BoopFileContent> => result.status === 'fulfilled');
+  assert.equal(winners.length, 1);
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      assert.ok(result.reason instanceof CoordinationError);
+      assert.equal(result.reason.code, ErrorCode.WORK_ALREADY_IN_PROGRESS);
+    }
+  }
+
+  const status = await getWorkStatus(directory, config);
+  assert.equal(status.status, WorkState.WORK_IN_PROGRESS);
+  assert.equal(status.agentId, winners[0].value.agentId);
+});
+
+test('a claim on a claimed directory names the holder', async () => {
+  await createBoopFile(directory, 'agent-a', 'work', config);
+  await assert.rejects(
+    createBoopFile(directory, 'agent-b', 'other work', config),
+    (error: unknown) => error instanceof CoordinationError &&
+      error.code === ErrorCode.WORK_ALREADY_IN_PROGRESS &&
+      error.message.includes('agent-a')
+  );
+});
+
+test('claims with an empty agent id or a missing directory are rejected', async () => {
+  await assert.rejects(
+    createBoopFile(directory, '  ', 'work', config),
+    (error: unknown) => error instanceof CoordinationError && error.code === ErrorCode.INVALID_AGENT_ID
+  );
+  await assert.rejects(
+    createBoopFile(join(directory, 'missing'), 'agent-a', 'work', config),
+    (error: unknown) => error instanceof CoordinationError && error.code === ErrorCode.DIRECTORY_NOT_FOUND
+  );
+});
+
+test('renewing a lease extends it and counts the renewal', async () => {
+  const claim = await createBoopFile(directory, 'agent-a', 'work', config);
+  const renewed = await renewBoopLease(directory, 'agent-a', 48, config, claim.fencingToken);
+
+  assert.equal(renewed.renewalCount, 1);
+  assert.ok(renewed.leaseExpiresAt!.getTime() > claim.leaseExpiresAt!.getTime());
+  assert.equal(renewed.startedAt.getTime(), claim.startedAt.getTime());
+});
+
+test('stale cleanup removes an expired claim and hands it to the new agent', async () => {
+  await createBoopFile(directory, 'agent-a', 'work', { ...config, leaseDurationHours: 0 });
+
+  const cleanup = await cleanupStaleBoopAndClaim(directory, 'agent-a', 'agent-b', 'new work', config);
+
+  assert.deepEqual([cleanup.cleanedUp, cleanup.claimed], [true, true]);
+  assert.equal((await getWorkStatus(directory, config)).agentId, 'agent-b');
+});
+
+test('stale cleanup leaves a claim renewed since it was checked', async () => {
+  const claim = await createBoopFile(directory, 'agent-a', 'work', { ...config, leaseDurationHours: 0 });
+  await renewBoopLease(directory, 'agent-a', 1, config, claim.fencingToken);
+
+  await assert.rejects(
+    cleanupStaleBoopAndClaim(directory, 'agent-a', 'agent-b', 'new work', config),
+    (error: unknown) => error instanceof CoordinationError && error.code === ErrorCode.WORK_ALREADY_IN_PROGRESS
+  );
+  assert.equal((await getWorkStatus(directory, config)).agentId, 'agent-a');
+});
+
+test('claim rewrites wait for the directory lock and ignore abandoned ones', async () => {
+  const claim = await createBoopFile(directory, 'agent-a', 'work', config);
+  const lockPath = join(directory, LOCK_FILE);
+  await writeFile(lockPath, 'another process');
+
+  await assert.rejects(
+    renewBoopLease(directory, 'agent-a', 1, { ...config, operationQueueTimeoutMs: 100 }, claim.fencingToken),
+    (error: unknown) => error instanceof CoordinationError && error.code === ErrorCode.OPERATION_BUSY
+  );
+
+  const abandoned = new Date(Date.now() - 5 * 60 * 1000);
+  await utimes(lockPath, abandoned, abandoned);
+  const renewed = await renewBoopLease(directory, 'agent-a', 1, config, claim.fencingToken);
+  assert.equal(renewed.renewalCount, 1);
+  await assert.rejects(readFile(lockPath));
+});
+
+test('each new claim gets a higher fencing token and old tokens are rejected', async () => {
+  const first = await createBoopFile(directory, 'agent-a', 'work', config);
+  await endWorkAtomically(directory, 'agent-a', 'done', config, first.fencingToken);
+  await removeBeepFile(directory, config);
+  const second = await createBoopFile(directory, 'agent-a', 'more work', config);
+
+  assert.equal(second.fencingToken, first.fencingToken! + 1);
+  await assert.rejects(
+    endWorkAtomically(directory, 'agent-a', 'done', config, first.fencingToken),
+    (error: unknown) => error instanceof CoordinationError && error.code === ErrorCode.STALE_FENCING_TOKEN
+  );
+  await assert.rejects(
+    updateBoopFile(directory, 'agent-a', 'update', config),
+    (error: unknown) => error instanceof CoordinationError && error.code === ErrorCode.STALE_FENCING_TOKEN
+  );
+  assert.equal((await getWorkStatus(directory, config)).fencingToken, second.fencingToken);
+});
+
+test('the fencing counter survives stale cleanup', async () => {
+  const first = await createBoopFile(directory, 'agent-a', 'work', { ...config, leaseDurationHours: 0 });
+  await cleanupStaleBoopAndClaim(directory, 'agent-a', undefined, undefined, config);
+  const next = await createBoopFile(directory, 'agent-b', 'work', config);
+
+  assert.equal(next.fencingToken, first.fencingToken! + 1);
+});
+
+test('claim_many claims every directory or none of them', async () => {
+  const [first, second, third] = ['one', 'two', 'three'].map(name => join(directory, name));
+  for (const path of [first, second, third]) {
+    await mkdir(path);
+  }
+  await createBeepFile(first, 'earlier work', 'agent-z', config);
+  await createBoopFile(third, 'agent-b', 'work', config);
+
+  const { success, results } = await claimManyAtomically([first, second, third], 'agent-a', 'batch', config);
+
+  assert.equal(success, false);
+  assert.deepEqual(results.map(result => result.outcome), ['rolled_back', 'rolled_back', 'failed']);
+  assert.equal(results[2].errorCode, ErrorCode.WORK_ALREADY_IN_PROGRESS);
+  // The beep the batch replaced is put back
+  assert.equal((await getWorkStatus(first, config)).status, WorkState.WORK_ALLOWED);
+  assert.equal((await getWorkStatus(second, config)).status, WorkState.NO_COORDINATION);
+  assert.equal((await getWorkStatus(third, config)).agentId, 'agent-b');
+});
+
+test('claim_many reports claims the agent already holds', async () => {
+  const [first, second] = ['one', 'two'].map(name => join(directory, name));
+  await mkdir(first);
+  await mkdir(second);
+  const held = await createBoopFile(first, 'agent-a', 'work', config);
+
+  const { success, results } = await claimManyAtomically([first, second], 'agent-a', 'batch', config);
+
+  assert.equal(success, true);
+  assert.deepEqual(results.map(result => result.outcome), ['already_held', 'claimed']);
+  assert.equal(results[0].fencingToken, held.fencingToken);
+});
+
+test('claims by other agents above and below a directory are found', async () => {
+  await mkdir(join(directory, '.git'));
+  const packages = join(directory, 'packages');
+  const app = join(packages, 'app');
+  const deep = join(app, 'src', 'deep');
+  const lib = join(packages, 'lib');
+  for (const path of [deep, lib]) {
+    await mkdir(path, { recursive: true });
+  }
+  await createBoopFile(packages, 'agent-b', 'work', config);
+  await createBoopFile(deep, 'agent-c', 'work', config);
+  await createBoopFile(lib, 'agent-c', 'work', config);
+  await createBoopFile(directory, 'agent-a', 'own work', config);
+
+  const conflicts = await findNestedClaims(app, 'agent-a', config);
+
+  assert.deepEqual(
+    conflicts.map(conflict => [conflict.relation, conflict.directory, conflict.agentId]).sort(),
+    [['ancestor', packages, 'agent-b'], ['descendant', deep, 'agent-c']]
+  );
+});
+
+test('claim_many refuses directories overlapping another agent\'s claim', async () => {
+  await mkdir(join(directory, '.git'));
+  const child = join(directory, 'child');
+  await mkdir(child);
+  await createBoopFile(child, 'agent-b', 'work', config);
+
+  const { success, results } = await claimManyAtomically([directory], 'agent-a', 'batch', { ...config, nestedClaimPolicy: 'block' });
+
+  assert.equal(success, false);
+  assert.equal(results[0].errorCode, ErrorCode.NESTED_CLAIM_CONFLICT);
+});
+
+test('claim_many under the warn policy claims overlapping directories and reports the overlap', async () => {
+  await mkdir(join(directory, '.git'));
+  const child = join(directory, 'child');
+  await mkdir(child);
+  await createBoopFile(child, 'agent-b', 'work', config);
+
+  const { success, results } = await claimManyAtomically([directory], 'agent-a', 'batch', { ...config, nestedClaimPolicy: 'warn' });
+
+  assert.equal(success, true);
+  assert.equal(results[0].outcome, 'claimed');
+  assert.deepEqual(results[0].conflicts?.map(conflict => [conflict.relation, conflict.directory, conflict.agentId]), [
+    ['descendant', child, 'agent-b']
+  ]);
+  assert.equal((await getWorkStatus(directory, config)).agentId, 'agent-a');
+});
+
+test('claims in directories excluded by .gitignore are not nested claims', async () => {
+  await mkdir(join(directory, '.git'));
+  await writeFile(join(directory, '.gitignore'), 'build/\n');
+  const build = join(directory, 'app', 'build');
+  const src = join(directory, 'app', 'src');
+  await mkdir(build, { recursive: true });
+  await mkdir(src, { recursive: true });
+  await createBoopFile(build, 'agent-b', 'work', config);
+  await createBoopFile(src, 'agent-b', 'work', config);
+
+  const conflicts = await findNestedClaims(join(directory, 'app'), 'agent-a', config);
+
+  assert.deepEqual(conflicts.map(conflict => conflict.directory), [src]);
+});
+
+test('coordination, queue and history files get the configured mode whatever the umask', async () => {
+  const groupWritable = { ...config, filePermissions: '0664' };
+  const paths = resolveCoordinationPaths(directory, groupWritable);
+  const previousUmask = process.umask(0o077);
+  let beepMode: string;
+  try {
+    await createBeepFile(directory, 'done', 'agent-z', groupWritable);
+    beepMode = formatFileMode((await stat(paths.beep)).mode);
+    await removeBeepFile(directory, groupWritable);
+    await createBoopFile(directory, 'agent-a', 'work', groupWritable);
+    await joinQueue(directory, 'agent-b', 'next', groupWritable);
+  } finally {
+    process.umask(previousUmask);
+  }
+
+  assert.equal(beepMode, '0664');
+  for (const file of [paths.boop, paths.fence, paths.queue, paths.history]) {
+    assert.equal(formatFileMode((await stat(file)).mode), '0664', file);
+  }
+  assert.deepEqual(await checkCoordinationFilePermissions(directory, groupWritable), []);
+});
+
+test('coordination files with other modes are reported', async () => {
+  await createBoopFile(directory, 'agent-a', 'work', config);
+  const boopPath = resolveCoordinationPaths(directory, config).boop;
+  await chmod(boopPath, 0o600);
+
+  assert.deepEqual(await checkCoordinationFilePermissions(directory, config), [`${boopPath} is 0600, expected 0644`]);
+});
+
+test('a transfer keeps the claim\'s start and token and records the handoff', async () => {
+  const claim = await createBoopFile(directory, 'agent-a', 'work', config);
+
+  const transferred = await transferClaim(directory, 'agent-a', 'agent-b', claim.fencingToken, 'shift change', config);
+
+  assert.equal(transferred.agentId, 'agent-b');
+  assert.equal(transferred.fencingToken, claim.fencingToken);
+  assert.equal(transferred.startedAt.getTime(), claim.startedAt.getTime());
+  const stored = decodeBoopFile(await readFile(resolveCoordinationPaths(directory, config).boop, 'utf8')).content;
+  assert.equal(stored.agentId, 'agent-b');
+  assert.equal(stored.startedAt.getTime(), claim.startedAt.getTime());
+  assert.deepEqual(
+    stored.transfers?.map(({ fromAgentId, toAgentId, reason }) => ({ fromAgentId, toAgentId, reason })),
+    [{ fromAgentId: 'agent-a', toAgentId: 'agent-b', reason: 'shift change' }]
+  );
+
+  // The new owner ends the work with the token it was handed
+  await endWorkAtomically(directory, 'agent-b', 'done', config, claim.fencingToken);
+  assert.equal((await getWorkStatus(directory, config)).status, WorkState.WORK_ALLOWED);
+});
+
+test('only the owner with the current token can transfer a claim', async () => {
+  const claim = await createBoopFile(directory, 'agent-a', 'work', config);
+  const rejectsWith = (code: ErrorCode) => (error: unknown) => error instanceof CoordinationError && error.code === code;
+
+  await assert.rejects(
+    transferClaim(directory, 'agent-z', 'agent-b', claim.fencingToken, undefined, config),
+    rejectsWith(ErrorCode.AGENT_MISMATCH)
+  );
+  await assert.rejects(
+    transferClaim(directory, 'agent-a', 'agent-b', (claim.fencingToken ?? 0) + 1, undefined, config),
+    rejectsWith(ErrorCode.STALE_FENCING_TOKEN)
+  );
+  await assert.rejects(
+    transferClaim(directory, 'agent-a', 'agent-b', undefined, undefined, config),
+    rejectsWith(ErrorCode.STALE_FENCING_TOKEN)
+  );
+  assert.equal((await getWorkStatus(directory, config)).agentId, 'agent-a');
+
+  await endWorkAtomically(directory, 'agent-a', 'done', config, claim.fencingToken);
+  await assert.rejects(
+    transferClaim(directory, 'agent-a', 'agent-b', claim.fencingToken, undefined, config),
+    rejectsWith(ErrorCode.WORK_NOT_CLAIMED)
+  );
+});
+
+/**
+ * Leave a beep and a boop side by side, as an interrupted end_work or claim would
+ */
+async function createInvalidState(boopConfig: BeepBoopConfig): Promise<void> {
+  await createBoopFile(directory, 'agent-a', 'work', boopConfig);
+  const earlier = new Date(Date.now() - 60 * 60 * 1000);
+  await utimes(resolveCoordinationPaths(directory, config).boop, earlier, earlier);
+  await createBeepFile(directory, 'done', 'agent-b', config);
+}
+
+test('repair keeps the newer file and archives the discarded one', async () => {
+  await createInvalidState({ ...config, leaseDurationHours: 0 });
+  const paths = resolveCoordinationPaths(directory, config);
+  const boop = await readFile(paths.boop, 'utf8');
+
+  const { proposal, kept, archivePath } = await applyStateRepair(directory, undefined, 24, config);
+
+  assert.equal(kept, 'beep');
+  assert.equal(proposal.boopActive, false);
+  assert.equal((await getWorkStatus(directory, config)).status, WorkState.WORK_ALLOWED);
+  assert.equal(await readFile(archivePath, 'utf8'), boop);
+  assert.deepEqual(await readdir(paths.repairDir), [archivePath.slice(paths.repairDir.length + 1)]);
+});
+
+test('repair keeps the boop while its agent is active, even when the beep is newer', async () => {
+  await createInvalidState(config);
+  const beep = await readFile(resolveCoordinationPaths(directory, config).beep, 'utf8');
+
+  const { proposal, kept, archivePath } = await applyStateRepair(directory, undefined, 24, config);
+
+  assert.equal(kept, 'boop');
+  assert.equal(proposal.boopActive, true);
+  const status = await getWorkStatus(directory, config);
+  assert.equal(status.status, WorkState.WORK_IN_PROGRESS);
+  assert.equal(status.agentId, 'agent-a');
+  assert.equal(await readFile(archivePath, 'utf8'), beep);
+});
+
+test('repair waits for the directory lock and rechecks the state under it', async () => {
+  await createInvalidState(config);
+  const lockPath = join(directory, LOCK_FILE);
+  await writeFile(lockPath, 'another process');
+
+  await assert.rejects(
+    applyStateRepair(directory, 'beep', 24, { ...config, operationQueueTimeoutMs: 100 }),
+    (error: unknown) => error instanceof CoordinationError && error.code === ErrorCode.OPERATION_BUSY
+  );
+  assert.equal((await getWorkStatus(directory, config)).status, WorkState.INVALID_STATE);
+
+  // Another process resolved the state while holding the lock
+  await removeBeepFile(directory, config);
+  await rm(lockPath);
+  await assert.rejects(
+    applyStateRepair(directory, 'beep', 24, config),
+    (error: unknown) => error instanceof CoordinationError && error.code === ErrorCode.INVALID_STATE
+  );
+  assert.equal((await getWorkStatus(directory, config)).agentId, 'agent-a');
+});
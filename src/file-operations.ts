@@ -3,46 +3,68 @@
  */
 
 import { promises as fs } from 'fs';
-import { join } from 'path';
+import { join, dirname, basename, resolve } from 'path';
+import { randomUUID } from 'crypto';
 import { 
   WorkStatus, 
   WorkState, 
   FileMetadata, 
   BeepFileContent, 
   BoopFileContent, 
+  ClaimConflict,
+  ClaimHolder,
+  ClaimMode,
+  DirectoryOperationResult,
+  RepairProposal,
   CoordinationError, 
   ErrorCode 
 } from './types.js';
-import { BeepBoopConfig, isDirectoryAllowed, validateAgentIdPrefix } from './config.js';
+import { BeepBoopConfig, isDirectoryAllowed, validateAgentIdPrefix, parseFileMode, formatFileMode } from './config.js';
+import {
+  decodeBeepFile,
+  decodeBoopFile,
+  serializeBeepFile,
+  serializeBoopFile,
+  CorruptFileError
+} from './coordination-schema.js';
+import { appendHistory } from './history.js';
+import { backupCoordinationFiles } from './backup.js';
+import { walkCoordinatedDirectories } from './claim-scan.js';
+import {
+  SHARED_BOOP_DIR,
+  REPAIR_ARCHIVE_DIR,
+  METADATA_DIR,
+  resolveCoordinationPaths,
+  candidatePaths,
+  locateCoordinationFile,
+  ensureMetadataDir,
+  gitIgnoreEntries
+} from './coordination-layout.js';
 
-/** Default file names for coordination */
-export const BEEP_FILE = 'beep';
-export const BOOP_FILE = 'boop';
+/** Directories never descended into when scanning for claims */
+export const SKIPPED_SCAN_DIRECTORIES = new Set(['node_modules', '.git', '.beep-boop-inbox', SHARED_BOOP_DIR, REPAIR_ARCHIVE_DIR, METADATA_DIR]);
+
+/** Maximum depth below a directory to scan for nested claims */
+const NESTED_SCAN_MAX_DEPTH = 8;
+
+/** Age after which a lock file is presumed left behind by a crashed process */
+const LOCK_STALE_MS = 60 * 1000;
+
+/** Pause between attempts to take a lock file */
+const LOCK_RETRY_MS = 25;
 
 /**
  * Check if beep file exists in the given directory
  */
-export async function checkBeepExists(directory: string): Promise<boolean> {
-  try {
-    const beepPath = join(directory, BEEP_FILE);
-    await fs.access(beepPath);
-    return true;
-  } catch {
-    return false;
-  }
+export async function checkBeepExists(directory: string, config: BeepBoopConfig): Promise<boolean> {
+  return (await locateCoordinationFile(directory, 'beep', config)) !== null;
 }
 
 /**
  * Check if boop file exists in the given directory
  */
-export async function checkBoopExists(directory: string): Promise<boolean> {
-  try {
-    const boopPath = join(directory, BOOP_FILE);
-    await fs.access(boopPath);
-    return true;
-  } catch {
-    return false;
-  }
+export async function checkBoopExists(directory: string, config: BeepBoopConfig): Promise<boolean> {
+  return (await locateCoordinationFile(directory, 'boop', config)) !== null;
 }
 
 /**
@@ -64,69 +86,211 @@ export async function getFileMetadata(filePath: string): Promise<FileMetadata |
 }
 
 /**
- * Parse beep file content as JSON
+ * Write a file atomically by writing to a temp file in the same directory and renaming it into place.
+ * A mode, if given, is applied before the rename so the file never appears with other permissions.
  */
-export function parseBeepContent(content: string): BeepFileContent {
+export async function writeFileAtomic(filePath: string, data: string, mode?: number): Promise<void> {
+  const tempPath = join(dirname(filePath), `.${basename(filePath)}.${process.pid}.${randomUUID()}.tmp`);
   try {
-    const parsed = JSON.parse(content);
-    return {
-      completedAt: new Date(parsed.completedAt),
-      message: parsed.message,
-      completedBy: parsed.completedBy
-    };
-  } catch {
-    // Fallback for simple text files
-    return {
-      completedAt: new Date(),
-      message: content || 'Work completed'
-    };
+    await fs.writeFile(tempPath, data, { flag: 'wx', mode });
+    if (mode !== undefined) {
+      // The create mode is narrowed by the umask, so set it explicitly
+      await fs.chmod(tempPath, mode);
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => {});
+    throw error;
   }
 }
 
 /**
- * Parse boop file content as JSON
+ * Run an operation while holding a directory's lock file, so read-modify-write
+ * sequences on its claim or queue cannot interleave with another process.
+ * Waits up to operationQueueTimeoutMs before failing with OPERATION_BUSY. The
+ * lock is not re-entrant: the operation must not take it again.
  */
-export function parseBoopContent(content: string): BoopFileContent {
+export async function withCoordinationLock<T>(directory: string, config: BeepBoopConfig, operation: () => Promise<T>): Promise<T> {
+  const paths = resolveCoordinationPaths(directory, config);
+  const owner = `${process.pid} ${randomUUID()}`;
+  const deadline = Date.now() + config.operationQueueTimeoutMs;
   try {
-    const parsed = JSON.parse(content);
-    return {
-      startedAt: new Date(parsed.startedAt),
-      agentId: parsed.agentId,
-      workDescription: parsed.workDescription
-    };
+    // Checked first, since creating the metadata directory would create the directory too
+    await fs.access(directory);
   } catch {
-    // Fallback for simple text files - extract agent ID from first line
-    const lines = content.split('\n');
-    const agentId = lines[0]?.trim() || 'unknown';
-    return {
-      startedAt: new Date(),
-      agentId,
-      workDescription: lines.slice(1).join('\n').trim() || 'Work in progress'
-    };
+    throw new CoordinationError(`Directory not found: ${directory}`, ErrorCode.DIRECTORY_NOT_FOUND, directory);
+  }
+
+  while (true) {
+    try {
+      await ensureMetadataDir(paths);
+      await fs.writeFile(paths.lock, owner, { flag: 'wx' });
+      break;
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT') {
+        throw new CoordinationError(`Directory not found: ${directory}`, ErrorCode.DIRECTORY_NOT_FOUND, directory);
+      }
+      if (code !== 'EEXIST') {
+        throw new CoordinationError(`Failed to lock directory: ${error}`, ErrorCode.FILE_SYSTEM_ERROR, directory);
+      }
+      const held = await fs.stat(paths.lock).catch(() => null);
+      if (held && Date.now() - held.mtimeMs > LOCK_STALE_MS) {
+        await fs.unlink(paths.lock).catch(() => {});
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new CoordinationError(
+          `Directory ${directory} is locked by another process (${paths.lock}). Try again shortly`,
+          ErrorCode.OPERATION_BUSY,
+          directory
+        );
+      }
+      await new Promise(resolveDelay => setTimeout(resolveDelay, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await operation();
+  } finally {
+    // Leave the lock alone if it was broken as stale and taken by someone else
+    const current = await fs.readFile(paths.lock, 'utf8').catch(() => null);
+    if (current === owner) {
+      await fs.unlink(paths.lock).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Mode for beep, boop and fencing files, from BEEP_BOOP_FILE_PERMISSIONS
+ */
+export function coordinationFileMode(config: BeepBoopConfig): number {
+  return parseFileMode(config.filePermissions);
+}
+
+/**
+ * Convert a decode failure into a CoordinationError
+ */
+function corruptFileError(fileName: string, error: unknown, directory?: string): CoordinationError {
+  const reason = error instanceof CorruptFileError ? error.message : String(error);
+  return new CoordinationError(
+    `Corrupt ${fileName} file: ${reason}`,
+    ErrorCode.CORRUPT_FILE,
+    directory
+  );
+}
+
+/**
+ * Parse beep file content. Plain-text and v1 files are migrated to the
+ * current schema; unparseable content throws CORRUPT_FILE.
+ */
+export function parseBeepContent(content: string, fileTimestamp?: Date, directory?: string): BeepFileContent {
+  try {
+    return decodeBeepFile(content, fileTimestamp).content;
+  } catch (error) {
+    throw corruptFileError('beep', error, directory);
+  }
+}
+
+/**
+ * Parse boop file content. Plain-text and v1 files are migrated to the
+ * current schema; unparseable content throws CORRUPT_FILE.
+ */
+export function parseBoopContent(content: string, fileTimestamp?: Date, directory?: string): BoopFileContent {
+  try {
+    return decodeBoopFile(content, fileTimestamp).content;
+  } catch (error) {
+    throw corruptFileError('boop', error, directory);
+  }
+}
+
+/**
+ * Compute the expiry time of a lease starting now
+ */
+export function computeLeaseExpiry(leaseHours: number): Date {
+  return new Date(Date.now() + leaseHours * 60 * 60 * 1000);
+}
+
+/**
+ * Read the highest fencing token issued for a directory
+ */
+async function readFencingCounter(directory: string, config: BeepBoopConfig): Promise<number> {
+  let highest = 0;
+  
+  // A counter left in the default layout still bounds new tokens
+  for (const counterPath of candidatePaths(directory, 'fence', config)) {
+    const counter = await getFileMetadata(counterPath);
+    const parsedCounter = counter?.content ? parseInt(counter.content, 10) : NaN;
+    if (!isNaN(parsedCounter)) {
+      highest = Math.max(highest, parsedCounter);
+    }
+  }
+
+  // Fall back to tokens recorded in coordination files if the counter is missing
+  const beepPath = await locateCoordinationFile(directory, 'beep', config);
+  const beep = beepPath ? await getFileMetadata(beepPath) : null;
+  if (beep?.content) {
+    try {
+      highest = Math.max(highest, parseBeepContent(beep.content).fencingToken ?? 0);
+    } catch {
+      // A corrupt beep records no usable token
+    }
+  }
+  
+  return highest;
+}
+
+/**
+ * Reject a call whose fencing token does not match the current claim
+ */
+function verifyFencingToken(
+  currentToken: number | undefined,
+  suppliedToken: number | undefined,
+  directory: string
+): void {
+  if (currentToken === undefined) {
+    // Legacy claim created before fencing tokens existed
+    return;
+  }
+
+  if (suppliedToken === undefined) {
+    throw new CoordinationError(
+      'Fencing token required: pass the token returned by update_boop when the claim was made',
+      ErrorCode.STALE_FENCING_TOKEN,
+      directory
+    );
+  }
+
+  if (suppliedToken !== currentToken) {
+    throw new CoordinationError(
+      `Stale fencing token ${suppliedToken}: it does not match the current claim. The directory may have been reclaimed after stale cleanup.`,
+      ErrorCode.STALE_FENCING_TOKEN,
+      directory
+    );
   }
 }
 
 /**
  * Create a beep file with timestamp and optional message
  */
-export async function createBeepFile(directory: string, message?: string, completedBy?: string, config?: BeepBoopConfig): Promise<void> {
+export async function createBeepFile(directory: string, message: string | undefined, completedBy: string | undefined, config: BeepBoopConfig): Promise<void> {
   try {
     // Verify directory exists
     await fs.access(directory);
     
-    const beepPath = join(directory, BEEP_FILE);
+    const paths = resolveCoordinationPaths(directory, config);
     const content: BeepFileContent = {
       completedAt: new Date(),
       message: message || 'Work completed',
       completedBy
     };
     
-    await fs.writeFile(beepPath, JSON.stringify(content, null, 2));
+    await ensureMetadataDir(paths);
+    await writeFileAtomic(paths.beep, serializeBeepFile(content), coordinationFileMode(config));
+    await appendHistory(directory, { event: 'completed', agentId: completedBy || 'unknown', details: content.message }, config);
     
     // Ensure .gitignore entries if configured
-    if (config) {
-      await ensureGitIgnoreEntries(directory, config);
-    }
+    await ensureGitIgnoreEntries(directory, config);
   } catch (error) {
     if (error instanceof Error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
@@ -152,14 +316,15 @@ export async function createBeepFile(directory: string, message?: string, comple
 }
 
 /**
- * Create or update a boop file with agent identifier and work description
+ * Create a boop file with agent identifier and work description.
+ * Uses exclusive-create semantics so only one agent can win a claim.
  */
 export async function createBoopFile(
   directory: string, 
   agentId: string, 
-  workDescription?: string,
-  config?: BeepBoopConfig
-): Promise<void> {
+  workDescription: string | undefined,
+  config: BeepBoopConfig
+): Promise<BoopFileContent> {
   try {
     if (!agentId || agentId.trim().length === 0) {
       throw new CoordinationError(
@@ -172,19 +337,81 @@ export async function createBoopFile(
     // Verify directory exists
     await fs.access(directory);
     
-    const boopPath = join(directory, BOOP_FILE);
+    const paths = resolveCoordinationPaths(directory, config);
+    const boopPath = paths.boop;
     const content: BoopFileContent = {
       startedAt: new Date(),
       agentId: agentId.trim(),
-      workDescription: workDescription || 'Work in progress'
+      workDescription: workDescription || 'Work in progress',
+      leaseExpiresAt: computeLeaseExpiry(config.leaseDurationHours),
+      renewalCount: 0,
+      fencingToken: (await readFencingCounter(directory, config)) + 1
     };
     
-    await fs.writeFile(boopPath, JSON.stringify(content, null, 2));
+    // A boop in the default layout still holds the directory
+    const existingBoop = await locateCoordinationFile(directory, 'boop', config);
+    if (existingBoop && existingBoop !== boopPath) {
+      throw new CoordinationError(
+        `Directory is already claimed by agent ${await readBoopHolder(existingBoop)}`,
+        ErrorCode.WORK_ALREADY_IN_PROGRESS,
+        directory
+      );
+    }
+
+    const mode = coordinationFileMode(config);
+    try {
+      await ensureMetadataDir(paths);
+      await fs.writeFile(boopPath, serializeBoopFile(content), { flag: 'wx', mode });
+    } catch (writeError) {
+      if ((writeError as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new CoordinationError(
+          `Directory is already claimed by agent ${await readBoopHolder(boopPath)}`,
+          ErrorCode.WORK_ALREADY_IN_PROGRESS,
+          directory
+        );
+      }
+      throw writeError;
+    }
+    try {
+      // The create mode is narrowed by the umask, so set it explicitly
+      await fs.chmod(boopPath, mode);
+    } catch (chmodError) {
+      // Give the claim up rather than hold it with permissions others cannot use
+      await fs.unlink(boopPath).catch(() => {});
+      throw chmodError;
+    }
+
+    // Shared holders announce themselves before checking for an exclusive boop,
+    // so checking after our own create means at most one side can succeed
+    const sharedHolders = (await listSharedHolders(directory, config))
+      .filter(holder => holder.agentId !== content.agentId && !isLeaseExpired(holder.leaseExpiresAt));
+    if (sharedHolders.length > 0) {
+      await fs.unlink(boopPath).catch(() => {});
+      throw new CoordinationError(
+        `Directory has shared holders: ${sharedHolders.map(holder => holder.agentId).join(', ')}`,
+        ErrorCode.WORK_ALREADY_IN_PROGRESS,
+        directory
+      );
+    }
+    // An agent upgrading its own shared claim gives up the shared entry
+    for (const holderPath of sharedHolderPaths(directory, content.agentId, config)) {
+      await fs.unlink(holderPath).catch(() => {});
+    }
+
+    // Only the winning claimer advances the counter
+    await writeFileAtomic(paths.fence, String(content.fencingToken), coordinationFileMode(config));
+    await appendHistory(directory, {
+      event: 'claimed',
+      agentId: content.agentId,
+      mode: 'exclusive',
+      fencingToken: content.fencingToken,
+      details: content.workDescription
+    }, config);
     
     // Ensure .gitignore entries if configured
-    if (config) {
-      await ensureGitIgnoreEntries(directory, config);
-    }
+    await ensureGitIgnoreEntries(directory, config);
+
+    return content;
   } catch (error) {
     if (error instanceof CoordinationError) {
       throw error;
@@ -215,30 +442,440 @@ export async function createBoopFile(
 }
 
 /**
- * Remove boop file from directory
+ * Name the agent holding a boop file, for conflict messages
+ */
+async function readBoopHolder(boopPath: string): Promise<string> {
+  const existing = await getFileMetadata(boopPath);
+  try {
+    return parseBoopContent(existing?.content ?? '').agentId;
+  } catch {
+    return 'unknown (corrupt boop file)';
+  }
+}
+
+/**
+ * Possible paths of the shared claim file for an agent, configured layout first
+ */
+function sharedHolderPaths(directory: string, agentId: string, config: BeepBoopConfig): string[] {
+  return candidatePaths(directory, 'sharedDir', config).map(sharedDir => join(sharedDir, `${agentId.trim()}.json`));
+}
+
+/**
+ * Check whether a lease expiry time has passed
+ */
+function isLeaseExpired(leaseExpiresAt?: Date): boolean {
+  return !!leaseExpiresAt && !isNaN(leaseExpiresAt.getTime()) && leaseExpiresAt.getTime() <= Date.now();
+}
+
+/**
+ * List shared (read) claim holders for a directory
+ */
+export async function listSharedHolders(directory: string, config: BeepBoopConfig): Promise<ClaimHolder[]> {
+  const holders: ClaimHolder[] = [];
+  for (const sharedDir of candidatePaths(directory, 'sharedDir', config)) {
+    let files: string[];
+    try {
+      files = await fs.readdir(sharedDir);
+    } catch {
+      continue;
+    }
+
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const meta = await getFileMetadata(join(sharedDir, file));
+      if (!meta?.content) {
+        continue;
+      }
+      let content: BoopFileContent;
+      try {
+        content = parseBoopContent(meta.content, meta.timestamp, directory);
+      } catch {
+        // A corrupt shared entry cannot be attributed to an agent
+        continue;
+      }
+      // An entry in the configured layout shadows one left in the default layout
+      if (holders.some(holder => holder.agentId === content.agentId)) {
+        continue;
+      }
+      holders.push({
+        agentId: content.agentId,
+        mode: 'shared',
+        startedAt: content.startedAt,
+        leaseExpiresAt: content.leaseExpiresAt,
+        workDescription: content.workDescription,
+        fencingToken: content.fencingToken
+      });
+    }
+  }
+  return holders;
+}
+
+/**
+ * Create or refresh a shared (read) claim. Several agents may hold shared
+ * claims at once; a shared claim fails while an exclusive boop exists.
+ */
+export async function createSharedBoopFile(
+  directory: string,
+  agentId: string,
+  workDescription: string | undefined,
+  config: BeepBoopConfig
+): Promise<BoopFileContent> {
+  if (!agentId || agentId.trim().length === 0) {
+    throw new CoordinationError(
+      'Agent ID cannot be empty', 
+      ErrorCode.INVALID_AGENT_ID, 
+      directory
+    );
+  }
+
+  const paths = resolveCoordinationPaths(directory, config);
+  const holderPath = sharedHolderPaths(directory, agentId, config)[0];
+  const content: BoopFileContent = {
+    startedAt: new Date(),
+    agentId: agentId.trim(),
+    workDescription: workDescription || 'Shared access',
+    leaseExpiresAt: computeLeaseExpiry(config.leaseDurationHours),
+    renewalCount: 0,
+    mode: 'shared'
+  };
+
+  const exclusiveHolder = async (): Promise<string | null> => {
+    const boopPath = await locateCoordinationFile(directory, 'boop', config);
+    return boopPath ? await readBoopHolder(boopPath) : null;
+  };
+
+  try {
+    await fs.access(directory);
+
+    const before = await exclusiveHolder();
+    if (before !== null) {
+      throw new CoordinationError(
+        `Directory is exclusively claimed by agent ${before}`,
+        ErrorCode.WORK_ALREADY_IN_PROGRESS,
+        directory
+      );
+    }
+
+    // Announce first, then re-check for an exclusive claim that raced us
+    await fs.mkdir(paths.sharedDir, { recursive: true });
+    await writeFileAtomic(holderPath, serializeBoopFile(content), coordinationFileMode(config));
+
+    const after = await exclusiveHolder();
+    if (after !== null) {
+      await fs.unlink(holderPath).catch(() => {});
+      throw new CoordinationError(
+        `Directory is exclusively claimed by agent ${after}`,
+        ErrorCode.WORK_ALREADY_IN_PROGRESS,
+        directory
+      );
+    }
+    await appendHistory(directory, { event: 'claimed', agentId: content.agentId, mode: 'shared', details: content.workDescription }, config);
+    await ensureGitIgnoreEntries(directory, config);
+
+    return content;
+  } catch (error) {
+    if (error instanceof CoordinationError) {
+      throw error;
+    }
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new CoordinationError(
+        `Directory not found: ${directory}`, 
+        ErrorCode.DIRECTORY_NOT_FOUND, 
+        directory
+      );
+    }
+    throw new CoordinationError(
+      `Failed to create shared claim: ${error}`,
+      ErrorCode.FILE_SYSTEM_ERROR,
+      directory
+    );
+  }
+}
+
+/**
+ * Release a shared claim held by an agent
+ */
+export async function releaseSharedClaim(directory: string, agentId: string, config: BeepBoopConfig): Promise<void> {
+  await removeSharedHolderFile(directory, agentId, config);
+  await appendHistory(directory, { event: 'released', agentId, mode: 'shared' }, config);
+}
+
+/**
+ * Delete a shared holder's file, removing the shared directory once empty
+ */
+async function removeSharedHolderFile(directory: string, agentId: string, config: BeepBoopConfig): Promise<void> {
+  let removed = false;
+  for (const holderPath of sharedHolderPaths(directory, agentId, config)) {
+    try {
+      await fs.unlink(holderPath);
+      removed = true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        continue;
+      }
+      throw new CoordinationError(
+        `Failed to release shared claim: ${error}`,
+        ErrorCode.FILE_SYSTEM_ERROR,
+        directory
+      );
+    }
+    // Remove the shared directory once the last holder leaves
+    await fs.rmdir(dirname(holderPath)).catch(() => {});
+  }
+  if (!removed) {
+    throw new CoordinationError(
+      `Agent ${agentId} does not hold a shared claim`,
+      ErrorCode.WORK_NOT_CLAIMED,
+      directory
+    );
+  }
+}
+
+/**
+ * Remove shared claims whose lease has expired
+ */
+export async function cleanupExpiredSharedClaims(directory: string, config: BeepBoopConfig): Promise<string[]> {
+  const removed: string[] = [];
+  for (const holder of await listSharedHolders(directory, config)) {
+    if (isLeaseExpired(holder.leaseExpiresAt)) {
+      try {
+        await removeSharedHolderFile(directory, holder.agentId, config);
+      } catch {
+        continue;
+      }
+      await appendHistory(directory, { event: 'stale_cleanup', agentId: holder.agentId, mode: 'shared', details: 'Shared claim lease expired' }, config);
+      removed.push(holder.agentId);
+    }
+  }
+  return removed;
+}
+
+/**
+ * Remove a claim that has run past the maximum work duration, whatever its
+ * lease says. Exclusive claims are backed up first like other cleanups.
+ * The claim is checked again under the directory lock and left alone,
+ * returning false, if it was released, replaced or renewed since it was
+ * listed; a renewed claim that is still too old is expired on a later check.
+ */
+export async function forceExpireClaim(directory: string, holder: ClaimHolder, config: BeepBoopConfig): Promise<boolean> {
+  const details = `Claim exceeded maximum work duration of ${config.maxWorkDurationHours} hours`;
+  return withCoordinationLock(directory, config, async () => {
+    const current = (await getWorkStatus(directory, config)).holders
+      .find(candidate => candidate.mode === holder.mode && candidate.agentId === holder.agentId);
+    if (
+      !current ||
+      current.fencingToken !== holder.fencingToken ||
+      current.startedAt?.getTime() !== holder.startedAt?.getTime() ||
+      current.leaseExpiresAt?.getTime() !== holder.leaseExpiresAt?.getTime()
+    ) {
+      return false;
+    }
+
+    if (holder.mode === 'shared') {
+      await removeSharedHolderFile(directory, holder.agentId, config);
+    } else {
+      await removeBoopFile(directory, config, `Claim by ${holder.agentId} force-expired`);
+    }
+    await appendHistory(directory, { event: 'stale_cleanup', agentId: holder.agentId, mode: holder.mode, details }, config);
+    return true;
+  });
+}
+
+/**
+ * Update the boop file of an existing claim held by the same agent
+ */
+export async function updateBoopFile(
+  directory: string,
+  agentId: string,
+  workDescription: string | undefined,
+  config: BeepBoopConfig,
+  fencingToken?: number
+): Promise<BoopFileContent> {
+  // Read and rewrite under the lock so a concurrent cleanup and re-claim cannot be overwritten
+  return withCoordinationLock(directory, config, async () => {
+    // Claims are updated where they live, including in the default layout
+    const boopPath = await locateCoordinationFile(directory, 'boop', config);
+    const existing = boopPath ? await getFileMetadata(boopPath) : null;
+  
+    if (!boopPath || !existing || !existing.content) {
+      throw new CoordinationError(
+        'Cannot update boop file: directory is not claimed',
+        ErrorCode.WORK_NOT_CLAIMED,
+        directory
+      );
+    }
+
+    const current = parseBoopContent(existing.content, existing.timestamp, directory);
+    if (current.agentId !== agentId.trim()) {
+      throw new CoordinationError(
+        `Cannot update boop file: work is claimed by different agent (${current.agentId} vs ${agentId})`,
+        ErrorCode.AGENT_MISMATCH,
+        directory
+      );
+    }
+    verifyFencingToken(current.fencingToken, fencingToken, directory);
+
+    const content: BoopFileContent = {
+      // The claim keeps its original start, so its age still counts from when it was taken
+      startedAt: current.startedAt,
+      agentId: agentId.trim(),
+      workDescription: workDescription || 'Work in progress',
+      leaseExpiresAt: computeLeaseExpiry(config.leaseDurationHours),
+      renewalCount: current.renewalCount ?? 0,
+      fencingToken: current.fencingToken,
+      transfers: current.transfers
+    };
+
+    try {
+      await writeFileAtomic(boopPath, serializeBoopFile(content), coordinationFileMode(config));
+    
+      // Ensure .gitignore entries if configured
+      await ensureGitIgnoreEntries(directory, config);
+    } catch (error) {
+      throw new CoordinationError(
+        `Failed to update boop file: ${error}`,
+        ErrorCode.FILE_SYSTEM_ERROR,
+        directory
+      );
+    }
+
+    await appendHistory(directory, {
+      event: 'updated',
+      agentId: content.agentId,
+      mode: 'exclusive',
+      fencingToken: content.fencingToken,
+      details: content.workDescription
+    }, config);
+
+    return content;
+  });
+}
+
+/**
+ * Extend the lease on a claim held by the given agent
+ */
+export async function renewBoopLease(
+  directory: string,
+  agentId: string,
+  leaseHours: number,
+  config: BeepBoopConfig,
+  fencingToken?: number
+): Promise<BoopFileContent> {
+  // Read and rewrite under the lock so a concurrent cleanup and re-claim cannot be overwritten
+  return withCoordinationLock(directory, config, async () => {
+    let boopPath = await locateCoordinationFile(directory, 'boop', config);
+    let existing = boopPath ? await getFileMetadata(boopPath) : null;
+
+    // Fall back to the agent's shared claim if it holds no exclusive claim
+    const ownsExclusive = existing?.content ? parseBoopContent(existing.content, existing.timestamp, directory).agentId === agentId.trim() : false;
+    if (!ownsExclusive) {
+      for (const holderPath of sharedHolderPaths(directory, agentId, config)) {
+        const shared = await getFileMetadata(holderPath);
+        if (shared?.content) {
+          boopPath = holderPath;
+          existing = shared;
+          break;
+        }
+      }
+    }
+  
+    if (!boopPath || !existing || !existing.content) {
+      throw new CoordinationError(
+        'Cannot renew lease: directory is not claimed',
+        ErrorCode.WORK_NOT_CLAIMED,
+        directory
+      );
+    }
+
+    const current = parseBoopContent(existing.content, existing.timestamp, directory);
+    if (current.agentId !== agentId.trim()) {
+      throw new CoordinationError(
+        `Cannot renew lease: work is claimed by different agent (${current.agentId} vs ${agentId})`,
+        ErrorCode.AGENT_MISMATCH,
+        directory
+      );
+    }
+    verifyFencingToken(current.fencingToken, fencingToken, directory);
+
+    const content: BoopFileContent = {
+      ...current,
+      leaseExpiresAt: computeLeaseExpiry(leaseHours),
+      renewalCount: (current.renewalCount ?? 0) + 1
+    };
+
+    try {
+      await writeFileAtomic(boopPath, serializeBoopFile(content), coordinationFileMode(config));
+    } catch (error) {
+      throw new CoordinationError(
+        `Failed to renew lease: ${error}`,
+        ErrorCode.FILE_SYSTEM_ERROR,
+        directory
+      );
+    }
+
+    return content;
+  });
+}
+
+/**
+ * Remove beep file from directory. Passing a backup reason backs up the
+ * coordination files first when backups are enabled.
+ */
+export async function removeBeepFile(directory: string, config: BeepBoopConfig, backupReason?: string): Promise<void> {
+  if (backupReason !== undefined) {
+    await backupCoordinationFiles(directory, backupReason, config);
+  }
+
+  // Remove the file from both layouts so a leftover copy cannot resurface
+  for (const beepPath of candidatePaths(directory, 'beep', config)) {
+    try {
+      await fs.unlink(beepPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // File doesn't exist, that's okay
+        continue;
+      }
+      
+      throw new CoordinationError(
+        `Failed to remove beep file: ${error}`, 
+        ErrorCode.FILE_SYSTEM_ERROR, 
+        directory
+      );
+    }
+  }
+}
+
+/**
+ * Remove boop file from directory. Passing a backup reason backs up the
+ * coordination files first when backups are enabled.
  */
-export async function removeBoopFile(directory: string): Promise<void> {
-  try {
-    const boopPath = join(directory, BOOP_FILE);
-    await fs.unlink(boopPath);
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      // File doesn't exist, that's okay
-      return;
+export async function removeBoopFile(directory: string, config: BeepBoopConfig, backupReason?: string): Promise<void> {
+  if (backupReason !== undefined) {
+    await backupCoordinationFiles(directory, backupReason, config);
+  }
+
+  // Remove the file from both layouts so a leftover copy cannot resurface
+  for (const boopPath of candidatePaths(directory, 'boop', config)) {
+    try {
+      await fs.unlink(boopPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // File doesn't exist, that's okay
+        continue;
+      }
+      
+      throw new CoordinationError(
+        `Failed to remove boop file: ${error}`, 
+        ErrorCode.FILE_SYSTEM_ERROR, 
+        directory
+      );
     }
-    
-    throw new CoordinationError(
-      `Failed to remove boop file: ${error}`, 
-      ErrorCode.FILE_SYSTEM_ERROR, 
-      directory
-    );
   }
 }
 
 /**
  * Get comprehensive status of work coordination files
  */
-export async function getWorkStatus(directory: string): Promise<WorkStatus> {
+export async function getWorkStatus(directory: string, config: BeepBoopConfig): Promise<WorkStatus> {
   try {
     // Verify directory exists
     await fs.access(directory);
@@ -250,40 +887,71 @@ export async function getWorkStatus(directory: string): Promise<WorkStatus> {
     );
   }
 
-  const beepExists = await checkBeepExists(directory);
-  const boopExists = await checkBoopExists(directory);
+  const beepPath = await locateCoordinationFile(directory, 'beep', config);
+  const boopPath = await locateCoordinationFile(directory, 'boop', config);
+  const beepExists = beepPath !== null;
+  const boopExists = boopPath !== null;
   
   // Get file metadata if files exist
   let beepTimestamp: Date | undefined;
   let boopTimestamp: Date | undefined;
   let agentId: string | undefined;
+  let leaseExpiresAt: Date | undefined;
+  let fencingToken: number | undefined;
+  const holders: ClaimHolder[] = [];
+  const corruptFiles: string[] = [];
 
-  if (beepExists) {
-    const beepMeta = await getFileMetadata(join(directory, BEEP_FILE));
+  // Legacy files are decoded in memory only; they are rewritten in the current
+  // schema by the write paths of the agent that owns them
+  if (beepPath) {
+    const beepMeta = await getFileMetadata(beepPath);
     if (beepMeta) {
       beepTimestamp = beepMeta.timestamp;
+      try {
+        decodeBeepFile(beepMeta.content ?? '', beepMeta.timestamp);
+      } catch (error) {
+        corruptFiles.push(corruptFileError('beep', error).message);
+      }
     }
   }
 
-  if (boopExists) {
-    const boopMeta = await getFileMetadata(join(directory, BOOP_FILE));
-    if (boopMeta && boopMeta.content) {
+  if (boopPath) {
+    const boopMeta = await getFileMetadata(boopPath);
+    if (boopMeta) {
       boopTimestamp = boopMeta.timestamp;
       try {
-        const boopContent = parseBoopContent(boopMeta.content);
+        const boopContent = decodeBoopFile(boopMeta.content ?? '', boopMeta.timestamp).content;
         agentId = boopContent.agentId;
-      } catch {
-        // Fallback to extracting first line as agent ID
-        agentId = boopMeta.content.split('\n')[0]?.trim() || 'unknown';
+        leaseExpiresAt = boopContent.leaseExpiresAt;
+        fencingToken = boopContent.fencingToken;
+        holders.push({
+          agentId: boopContent.agentId,
+          mode: 'exclusive',
+          startedAt: boopContent.startedAt,
+          leaseExpiresAt: boopContent.leaseExpiresAt,
+          workDescription: boopContent.workDescription,
+          fencingToken: boopContent.fencingToken
+        });
+      } catch (error) {
+        corruptFiles.push(corruptFileError('boop', error).message);
       }
     }
   }
 
+  const sharedHolders = await listSharedHolders(directory, config);
+  holders.push(...sharedHolders);
+
   // Determine work state and details
   let status: WorkState;
   let details: string;
 
-  if (beepExists && !boopExists) {
+  if (corruptFiles.length > 0) {
+    status = WorkState.CORRUPT_FILE;
+    details = `${corruptFiles.join('. ')}. Inspect and fix or remove the file before continuing.`;
+  } else if (sharedHolders.length > 0 && !boopExists) {
+    status = WorkState.SHARED_IN_PROGRESS;
+    details = `Shared access held by ${sharedHolders.length} agent${sharedHolders.length !== 1 ? 's' : ''}: ${sharedHolders.map(holder => holder.agentId).join(', ')}. Shared claims allowed; exclusive claims blocked.`;
+  } else if (beepExists && !boopExists) {
     status = WorkState.WORK_ALLOWED;
     details = 'Work is complete and cleared. New work can begin.';
   } else if (boopExists && !beepExists) {
@@ -297,7 +965,7 @@ export async function getWorkStatus(directory: string): Promise<WorkStatus> {
   } else {
     // Both files exist - invalid state
     status = WorkState.INVALID_STATE;
-    details = 'Invalid state: both beep and boop files exist. Manual cleanup required.';
+    details = 'Invalid state: both beep and boop files exist. Use repair_state to resolve.';
   }
 
   return {
@@ -308,53 +976,484 @@ export async function getWorkStatus(directory: string): Promise<WorkStatus> {
     details,
     agentId,
     beepTimestamp,
-    boopTimestamp
+    boopTimestamp,
+    leaseExpiresAt,
+    fencingToken,
+    holders,
+    corruptFiles: corruptFiles.length > 0 ? corruptFiles : undefined
   };
 }
 
+/**
+ * Compare a directory's beep, boop and shared claim files with the configured
+ * file permissions, returning one warning per mismatched file
+ */
+export async function checkCoordinationFilePermissions(directory: string, config: BeepBoopConfig): Promise<string[]> {
+  const expected = formatFileMode(coordinationFileMode(config));
+  const files: string[] = [];
+  for (const kind of ['beep', 'boop'] as const) {
+    files.push(...candidatePaths(directory, kind, config));
+  }
+  for (const sharedDir of candidatePaths(directory, 'sharedDir', config)) {
+    const entries = await fs.readdir(sharedDir).catch(() => [] as string[]);
+    files.push(...entries.filter(f => f.endsWith('.json')).map(f => join(sharedDir, f)));
+  }
+
+  const warnings: string[] = [];
+  for (const file of files) {
+    try {
+      const actual = formatFileMode((await fs.stat(file)).mode);
+      if (actual !== expected) {
+        warnings.push(`${file} is ${actual}, expected ${expected}`);
+      }
+    } catch {
+      // Missing files have no permissions to check
+    }
+  }
+  return warnings;
+}
+
 /**
  * Atomically end work by removing boop file and creating beep file
  */
 export async function endWorkAtomically(
   directory: string, 
   expectedAgentId: string, 
-  message?: string,
-  config?: BeepBoopConfig
+  message: string | undefined,
+  config: BeepBoopConfig,
+  fencingToken?: number
 ): Promise<void> {
-  // First verify the current state
-  const currentStatus = await getWorkStatus(directory);
+  // Verify and swap under the lock so the claim checked is the claim released
+  return withCoordinationLock(directory, config, async () => {
+    // First verify the current state
+    const currentStatus = await getWorkStatus(directory, config);
   
-  if (currentStatus.status !== WorkState.WORK_IN_PROGRESS) {
-    throw new CoordinationError(
-      'Cannot end work: no work is currently in progress', 
-      ErrorCode.WORK_NOT_CLAIMED, 
-      directory
-    );
+    if (currentStatus.status === WorkState.CORRUPT_FILE) {
+      throw new CoordinationError(currentStatus.details, ErrorCode.CORRUPT_FILE, directory);
+    }
+
+    if (currentStatus.status !== WorkState.WORK_IN_PROGRESS) {
+      throw new CoordinationError(
+        'Cannot end work: no work is currently in progress', 
+        ErrorCode.WORK_NOT_CLAIMED, 
+        directory
+      );
+    }
+
+    if (currentStatus.agentId && currentStatus.agentId !== expectedAgentId) {
+      throw new CoordinationError(
+        `Cannot end work: work is claimed by different agent (${currentStatus.agentId} vs ${expectedAgentId})`, 
+        ErrorCode.AGENT_MISMATCH, 
+        directory
+      );
+    }
+
+    verifyFencingToken(currentStatus.fencingToken, fencingToken, directory);
+
+    // Rename the beep file into place before removing the boop file, so a crash
+    // part-way through leaves both files (INVALID_STATE) rather than neither
+    const paths = resolveCoordinationPaths(directory, config);
+    const beepPath = paths.beep;
+    const content: BeepFileContent = {
+      completedAt: new Date(),
+      message: message || 'Work completed',
+      completedBy: expectedAgentId,
+      fencingToken: currentStatus.fencingToken
+    };
+
+    // Back up the claim before the beep lands, so restoring it undoes end_work
+    await backupCoordinationFiles(directory, `Work ended by ${expectedAgentId}`, config);
+
+    try {
+      await ensureMetadataDir(paths);
+      await writeFileAtomic(beepPath, serializeBeepFile(content), coordinationFileMode(config));
+    } catch (error) {
+      throw new CoordinationError(
+        `Failed to create beep file: ${error}`, 
+        ErrorCode.FILE_SYSTEM_ERROR, 
+        directory
+      );
+    }
+
+    try {
+      await removeBoopFile(directory, config);
+    } catch (error) {
+      // Boop could not be removed - roll back the beep so the claim stays intact
+      await fs.unlink(beepPath).catch(() => {});
+      throw error;
+    }
+    await appendHistory(directory, {
+      event: 'completed',
+      agentId: expectedAgentId,
+      fencingToken: currentStatus.fencingToken,
+      details: content.message
+    }, config);
+
+    // Ensure .gitignore entries if configured
+    await ensureGitIgnoreEntries(directory, config);
+  });
+}
+
+/**
+ * Hand an exclusive claim from one agent to another in a single rewrite of
+ * the boop file, so the directory is never unclaimed in between. The owner
+ * and fencing token are checked as in endWorkAtomically; startedAt and the
+ * fencing token carry over and the handoff is appended to the boop content.
+ */
+export async function transferClaim(
+  directory: string,
+  fromAgentId: string,
+  toAgentId: string,
+  fencingToken: number | undefined,
+  reason: string | undefined,
+  config: BeepBoopConfig
+): Promise<BoopFileContent> {
+  // Read and rewrite under the lock so a concurrent cleanup and re-claim cannot be overwritten
+  return withCoordinationLock(directory, config, async () => {
+    const currentStatus = await getWorkStatus(directory, config);
+  
+    if (currentStatus.status === WorkState.CORRUPT_FILE) {
+      throw new CoordinationError(currentStatus.details, ErrorCode.CORRUPT_FILE, directory);
+    }
+
+    if (currentStatus.status !== WorkState.WORK_IN_PROGRESS) {
+      throw new CoordinationError(
+        'Cannot transfer claim: no work is currently in progress',
+        ErrorCode.WORK_NOT_CLAIMED,
+        directory
+      );
+    }
+
+    if (currentStatus.agentId && currentStatus.agentId !== fromAgentId) {
+      throw new CoordinationError(
+        `Cannot transfer claim: work is claimed by different agent (${currentStatus.agentId} vs ${fromAgentId})`,
+        ErrorCode.AGENT_MISMATCH,
+        directory
+      );
+    }
+
+    verifyFencingToken(currentStatus.fencingToken, fencingToken, directory);
+
+    const boopPath = await locateCoordinationFile(directory, 'boop', config);
+    const existing = boopPath ? await getFileMetadata(boopPath) : null;
+    if (!boopPath || !existing?.content) {
+      throw new CoordinationError(
+        'Cannot transfer claim: directory is not claimed',
+        ErrorCode.WORK_NOT_CLAIMED,
+        directory
+      );
+    }
+    const current = parseBoopContent(existing.content, existing.timestamp, directory);
+
+    const content: BoopFileContent = {
+      ...current,
+      agentId: toAgentId.trim(),
+      leaseExpiresAt: computeLeaseExpiry(config.leaseDurationHours),
+      transfers: [
+        ...(current.transfers ?? []),
+        { fromAgentId, toAgentId: toAgentId.trim(), transferredAt: new Date(), reason }
+      ]
+    };
+
+    try {
+      await writeFileAtomic(boopPath, serializeBoopFile(content), coordinationFileMode(config));
+    } catch (error) {
+      throw new CoordinationError(
+        `Failed to transfer claim: ${error}`,
+        ErrorCode.FILE_SYSTEM_ERROR,
+        directory
+      );
+    }
+    await appendHistory(directory, {
+      event: 'transferred',
+      agentId: content.agentId,
+      previousAgentId: fromAgentId,
+      fencingToken: content.fencingToken,
+      details: reason
+    }, config);
+
+    return content;
+  });
+}
+
+/**
+ * Claim several directories for one agent, all or nothing. If any directory is
+ * blocked or already claimed, boops created earlier in the batch are removed
+ * and any beep files they replaced are restored.
+ */
+export async function claimManyAtomically(
+  directories: string[],
+  agentId: string,
+  workDescription: string | undefined,
+  config: BeepBoopConfig
+): Promise<{ success: boolean; results: DirectoryOperationResult[] }> {
+  const results: DirectoryOperationResult[] = directories.map(directory => ({ directory, outcome: 'not_attempted' }));
+  const created: Array<{ index: number; replacedBeep?: { path: string; content: string } }> = [];
+
+  const fail = (index: number, error: unknown) => {
+    results[index].outcome = 'failed';
+    results[index].error = error instanceof Error ? error.message : String(error);
+    results[index].errorCode = error instanceof CoordinationError ? error.code : ErrorCode.FILE_SYSTEM_ERROR;
+  };
+
+  // Check access for every directory before touching the filesystem
+  for (let i = 0; i < directories.length; i++) {
+    try {
+      validateDirectoryAccess(directories[i], config);
+    } catch (error) {
+      fail(i, error);
+      return { success: false, results };
+    }
   }
 
-  if (currentStatus.agentId && currentStatus.agentId !== expectedAgentId) {
-    throw new CoordinationError(
-      `Cannot end work: work is claimed by different agent (${currentStatus.agentId} vs ${expectedAgentId})`, 
-      ErrorCode.AGENT_MISMATCH, 
-      directory
-    );
+  for (let i = 0; i < directories.length; i++) {
+    const directory = directories[i];
+    try {
+      const status = await getWorkStatus(directory, config);
+
+      if (status.status === WorkState.WORK_IN_PROGRESS) {
+        if (status.agentId !== agentId.trim()) {
+          throw new CoordinationError(
+            `Directory is already claimed by agent ${status.agentId}`,
+            ErrorCode.WORK_ALREADY_IN_PROGRESS,
+            directory
+          );
+        }
+        results[i].outcome = 'already_held';
+        results[i].fencingToken = status.fencingToken;
+        continue;
+      }
+
+      if (status.status === WorkState.INVALID_STATE) {
+        throw new CoordinationError(
+          'Directory is in an invalid state (both beep and boop exist)',
+          ErrorCode.INVALID_STATE,
+          directory
+        );
+      }
+
+      if (status.status === WorkState.CORRUPT_FILE) {
+        throw new CoordinationError(status.details, ErrorCode.CORRUPT_FILE, directory);
+      }
+
+      if (config.nestedClaimPolicy !== 'off') {
+        const conflicts = await findNestedClaims(directory, agentId, config);
+        if (conflicts.length > 0) {
+          if (config.nestedClaimPolicy === 'block') {
+            throw new CoordinationError(
+              `Overlapping claims exist:\n${describeClaimConflicts(conflicts)}`,
+              ErrorCode.NESTED_CLAIM_CONFLICT,
+              directory
+            );
+          }
+          results[i].conflicts = conflicts;
+        }
+      }
+
+      let replacedBeep: { path: string; content: string } | undefined;
+      const beepPath = status.beepExists ? await locateCoordinationFile(directory, 'beep', config) : null;
+      if (beepPath) {
+        const beepContent = (await getFileMetadata(beepPath))?.content;
+        replacedBeep = beepContent !== undefined ? { path: beepPath, content: beepContent } : undefined;
+        await removeBeepFile(directory, config, `Beep replaced by claim_many for ${agentId}`);
+      }
+
+      try {
+        const claim = await createBoopFile(directory, agentId, workDescription, config);
+        created.push({ index: i, replacedBeep });
+        results[i].outcome = 'claimed';
+        results[i].fencingToken = claim.fencingToken;
+      } catch (error) {
+        if (replacedBeep !== undefined) {
+          await writeFileAtomic(replacedBeep.path, replacedBeep.content, coordinationFileMode(config)).catch(() => {});
+        }
+        throw error;
+      }
+    } catch (error) {
+      fail(i, error);
+
+      // Roll back everything claimed so far in this batch
+      for (const { index, replacedBeep } of created.reverse()) {
+        const rollbackDir = directories[index];
+        try {
+          await removeBoopFile(rollbackDir, config);
+          if (replacedBeep !== undefined) {
+            await writeFileAtomic(replacedBeep.path, replacedBeep.content, coordinationFileMode(config));
+          }
+          await appendHistory(rollbackDir, {
+            event: 'released',
+            agentId,
+            fencingToken: results[index].fencingToken,
+            details: 'Rolled back by claim_many'
+          }, config);
+          results[index].outcome = 'rolled_back';
+        } catch (rollbackError) {
+          results[index].error = `Rollback failed: ${rollbackError}`;
+        }
+      }
+      return { success: false, results };
+    }
   }
 
-  // Remove boop file first, then create beep file
-  try {
-    await removeBoopFile(directory);
-    await createBeepFile(directory, message, expectedAgentId, config);
-  } catch (error) {
-    // If beep creation fails after boop removal, try to restore boop file
+  return { success: true, results };
+}
+
+/**
+ * End work in several directories for one agent. Every claim is verified
+ * before any is released, so a mismatch leaves all claims in place.
+ */
+export async function endWorkMany(
+  claims: Array<{ directory: string; fencingToken?: number }>,
+  agentId: string,
+  message: string | undefined,
+  config: BeepBoopConfig
+): Promise<{ success: boolean; results: DirectoryOperationResult[] }> {
+  const results: DirectoryOperationResult[] = claims.map(({ directory, fencingToken }) => ({ directory, outcome: 'not_attempted', fencingToken }));
+  let success = true;
+
+  for (let i = 0; i < claims.length; i++) {
+    const { directory, fencingToken } = claims[i];
+    try {
+      validateDirectoryAccess(directory, config);
+      const status = await getWorkStatus(directory, config);
+      if (status.status !== WorkState.WORK_IN_PROGRESS) {
+        throw new CoordinationError('No work is currently in progress', ErrorCode.WORK_NOT_CLAIMED, directory);
+      }
+      if (status.agentId && status.agentId !== agentId) {
+        throw new CoordinationError(
+          `Work is claimed by different agent (${status.agentId} vs ${agentId})`,
+          ErrorCode.AGENT_MISMATCH,
+          directory
+        );
+      }
+      verifyFencingToken(status.fencingToken, fencingToken, directory);
+    } catch (error) {
+      results[i].outcome = 'failed';
+      results[i].error = error instanceof Error ? error.message : String(error);
+      results[i].errorCode = error instanceof CoordinationError ? error.code : ErrorCode.FILE_SYSTEM_ERROR;
+      success = false;
+    }
+  }
+
+  if (!success) {
+    return { success, results };
+  }
+
+  for (let i = 0; i < claims.length; i++) {
+    const { directory, fencingToken } = claims[i];
+    try {
+      await endWorkAtomically(directory, agentId, message, config, fencingToken);
+      results[i].outcome = 'completed';
+    } catch (error) {
+      results[i].outcome = 'failed';
+      results[i].error = error instanceof Error ? error.message : String(error);
+      results[i].errorCode = error instanceof CoordinationError ? error.code : ErrorCode.FILE_SYSTEM_ERROR;
+      success = false;
+    }
+  }
+
+  return { success, results };
+}
+
+/**
+ * Find the repository root containing a directory (the nearest ancestor with a .git entry)
+ */
+export async function findRepoRoot(directory: string): Promise<string | null> {
+  let current = resolve(directory);
+  
+  while (true) {
     try {
-      await createBoopFile(directory, expectedAgentId, 'Work restoration after failure', config);
+      await fs.access(join(current, '.git'));
+      return current;
     } catch {
-      // Best effort restoration failed
+      const parent = dirname(current);
+      if (parent === current) {
+        return null;
+      }
+      current = parent;
     }
-    throw error;
   }
 }
 
+/**
+ * Find claims held by other agents in ancestor directories (up to the repo root)
+ * and descendant directories of the given directory. Shared holders count too:
+ * only a shared claim next to other shared claims does not conflict.
+ */
+export async function findNestedClaims(
+  directory: string,
+  agentId: string,
+  config: BeepBoopConfig,
+  mode: ClaimMode = 'exclusive'
+): Promise<ClaimConflict[]> {
+  const conflicts: ClaimConflict[] = [];
+  const target = resolve(directory);
+  const repoRoot = await findRepoRoot(target);
+
+  const inspect = async (candidate: string, relation: ClaimConflict['relation']) => {
+    const status = await getWorkStatus(candidate, config);
+    if (status.boopExists && !status.holders.some(holder => holder.mode === 'exclusive')) {
+      // A corrupt boop still claims the directory, for an agent nobody can tell
+      conflicts.push({ directory: candidate, relation, mode: 'exclusive', stale: false });
+    }
+    for (const holder of status.holders) {
+      if (holder.agentId === agentId.trim() || (mode === 'shared' && holder.mode === 'shared')) {
+        continue;
+      }
+      conflicts.push({
+        directory: candidate,
+        relation,
+        agentId: holder.agentId,
+        mode: holder.mode,
+        stale: holder.mode === 'exclusive' ? isClaimStale(status, config.defaultMaxAgeHours) : isLeaseExpired(holder.leaseExpiresAt)
+      });
+    }
+  };
+
+  // Walk up towards the repository root (or filesystem root outside a repo)
+  let current = target;
+  while (current !== repoRoot) {
+    const parent = dirname(current);
+    if (parent === current) {
+      break;
+    }
+    current = parent;
+    await inspect(current, 'ancestor');
+  }
+
+  // Walk down through subdirectories, skipping .gitignored paths and reading
+  // the status only of directories that hold coordination files
+  await walkCoordinatedDirectories(target, config, NESTED_SCAN_MAX_DEPTH, async candidate => {
+    if (candidate !== target) {
+      await inspect(candidate, 'descendant');
+    }
+  });
+
+  return conflicts;
+}
+
+/**
+ * Describe nested claim conflicts for tool responses
+ */
+export function describeClaimConflicts(conflicts: ClaimConflict[]): string {
+  return conflicts
+    .map(conflict => `• ${conflict.relation} ${conflict.directory} claimed by ${conflict.agentId || 'unknown'}${conflict.mode === 'shared' ? ' (shared)' : ''}${conflict.stale ? ' (stale)' : ''}`)
+    .join('\n');
+}
+
+/**
+ * Format every current holder of a directory, one per line
+ */
+export function formatHolders(status: WorkStatus): string {
+  return status.holders
+    .map(holder => {
+      const lease = holder.leaseExpiresAt ? `, lease until ${holder.leaseExpiresAt.toISOString()}` : '';
+      const work = holder.workDescription ? ` - ${holder.workDescription}` : '';
+      return `• ${holder.agentId} (${holder.mode}${lease})${work}`;
+    })
+    .join('\n');
+}
+
 /**
  * Check if a file is stale based on age threshold
  */
@@ -365,6 +1464,17 @@ export function isFileStale(timestamp: Date, maxAgeHours: number = 24): boolean
   return ageInMs > maxAgeMs;
 }
 
+/**
+ * Check if a claim is stale. An explicit lease takes precedence over the
+ * boop file's modification time: an expired lease is always stale.
+ */
+export function isClaimStale(status: WorkStatus, maxAgeHours: number = 24): boolean {
+  if (status.leaseExpiresAt && !isNaN(status.leaseExpiresAt.getTime())) {
+    return status.leaseExpiresAt.getTime() <= Date.now();
+  }
+  return status.boopTimestamp ? isFileStale(status.boopTimestamp, maxAgeHours) : false;
+}
+
 /**
  * Get human-readable age description
  */
@@ -386,24 +1496,45 @@ export function getFileAgeDescription(timestamp: Date): string {
 }
 
 /**
- * Clean up stale boop file and optionally claim with new agent
+ * Clean up stale boop file and optionally claim with new agent. The claim is
+ * checked again under the directory lock, so one renewed or replaced since
+ * the caller read it is left in place.
  */
 export async function cleanupStaleBoopAndClaim(
   directory: string,
   staleAgentId: string,
-  newAgentId?: string,
-  workDescription?: string
+  newAgentId: string | undefined,
+  workDescription: string | undefined,
+  config: BeepBoopConfig,
+  maxAgeHours: number = config.defaultMaxAgeHours
 ): Promise<{ cleanedUp: boolean; claimed: boolean; message: string }> {
   try {
-    // Remove the stale boop file
-    await removeBoopFile(directory);
+    await withCoordinationLock(directory, config, async () => {
+      const status = await getWorkStatus(directory, config);
+      if (!status.boopExists) {
+        throw new CoordinationError(
+          `Stale claim by agent ${staleAgentId} was already removed`,
+          ErrorCode.WORK_NOT_CLAIMED,
+          directory
+        );
+      }
+      if ((status.agentId || 'unknown') !== staleAgentId || !isClaimStale(status, maxAgeHours)) {
+        throw new CoordinationError(
+          `Claim by agent ${status.agentId || 'unknown'} is no longer stale (it was renewed or replaced)`,
+          ErrorCode.WORK_ALREADY_IN_PROGRESS,
+          directory
+        );
+      }
+      await removeBoopFile(directory, config, `Stale claim by ${staleAgentId} cleaned up`);
+    });
+    await appendHistory(directory, { event: 'stale_cleanup', agentId: staleAgentId, details: 'Stale claim removed' }, config);
     
     let claimed = false;
     let message = `🧹 Cleaned up stale boop file from agent "${staleAgentId}"`;
     
     // If new agent info provided, claim the directory
     if (newAgentId && validateAgentId(newAgentId)) {
-      await createBoopFile(directory, newAgentId, workDescription || 'Claimed after stale cleanup');
+      await createBoopFile(directory, newAgentId, workDescription || 'Claimed after stale cleanup', config);
       claimed = true;
       message += ` and claimed for agent "${newAgentId}"`;
     }
@@ -415,6 +1546,9 @@ export async function cleanupStaleBoopAndClaim(
     };
     
   } catch (error) {
+    if (error instanceof CoordinationError) {
+      throw error;
+    }
     throw new CoordinationError(
       `Failed to cleanup stale boop file: ${error}`,
       ErrorCode.FILE_SYSTEM_ERROR,
@@ -423,6 +1557,120 @@ export async function cleanupStaleBoopAndClaim(
   }
 }
 
+/**
+ * Work out how to resolve a directory holding both beep and boop files.
+ * A beep that records the boop's fencing token completed that claim (the
+ * boop removal failed), so the beep wins. Otherwise a boop whose agent is
+ * still active is kept, and failing that the newer file wins.
+ */
+export async function proposeStateRepair(directory: string, maxAgeHours: number, config: BeepBoopConfig): Promise<RepairProposal> {
+  const status = await getWorkStatus(directory, config);
+  if (status.status !== WorkState.INVALID_STATE) {
+    throw new CoordinationError(
+      `Cannot repair: directory is not in an invalid state (${status.status})`,
+      ErrorCode.INVALID_STATE,
+      directory
+    );
+  }
+
+  const beepPath = await locateCoordinationFile(directory, 'beep', config);
+  const boopPath = await locateCoordinationFile(directory, 'boop', config);
+  const beepMeta = beepPath ? await getFileMetadata(beepPath) : null;
+  const boopMeta = boopPath ? await getFileMetadata(boopPath) : null;
+  if (!beepMeta || !boopMeta) {
+    throw new CoordinationError(
+      'Cannot repair: beep or boop file disappeared while reading',
+      ErrorCode.FILE_SYSTEM_ERROR,
+      directory
+    );
+  }
+
+  const beep = parseBeepContent(beepMeta.content || '', beepMeta.timestamp, directory);
+  const boop = parseBoopContent(boopMeta.content || '', boopMeta.timestamp, directory);
+  const boopActive = !isClaimStale(status, maxAgeHours);
+
+  let keep: RepairProposal['keep'];
+  let reason: string;
+  if (beep.fencingToken !== undefined && boop.fencingToken !== undefined && beep.fencingToken >= boop.fencingToken) {
+    keep = 'beep';
+    reason = `beep records completion of claim ${beep.fencingToken}, so the boop is left over from an interrupted end_work`;
+  } else if (boopActive) {
+    keep = 'boop';
+    reason = `agent ${boop.agentId} still holds an active claim`;
+  } else if (boopMeta.timestamp.getTime() >= beepMeta.timestamp.getTime()) {
+    keep = 'boop';
+    reason = 'boop file is newer than beep file';
+  } else {
+    keep = 'beep';
+    reason = `beep file is newer than boop file and agent ${boop.agentId}'s claim is stale`;
+  }
+
+  return {
+    directory,
+    keep,
+    reason,
+    beep,
+    beepTimestamp: beepMeta.timestamp,
+    boop,
+    boopTimestamp: boopMeta.timestamp,
+    boopActive
+  };
+}
+
+/**
+ * Resolve an invalid state by keeping one file: the given one, or the one
+ * proposeStateRepair picks. The proposal is worked out again under the
+ * directory lock, so the files removed are the files it looked at. The
+ * discarded file is copied into the repair archive directory first.
+ */
+export async function applyStateRepair(
+  directory: string,
+  keep: RepairProposal['keep'] | undefined,
+  maxAgeHours: number,
+  config: BeepBoopConfig
+): Promise<{ proposal: RepairProposal; kept: RepairProposal['keep']; archivePath: string }> {
+  return withCoordinationLock(directory, config, async () => {
+    const proposal = await proposeStateRepair(directory, maxAgeHours, config);
+    const kept = keep ?? proposal.keep;
+    const discarded = kept === 'beep' ? 'boop' : 'beep';
+    const discardedPath = await locateCoordinationFile(directory, discarded, config);
+    const archiveDir = resolveCoordinationPaths(directory, config).repairDir;
+    const archivePath = join(archiveDir, `${discarded}-${new Date().toISOString().replace(/[:.]/g, '-')}`);
+
+    await backupCoordinationFiles(directory, `repair_state kept ${kept}, discarding ${discarded}`, config);
+
+    try {
+      if (!discardedPath) {
+        throw new Error('file disappeared');
+      }
+      await fs.mkdir(archiveDir, { recursive: true });
+      await fs.copyFile(discardedPath, archivePath);
+    } catch (error) {
+      throw new CoordinationError(
+        `Failed to keep a copy of the ${discarded} file: ${error}`,
+        ErrorCode.FILE_SYSTEM_ERROR,
+        directory
+      );
+    }
+
+    if (kept === 'beep') {
+      await removeBoopFile(directory, config);
+    } else {
+      await removeBeepFile(directory, config);
+    }
+    await appendHistory(directory, {
+      event: 'repaired',
+      agentId: proposal.boop.agentId || 'unknown',
+      fencingToken: proposal.boop.fencingToken,
+      details: `Kept ${kept}; discarded ${discarded} saved to ${archivePath}`
+    }, config);
+
+    await ensureGitIgnoreEntries(directory, config);
+
+    return { proposal, kept, archivePath };
+  });
+}
+
 /**
  * Validate agent ID format with configuration
  */
@@ -501,14 +1749,13 @@ export async function ensureGitIgnoreEntries(
       }
     }
 
-    // Check if entries already exist
+    // Check if entries already exist (the set depends on the configured layout)
     const lines = gitignoreContent.split('\n');
-    const hasBeepEntry = lines.some(line => line.trim() === BEEP_FILE);
-    const hasBoopEntry = lines.some(line => line.trim() === BOOP_FILE);
-    const hasInboxEntry = lines.some(line => line.trim() === '.beep-boop-inbox/');
+    const missingEntries = [...gitIgnoreEntries(config), '.beep-boop-inbox/']
+      .filter(entry => !lines.some(line => line.trim() === entry));
     const hasSection = lines.some(line => line.includes('# Beep/Boop coordination files'));
     
-    if (hasBeepEntry && hasBoopEntry && hasInboxEntry) {
+    if (missingEntries.length === 0) {
       return false; // Already configured
     }
 
@@ -523,17 +1770,7 @@ export async function ensureGitIgnoreEntries(
       entriesToAdd.push('# Beep/Boop coordination files');
     }
     
-    if (!hasBeepEntry) {
-      entriesToAdd.push(BEEP_FILE);
-    }
-    
-    if (!hasBoopEntry) {
-      entriesToAdd.push(BOOP_FILE);
-    }
-
-    if (!hasInboxEntry) {
-      entriesToAdd.push('.beep-boop-inbox/');
-    }
+    entriesToAdd.push(...missingEntries);
 
     if (entriesToAdd.length === 0) {
       return false; // Nothing to add
@@ -0,0 +1,117 @@
+/**
+ * Per-directory history of coordination events, stored as JSONL
+ */
+
+import { promises as fs } from 'fs';
+import { HistoryEntry } from './types.js';
+import { resolveCoordinationPaths, candidatePaths, ensureMetadataDir, LayoutConfig } from './coordination-layout.js';
+import { BeepBoopConfig, parseFileMode } from './config.js';
+import { recordCoordinationEvent } from './metrics.js';
+
+/** Filters applied when reading history */
+export interface HistoryFilter {
+  agentId?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * Append an event to a directory's history. History is advisory, so a
+ * failed write never fails the coordination operation that triggered it.
+ * A new history file gets the configured file permissions.
+ */
+export async function appendHistory(
+  directory: string,
+  entry: Omit<HistoryEntry, 'timestamp'>,
+  config: LayoutConfig & Pick<BeepBoopConfig, 'filePermissions'>
+): Promise<void> {
+  recordCoordinationEvent(entry.event, entry.mode);
+  const line = JSON.stringify({ timestamp: new Date(), ...entry });
+  try {
+    const paths = resolveCoordinationPaths(directory, config);
+    await ensureMetadataDir(paths);
+    const mode = parseFileMode(config.filePermissions);
+    try {
+      await fs.writeFile(paths.history, `${line}\n`, { flag: 'wx', mode });
+      // The create mode is narrowed by the umask, so set it explicitly
+      await fs.chmod(paths.history, mode);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      await fs.appendFile(paths.history, `${line}\n`);
+    }
+  } catch {
+    // Ignore - the directory may be read-only or already removed
+  }
+}
+
+/**
+ * Read a directory's history, oldest first. Lines that cannot be parsed are skipped.
+ * History written under the default layout is merged in after a layout change.
+ */
+export async function readHistory(directory: string, config: LayoutConfig, filter: HistoryFilter = {}): Promise<HistoryEntry[]> {
+  let raw = '';
+  for (const file of candidatePaths(directory, 'history', config)) {
+    try {
+      raw += `${await fs.readFile(file, 'utf8')}\n`;
+    } catch {
+      // Missing history file
+    }
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    const timestamp = new Date(parsed.timestamp);
+    if (Number.isNaN(timestamp.getTime()) || typeof parsed.event !== 'string' || typeof parsed.agentId !== 'string') {
+      continue;
+    }
+    const entry: HistoryEntry = { ...parsed, timestamp };
+
+    if (filter.agentId && entry.agentId !== filter.agentId && entry.previousAgentId !== filter.agentId) {
+      continue;
+    }
+    if (filter.since && timestamp < filter.since) {
+      continue;
+    }
+    if (filter.until && timestamp > filter.until) {
+      continue;
+    }
+    entries.push(entry);
+  }
+
+  entries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  return filter.limit !== undefined ? entries.slice(-filter.limit) : entries;
+}
+
+/**
+ * Format history entries for tool responses
+ */
+export function formatHistory(entries: HistoryEntry[]): string {
+  return entries.map(entry => {
+    let line = `${entry.timestamp.toISOString()} ${entry.event} by ${entry.agentId}`;
+    if (entry.previousAgentId) {
+      line += ` (from ${entry.previousAgentId})`;
+    }
+    if (entry.mode === 'shared') {
+      line += ' [shared]';
+    }
+    if (entry.fencingToken !== undefined) {
+      line += ` #${entry.fencingToken}`;
+    }
+    if (entry.details) {
+      line += ` - ${entry.details}`;
+    }
+    return line;
+  }).join('\n');
+}
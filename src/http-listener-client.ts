@@ -4,6 +4,7 @@
 
 import { BeepBoopConfig, loadConfig } from './config.js';
 import { randomUUID } from 'crypto';
+import { currentRequestId } from './audit-log.js';
 
 class Semaphore {
   private queue: Array<() => void> = [];
@@ -74,7 +75,8 @@ export class HttpListenerClient {
       const controller = new AbortController();
       const timeoutMs = timeoutOverrideMs ?? this.buildTimeoutMs(body);
       const timer = setTimeout(() => controller.abort(), timeoutMs);
-      const reqId = randomUUID();
+      // Reuse the audited tool call's ID so both audit records can be matched
+      const reqId = currentRequestId() ?? randomUUID();
 
       const res = await fetch(`${this.cfg.listenerBaseUrl.replace(/\/$/, '')}${path}`, {
         method: 'POST',
@@ -100,5 +102,13 @@ export class HttpListenerClient {
   }
 }
 
-export const listenerClient = new HttpListenerClient();
+export let listenerClient = new HttpListenerClient();
+
+/**
+ * Replace the shared client after a configuration reload. Requests already
+ * in flight finish on the old client.
+ */
+export function replaceListenerClient(cfg: BeepBoopConfig): void {
+  listenerClient = new HttpListenerClient(cfg);
+}
 
@@ -5,29 +5,107 @@
  * A Model Context Protocol server for monorepo work coordination using beep/boop files
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { resolve } from 'path';
 import {
   CreateBeepSchema,
   UpdateBoopSchema, 
   EndWorkSchema,
   CheckStatusSchema,
+  RenewBoopSchema,
+  ClaimManySchema,
+  EndWorkManySchema,
+  JoinQueueSchema,
+  TransferClaimSchema,
+  ListClaimsSchema,
+  RepairStateSchema,
+  GetHistorySchema,
+  RestoreBackupSchema,
+  QueryAuditLogSchema,
   handleCreateBeep,
   handleUpdateBoop,
   handleEndWork,
-  handleCheckStatus
+  handleCheckStatus,
+  handleRenewBoop,
+  handleClaimMany,
+  handleEndWorkMany,
+  handleJoinQueue,
+  handleTransferClaim,
+  handleListClaims,
+  handleRepairState,
+  handleGetHistory,
+  handleRestoreBackup,
+  handleQueryAuditLog
 } from './tools.js';
-import { loadConfig, printConfigSummary, BeepBoopConfig } from './config.js';
+import { loadConfig, checkConfig, printConfigSummary, isDirectoryAllowed, BeepBoopConfig } from './config.js';
+import { auditToolCall, describeAuditTarget } from './audit-log.js';
+import { DirectoryWatcher, STATUS_RESOURCE_TEMPLATE, statusResourceUri } from './directory-watcher.js';
+import { OperationLimiter } from './operation-lock.js';
+import { recordToolResult } from './metrics.js';
+import { getWorkStatus } from './file-operations.js';
+import { describeStaleRefusal, sweepStaleClaims } from './startup-sweep.js';
+import { CoordinationError, ErrorCode, ToolResponse } from './types.js';
 
 /**
- * Create and configure the MCP server
+ * Create and configure the MCP server. Without a config (because the
+ * configuration is invalid) watch mode is off and tools report the problem.
  */
-async function createServer(): Promise<McpServer> {
+async function createServer(config?: BeepBoopConfig): Promise<McpServer> {
   const server = new McpServer({
     name: 'beep-boop-coordination',
     version: '1.0.0'
   });
 
+  // In watch mode the directories named in tool calls are watched, and
+  // subscribers to a directory's status resource hear about every change
+  const subscriptions = new Set<string>();
+  const watcher = config?.watchMode
+    ? new DirectoryWatcher(config, directory => {
+        const uri = statusResourceUri(directory);
+        if (subscriptions.has(uri)) {
+          server.server.sendResourceUpdated({ uri }).catch(error => {
+            console.error(`⚠️ Failed to send resource update for ${uri}: ${error}`);
+          });
+        }
+      })
+    : undefined;
+
+  // Calls on the same or nested directories run one at a time, within a global limit
+  const limiter = config ? new OperationLimiter(config) : undefined;
+
+  /**
+   * Run a tool through the audit log once the limiter admits it, then watch
+   * the directories it touched
+   */
+  const runTool = async <P extends object>(operation: string, params: P, handler: (params: P) => Promise<ToolResponse>): Promise<ToolResponse> => {
+    const { directories } = describeAuditTarget(params);
+    const audited = () => auditToolCall(operation, params, handler, config);
+
+    let response: ToolResponse;
+    try {
+      response = limiter ? await limiter.run(directories, audited) : await audited();
+    } catch (error) {
+      if (error instanceof CoordinationError && error.code === ErrorCode.OPERATION_BUSY) {
+        // Never started, so there is nothing to audit, but the failure still counts
+        response = { content: [{ type: 'text', text: `❌ ${error.message} (${error.code})` }], isError: true };
+        recordToolResult(operation, response);
+        return response;
+      }
+      throw error;
+    }
+
+    if (watcher && config) {
+      for (const directory of directories) {
+        if (isDirectoryAllowed(directory, config)) {
+          watcher.watch(directory);
+        }
+      }
+    }
+    return response;
+  };
+
   /**
    * Tool: create_beep
    * Creates a beep file to signal work completion and clearance for new work
@@ -40,7 +118,7 @@ async function createServer(): Promise<McpServer> {
       inputSchema: CreateBeepSchema.shape
     },
     async (params) => {
-      return await handleCreateBeep(params);
+      return await runTool('create_beep', params, handleCreateBeep);
     }
   );
 
@@ -56,7 +134,7 @@ async function createServer(): Promise<McpServer> {
       inputSchema: UpdateBoopSchema.shape
     },
     async (params) => {
-      return await handleUpdateBoop(params);
+      return await runTool('update_boop', params, handleUpdateBoop);
     }
   );
 
@@ -72,7 +150,87 @@ async function createServer(): Promise<McpServer> {
       inputSchema: EndWorkSchema.shape
     },
     async (params) => {
-      return await handleEndWork(params);
+      return await runTool('end_work', params, handleEndWork);
+    }
+  );
+
+  /**
+   * Tool: renew_boop
+   * Extends the lease on an existing claim
+   */
+  server.registerTool(
+    'renew_boop',
+    {
+      title: 'Renew Boop Lease',
+      description: 'Extends the lease on a directory you have claimed. Call this periodically during long-running work so the claim is not treated as stale; expired leases are considered stale regardless of file age.',
+      inputSchema: RenewBoopSchema.shape
+    },
+    async (params) => {
+      return await runTool('renew_boop', params, handleRenewBoop);
+    }
+  );
+
+  /**
+   * Tool: transfer_claim
+   * Hands an existing claim to another agent
+   */
+  server.registerTool(
+    'transfer_claim',
+    {
+      title: 'Transfer Claim',
+      description: 'Hands a claimed directory from one agent to another in a single step, so no other agent can claim it in between. The current owner and fencing token are verified; the original start time and fencing token are kept and the handoff is recorded in the boop file.',
+      inputSchema: TransferClaimSchema.shape
+    },
+    async (params) => {
+      return await runTool('transfer_claim', params, handleTransferClaim);
+    }
+  );
+
+  /**
+   * Tool: claim_many
+   * Claims several directories at once (all or none)
+   */
+  server.registerTool(
+    'claim_many',
+    {
+      title: 'Claim Many Directories',
+      description: 'Claims several directories for one agent atomically. Either every directory is claimed or none are: if any directory is already claimed or blocked, claims made earlier in the batch are rolled back. Reports the outcome for each directory.',
+      inputSchema: ClaimManySchema.shape
+    },
+    async (params) => {
+      return await runTool('claim_many', params, handleClaimMany);
+    }
+  );
+
+  /**
+   * Tool: end_work_many
+   * Completes work in several directories at once
+   */
+  server.registerTool(
+    'end_work_many',
+    {
+      title: 'End Work In Many Directories',
+      description: 'Completes work in several directories claimed with claim_many. Every claim is verified (owner and fencing token) before any is released. Reports the outcome for each directory.',
+      inputSchema: EndWorkManySchema.shape
+    },
+    async (params) => {
+      return await runTool('end_work_many', params, handleEndWorkMany);
+    }
+  );
+
+  /**
+   * Tool: join_queue
+   * Waits in line for a claimed directory
+   */
+  server.registerTool(
+    'join_queue',
+    {
+      title: 'Join Directory Queue',
+      description: 'Joins the FIFO waitlist for a directory that is currently claimed. When the holder calls end_work the directory is reserved for the agent at the head of the queue for a grace period; claim it with update_boop within that window or you are dropped from the queue. Use check_status to see your position.',
+      inputSchema: JoinQueueSchema.shape
+    },
+    async (params) => {
+      return await runTool('join_queue', params, handleJoinQueue);
     }
   );
 
@@ -88,7 +246,87 @@ async function createServer(): Promise<McpServer> {
       inputSchema: CheckStatusSchema.shape
     },
     async (params) => {
-      return await handleCheckStatus(params);
+      return await runTool('check_status', params, handleCheckStatus);
+    }
+  );
+
+  /**
+   * Tool: list_claims
+   * Lists coordination state across a directory tree
+   */
+  server.registerTool(
+    'list_claims',
+    {
+      title: 'List Claims',
+      description: 'Recursively scans a root directory (skipping blocked and .gitignored directories, up to a depth limit) and lists every directory with a beep, boop, shared claim or invalid state, including the agent, age, stale flag and work description.',
+      inputSchema: ListClaimsSchema.shape
+    },
+    async (params) => {
+      return await runTool('list_claims', params, handleListClaims);
+    }
+  );
+
+  /**
+   * Tool: repair_state
+   * Resolves INVALID_STATE directories
+   */
+  server.registerTool(
+    'repair_state',
+    {
+      title: 'Repair Invalid State',
+      description: 'Inspects a directory where both beep and boop files exist and proposes which to keep (the boop if its agent is still active, otherwise the newer file). Pass confirm=true to apply; a copy of the discarded file is kept and a notification is sent.',
+      inputSchema: RepairStateSchema.shape
+    },
+    async (params) => {
+      return await runTool('repair_state', params, handleRepairState);
+    }
+  );
+
+  /**
+   * Tool: get_history
+   * Returns a directory's coordination timeline
+   */
+  server.registerTool(
+    'get_history',
+    {
+      title: 'Get Directory History',
+      description: 'Returns the timeline of claims, updates, completions, stale cleanups and transfers recorded for a directory, optionally filtered by agent and date range.',
+      inputSchema: GetHistorySchema.shape
+    },
+    async (params) => {
+      return await runTool('get_history', params, handleGetHistory);
+    }
+  );
+
+  /**
+   * Tool: restore_backup
+   * Lists or restores backups of coordination files
+   */
+  server.registerTool(
+    'restore_backup',
+    {
+      title: 'Restore Backup',
+      description: 'Lists backups of beep/boop files taken before destructive changes (when BEEP_BOOP_BACKUP_ENABLED=true), or restores one into the directory it came from. The files being replaced are backed up first.',
+      inputSchema: RestoreBackupSchema.shape
+    },
+    async (params) => {
+      return await runTool('restore_backup', params, handleRestoreBackup);
+    }
+  );
+
+  /**
+   * Tool: query_audit_log
+   * Searches the audit log of coordination operations
+   */
+  server.registerTool(
+    'query_audit_log',
+    {
+      title: 'Query Audit Log',
+      description: 'Searches the audit log (BEEP_BOOP_AUDIT_LOG_PATH) of tool calls and listener requests, filtered by time range, agent, directory and operation. Each record shows the actor, the directory states before and after, the result and the request ID.',
+      inputSchema: QueryAuditLogSchema.shape
+    },
+    async (params) => {
+      return await runTool('query_audit_log', params, handleQueryAuditLog);
     }
   );
 
@@ -105,7 +343,7 @@ async function createServer(): Promise<McpServer> {
     },
     async (params) => {
       const { handleUpdateUser } = await import('./tools.js');
-      return await handleUpdateUser(params);
+      return await runTool('update_user', params, handleUpdateUser);
     }
   );
 
@@ -122,7 +360,7 @@ async function createServer(): Promise<McpServer> {
     },
     async (params) => {
       const { handleInitiateConversation } = await import('./tools.js');
-      return await handleInitiateConversation(params);
+      return await runTool('initiate_conversation', params, handleInitiateConversation);
     }
   );
 
@@ -139,23 +377,137 @@ async function createServer(): Promise<McpServer> {
     },
     async (params) => {
       const { handleCheckListenerStatus } = await import('./tools.js');
-      return await handleCheckListenerStatus(params);
+      return await runTool('check_listener_status', params, handleCheckListenerStatus);
     }
   );
 
+  /**
+   * Tool: validate_config
+   * Reports every configuration problem and likely typo in BEEP_BOOP_* settings.
+   * Audited only while the server's configuration is valid.
+   */
+  server.registerTool(
+    'validate_config',
+    {
+      title: 'Validate Configuration',
+      description: 'Checks the beep-boop configuration (environment variables and beep-boop.config.json) and reports every invalid value and unknown BEEP_BOOP_* setting.',
+      inputSchema: (await import('./tools.js')).ValidateConfigSchema.shape
+    },
+    async (params) => {
+      const { handleValidateConfig } = await import('./tools.js');
+      return await runTool('validate_config', params, handleValidateConfig);
+    }
+  );
+
+  /**
+   * Resource: directory_status
+   * Coordination status of a directory, as returned by getWorkStatus
+   */
+  server.registerResource(
+    'directory_status',
+    new ResourceTemplate(STATUS_RESOURCE_TEMPLATE, {
+      list: async () => ({
+        resources: (watcher?.watchedDirectories() ?? []).map(directory => ({
+          uri: statusResourceUri(directory),
+          name: directory,
+          mimeType: 'application/json'
+        }))
+      })
+    }),
+    {
+      title: 'Directory Status',
+      description: 'Coordination status of a directory (URL-encoded absolute path). In watch mode, subscribe to be notified when its beep/boop files change instead of polling check_status.',
+      mimeType: 'application/json'
+    },
+    async (uri, { directory }) => {
+      const current = config ?? loadConfig();
+      const target = resolveStatusDirectory(String(directory), current);
+      const status = await getWorkStatus(target, current);
+      return {
+        contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(status, null, 2) }]
+      };
+    }
+  );
+
+  if (watcher && config) {
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const directory = resolveStatusDirectory(parseStatusResourceUri(request.params.uri), config);
+      const uri = statusResourceUri(directory);
+      watcher.watch(directory);
+      subscriptions.add(uri);
+      return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
   return server;
 }
 
+/**
+ * Extract the directory from a status resource URI
+ */
+function parseStatusResourceUri(uri: string): string {
+  const prefix = STATUS_RESOURCE_TEMPLATE.replace('{directory}', '');
+  if (!uri.startsWith(prefix) || uri.length === prefix.length) {
+    throw new CoordinationError(`Not a directory status resource: ${uri}`, ErrorCode.INVALID_STATE);
+  }
+  return uri.slice(prefix.length);
+}
+
+/**
+ * Decode and check the directory of a status resource
+ */
+function resolveStatusDirectory(encoded: string, config: BeepBoopConfig): string {
+  const directory = resolve(decodeURIComponent(encoded));
+  if (!isDirectoryAllowed(directory, config)) {
+    throw new CoordinationError(`Access denied to directory ${directory}`, ErrorCode.PERMISSION_DENIED, directory);
+  }
+  return directory;
+}
+
 /**
  * Main function to start the MCP server
  */
 async function main(): Promise<void> {
   try {
-    // Load and validate configuration
-    const config = loadConfig();
-    printConfigSummary(config);
+    // Load and validate configuration. An invalid configuration is reported
+    // rather than fatal, so clients can still call validate_config.
+    const report = checkConfig();
+    for (const warning of report.warnings) {
+      console.error(`⚠️ ${warning}`);
+    }
+    const config = report.valid ? loadConfig() : undefined;
+    if (config) {
+      printConfigSummary(config);
+    } else {
+      console.error(`❌ Invalid configuration (${report.errors.length} problem${report.errors.length !== 1 ? 's' : ''}):`);
+      for (const error of report.errors) {
+        console.error(`   • ${error}`);
+      }
+      console.error('⚠️ Starting anyway: tools fail until the configuration is fixed; call validate_config for the report');
+    }
+
+    // Deal with claims left behind by earlier runs before accepting requests
+    if (config && (config.forceCleanupOnStart || config.failOnStale)) {
+      const sweep = await sweepStaleClaims(config);
+      if (sweep.cleaned.length > 0) {
+        console.error(`🧹 Removed stale claims on startup from: ${sweep.cleaned.join(', ')}`);
+      }
+      if (config.failOnStale && sweep.remaining.length > 0) {
+        for (const line of describeStaleRefusal(sweep.remaining)) {
+          console.error(line);
+        }
+        process.exit(1);
+      }
+    }
     
-    const server = await createServer();
+    const server = await createServer(config);
     const transport = new StdioServerTransport();
     
     // Set up error handling for the transport
@@ -173,14 +525,27 @@ async function main(): Promise<void> {
     console.error('   • create_beep - Create beep file to signal work completion');
     console.error('   • update_boop - Claim directory for work in progress');
     console.error('   • end_work - Complete work atomically');
+    console.error('   • renew_boop - Extend the lease on a claimed directory');
+    console.error('   • transfer_claim - Hand a claimed directory to another agent');
+    console.error('   • claim_many / end_work_many - Claim or release several directories at once');
+    console.error('   • join_queue - Wait in line for a claimed directory');
     console.error('   • check_status - Check current coordination status with stale cleanup');
+    console.error('   • list_claims - List every claimed or completed directory under a root');
+    console.error('   • repair_state - Resolve directories where both beep and boop exist');
+    console.error('   • get_history - Show who claimed and completed work in a directory');
+    console.error('   • restore_backup - List or restore backups of coordination files');
+    console.error('   • query_audit_log - Search the audit log of coordination operations');
     console.error('   • update_user - Send follow-up updates to Slack/Discord for captured messages');
     console.error('   • initiate_conversation - Proactively start new conversations on Discord/Slack');
     console.error('   • check_listener_status - Check HTTP listener service status and connectivity');
+    console.error('   • validate_config - Report configuration problems and unknown settings');
+    if (config?.watchMode) {
+      console.error('👀 Watch mode: subscribe to directory_status resources to be notified of beep/boop changes');
+    }
     console.error('🚀 Server ready for requests...');
 
     // Optionally auto-start ingress sidecar with the MCP server
-    const startWithServer = process.env.BEEP_BOOP_START_INGRESS_WITH_SERVER !== 'false';
+    const startWithServer = config !== undefined && process.env.BEEP_BOOP_START_INGRESS_WITH_SERVER !== 'false';
     if (startWithServer) {
       try {
         const { startIngress } = await import('./ingress/index.js');
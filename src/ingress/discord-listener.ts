@@ -87,6 +87,11 @@ export function createDiscordListener(config: BeepBoopConfig, inbox: InboxStore)
     console.error('🕹️ Discord gateway listener started');
   }
 
-  return { start };
+  async function stop() {
+    await client.destroy();
+    console.error('🕹️ Discord gateway listener stopped');
+  }
+
+  return { start, stop };
 }
 
@@ -0,0 +1,118 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BeepBoopConfig, loadConfig } from '../config.js';
+import { createBoopFile, forceExpireClaim, getWorkStatus, renewBoopLease } from '../file-operations.js';
+import { NotificationPayload, NotificationType } from '../notification-service.js';
+import { WorkState } from '../types.js';
+import { createEscalationScheduler } from './escalation-scheduler.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let root: string;
+let directory: string;
+let config: BeepBoopConfig;
+let sent: NotificationPayload[];
+let clock: number;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'beep-boop-test-'));
+  directory = join(root, 'work');
+  await mkdir(directory);
+  config = {
+    ...loadConfig(),
+    blockedDirectories: [],
+    allowedDirectories: [root],
+    escalationScanRoots: [],
+    backupEnabled: false,
+    warnThresholdHours: 1,
+    escalationEnabled: true,
+    escalationAfterHours: 2,
+    escalationMentions: ['<@U123>'],
+    forceExpireEnabled: true,
+    maxWorkDurationHours: 3
+  };
+  sent = [];
+  clock = Date.now();
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+/**
+ * Scheduler on the test clock, recording notifications instead of sending them
+ */
+function scheduler() {
+  return createEscalationScheduler(config, {
+    now: () => clock,
+    createNotifications: () => ({ sendNotification: async payload => { sent.push(payload); } })
+  });
+}
+
+test('warning, escalation and force-expiry each fire once per claim', async () => {
+  const checks = scheduler();
+  await createBoopFile(directory, 'agent-a', 'long work', config);
+
+  clock += 0.5 * HOUR_MS;
+  await checks.checkClaims();
+  assert.equal(sent.length, 0);
+
+  clock += HOUR_MS;
+  await checks.checkClaims();
+  await checks.checkClaims();
+  assert.deepEqual(sent.map(payload => payload.type), [NotificationType.CLAIM_WARNING]);
+  assert.equal(sent[0].agentId, 'agent-a');
+  assert.equal(sent[0].mentions, undefined);
+
+  clock += HOUR_MS;
+  await checks.checkClaims();
+  await checks.checkClaims();
+  assert.deepEqual(sent.map(payload => payload.type), [NotificationType.CLAIM_WARNING, NotificationType.CLAIM_ESCALATED]);
+  assert.deepEqual(sent[1].mentions, ['<@U123>']);
+
+  clock += HOUR_MS;
+  await checks.checkClaims();
+  await checks.checkClaims();
+  assert.deepEqual(sent.map(payload => payload.type), [
+    NotificationType.CLAIM_WARNING,
+    NotificationType.CLAIM_ESCALATED,
+    NotificationType.CLAIM_EXPIRED
+  ]);
+  assert.deepEqual(sent[2].mentions, ['<@U123>']);
+  assert.equal((await getWorkStatus(directory, config)).status, WorkState.NO_COORDINATION);
+});
+
+test('claims past a threshold are left alone when that stage is disabled', async () => {
+  config = { ...config, escalationEnabled: false, forceExpireEnabled: false };
+  const checks = scheduler();
+  await createBoopFile(directory, 'agent-a', 'long work', config);
+
+  clock += 10 * HOUR_MS;
+  await checks.checkClaims();
+
+  assert.deepEqual(sent.map(payload => payload.type), [NotificationType.CLAIM_WARNING]);
+  assert.equal((await getWorkStatus(directory, config)).agentId, 'agent-a');
+});
+
+test('a claim renewed between the scan and the expiry is not removed', async () => {
+  const claim = await createBoopFile(directory, 'agent-a', 'long work', config);
+  const [listed] = (await getWorkStatus(directory, config)).holders;
+
+  await renewBoopLease(directory, 'agent-a', 48, config, claim.fencingToken);
+
+  assert.equal(await forceExpireClaim(directory, listed, config), false);
+  assert.equal((await getWorkStatus(directory, config)).agentId, 'agent-a');
+});
+
+test('a claim replaced between the scan and the expiry is not removed', async () => {
+  await createBoopFile(directory, 'agent-a', 'long work', config);
+  const [listed] = (await getWorkStatus(directory, config)).holders;
+  await forceExpireClaim(directory, listed, config);
+  await createBoopFile(directory, 'agent-a', 'new work', config);
+
+  assert.equal(await forceExpireClaim(directory, listed, config), false);
+  assert.equal((await getWorkStatus(directory, config)).agentId, 'agent-a');
+});
@@ -0,0 +1,178 @@
+/**
+ * Periodic claim age checks run by the long-running ingress process
+ *
+ * Claims older than warnThresholdHours trigger a warning notification, claims
+ * older than escalationAfterHours an escalation with the configured mentions,
+ * and with forceExpireEnabled claims older than maxWorkDurationHours are
+ * removed. Each notification is sent once per claim.
+ */
+
+import { BeepBoopConfig } from '../config.js';
+import { ClaimHolder, WorkState } from '../types.js';
+import { getWorkStatus, getFileAgeDescription, forceExpireClaim } from '../file-operations.js';
+import { listClaims, defaultScanRoots } from '../claim-scan.js';
+import { NotificationManager, NotificationType, createNotificationManager } from '../notification-service.js';
+import { settingsChanged } from './live-config.js';
+
+/** Notification already sent for a claim */
+type AlertLevel = 'warning' | 'escalated';
+
+/** States in which a directory has claims worth checking */
+const CLAIMED_STATES = new Set<WorkState>([
+  WorkState.WORK_IN_PROGRESS,
+  WorkState.SHARED_IN_PROGRESS,
+  WorkState.INVALID_STATE
+]);
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Settings the notification manager is built from */
+const NOTIFICATION_SETTINGS: Array<keyof BeepBoopConfig> = [
+  'enableNotifications',
+  'notificationService',
+  'notificationWebhook',
+  'discordWebhookUrl',
+  'slackWebhookUrl',
+  'notificationRetryAttempts',
+  'notificationTimeoutMs'
+];
+
+/** Collaborators the scheduler uses, replaceable in tests */
+export interface EscalationSchedulerOptions {
+  /** Current time in milliseconds (default: Date.now) */
+  now?: () => number;
+  /** Builds the notification manager, again after a reload changes its settings */
+  createNotifications?: (config: BeepBoopConfig) => Pick<NotificationManager, 'sendNotification'>;
+}
+
+export function createEscalationScheduler(initialConfig: BeepBoopConfig, options: EscalationSchedulerOptions = {}) {
+  const now = options.now ?? Date.now;
+  const buildNotifications = options.createNotifications ?? createNotificationManager;
+  let config = initialConfig;
+  let notifications = buildNotifications(config);
+  // Highest notification sent per claim, keyed by directory, holder and start time
+  const alerted = new Map<string, AlertLevel>();
+  let timer: NodeJS.Timeout | undefined;
+  let checking = false;
+
+  function scanRoots(): string[] {
+    return config.escalationScanRoots.length > 0 ? config.escalationScanRoots : defaultScanRoots(config);
+  }
+
+  async function notify(type: NotificationType, message: string, directory: string, holder: ClaimHolder, mentions?: string[]) {
+    const payload = NotificationManager.createPayload(type, message, directory, holder.agentId, holder.workDescription, {
+      claimAge: holder.startedAt ? getFileAgeDescription(holder.startedAt) : undefined,
+      mode: holder.mode
+    });
+    if (mentions && mentions.length > 0) {
+      payload.mentions = mentions;
+    }
+    await notifications.sendNotification(payload);
+  }
+
+  async function checkHolder(directory: string, holder: ClaimHolder, seen: Set<string>) {
+    if (!holder.startedAt || isNaN(holder.startedAt.getTime())) return;
+    const key = `${directory}\0${holder.mode}\0${holder.agentId}\0${holder.startedAt.toISOString()}`;
+    seen.add(key);
+    const ageHours = (now() - holder.startedAt.getTime()) / HOUR_MS;
+
+    if (config.forceExpireEnabled && ageHours >= config.maxWorkDurationHours) {
+      alerted.delete(key);
+      if (!(await forceExpireClaim(directory, holder, config))) {
+        // Released, replaced or renewed since it was listed
+        return;
+      }
+      console.error(`⌛ Force-expired ${holder.mode} claim by ${holder.agentId} on ${directory} after ${ageHours.toFixed(1)} hours`);
+      await notify(NotificationType.CLAIM_EXPIRED, `Claim by agent ${holder.agentId} exceeded ${config.maxWorkDurationHours} hours and was removed`, directory, holder, config.escalationMentions);
+      return;
+    }
+
+    if (config.escalationEnabled && ageHours >= config.escalationAfterHours) {
+      if (alerted.get(key) !== 'escalated') {
+        alerted.set(key, 'escalated');
+        console.error(`🚨 Escalating ${holder.mode} claim by ${holder.agentId} on ${directory} (${ageHours.toFixed(1)} hours old)`);
+        await notify(NotificationType.CLAIM_ESCALATED, `Claim by agent ${holder.agentId} has run for more than ${config.escalationAfterHours} hours`, directory, holder, config.escalationMentions);
+      }
+      return;
+    }
+
+    if (ageHours >= config.warnThresholdHours && !alerted.has(key)) {
+      alerted.set(key, 'warning');
+      if (config.logLevel === 'debug') {
+        console.error(`⏳ Claim by ${holder.agentId} on ${directory} passed ${config.warnThresholdHours} hours`);
+      }
+      await notify(NotificationType.CLAIM_WARNING, `Claim by agent ${holder.agentId} has run for more than ${config.warnThresholdHours} hours`, directory, holder);
+    }
+  }
+
+  /**
+   * Scan the configured roots once and act on every claim that has aged past a threshold
+   */
+  async function checkClaims() {
+    if (checking) return;
+    checking = true;
+    const seen = new Set<string>();
+    try {
+      const directories = new Set<string>();
+      for (const root of scanRoots()) {
+        try {
+          for (const listing of await listClaims(root, config)) {
+            if (CLAIMED_STATES.has(listing.status)) directories.add(listing.directory);
+          }
+        } catch (error) {
+          console.error(`⚠️ Claim escalation scan of ${root} failed: ${error}`);
+        }
+      }
+
+      for (const directory of directories) {
+        try {
+          const status = await getWorkStatus(directory, config);
+          for (const holder of status.holders) {
+            await checkHolder(directory, holder, seen);
+          }
+        } catch (error) {
+          console.error(`⚠️ Claim escalation check of ${directory} failed: ${error}`);
+        }
+      }
+
+      // Forget claims that have ended so the map does not grow without bound
+      for (const key of alerted.keys()) {
+        if (!seen.has(key)) alerted.delete(key);
+      }
+    } finally {
+      checking = false;
+    }
+  }
+
+  function start() {
+    if (timer || config.escalationCheckIntervalMinutes <= 0) return;
+    if (!config.enableNotifications && !config.forceExpireEnabled) return;
+    const intervalMs = config.escalationCheckIntervalMinutes * 60 * 1000;
+    timer = setInterval(() => { checkClaims().catch(e => console.error('Claim escalation check failed', e)); }, intervalMs);
+    timer.unref();
+    checkClaims().catch(e => console.error('Claim escalation check failed', e));
+    console.error(`⏰ Checking claim ages every ${config.escalationCheckIntervalMinutes} minutes in ${scanRoots().join(', ')}`);
+  }
+
+  function stop() {
+    if (timer) clearInterval(timer);
+    timer = undefined;
+  }
+
+  /**
+   * Switch to a reloaded configuration, rebuilding the notification manager
+   * and restarting the timer when their settings changed
+   */
+  function updateConfig(next: BeepBoopConfig, changed: Set<keyof BeepBoopConfig>) {
+    config = next;
+    if (settingsChanged(changed, NOTIFICATION_SETTINGS)) {
+      notifications = buildNotifications(next);
+    }
+    if (settingsChanged(changed, ['escalationCheckIntervalMinutes', 'enableNotifications', 'forceExpireEnabled', 'escalationScanRoots'])) {
+      stop();
+      start();
+    }
+  }
+
+  return { start, stop, checkClaims, updateConfig };
+}
@@ -0,0 +1,68 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmod, mkdtemp, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BeepBoopConfig, formatFileMode, loadConfig } from '../config.js';
+import { IngressMessage, InboxStore } from './inbox.js';
+
+let root: string;
+let config: BeepBoopConfig;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'beep-boop-test-'));
+  config = {
+    ...loadConfig(),
+    ingressInboxDir: join(root, 'inbox'),
+    inboxFilePermissions: '0600',
+    inboxDirPermissions: '0750'
+  };
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+/**
+ * Minimal captured message
+ */
+function message(id: string): IngressMessage {
+  return {
+    id,
+    platform: 'slack',
+    text: 'hello',
+    raw: {},
+    authoredBy: { id: 'U1' },
+    context: { channelId: 'C1' },
+    createdAt: new Date().toISOString()
+  };
+}
+
+test('inbox directories and message files get their configured modes whatever the umask', async () => {
+  const inbox = new InboxStore(config);
+  const previousUmask = process.umask(0o077);
+  let file: string;
+  try {
+    file = await inbox.put(message('m1'));
+  } finally {
+    process.umask(previousUmask);
+  }
+
+  assert.equal(formatFileMode((await stat(file)).mode), '0600');
+  assert.equal(formatFileMode((await stat(config.ingressInboxDir)).mode), '0750');
+  assert.equal(formatFileMode((await stat(join(config.ingressInboxDir, 'processed'))).mode), '0750');
+  assert.deepEqual(await inbox.checkPermissions(), []);
+});
+
+test('inbox entries with other modes are reported', async () => {
+  const inbox = new InboxStore(config);
+  await inbox.put(message('m1'));
+  await inbox.put(message('m2'));
+  await chmod(join(config.ingressInboxDir, 'm2.json'), 0o644);
+  await chmod(config.ingressInboxDir, 0o755);
+
+  assert.deepEqual(await inbox.checkPermissions(), [
+    `${config.ingressInboxDir} is 0755, expected 0750`,
+    `1 message file(s) in ${config.ingressInboxDir} are not 0600 (e.g. m2.json)`
+  ]);
+});
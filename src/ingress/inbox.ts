@@ -1,6 +1,6 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
-import { BeepBoopConfig } from '../config.js';
+import { BeepBoopConfig, parseFileMode, formatFileMode } from '../config.js';
 
 export type IngressPlatform = 'slack' | 'discord';
 
@@ -27,15 +27,46 @@ export class InboxStore {
   
   constructor(private config: BeepBoopConfig) {}
 
+  /**
+   * Use a reloaded configuration for cleanup and permissions
+   */
+  updateConfig(config: BeepBoopConfig): void {
+    this.config = config;
+  }
+
   private ensureDirs = async () => {
-    await fs.mkdir(this.config.ingressInboxDir, { recursive: true }).catch(() => {});
-    await fs.mkdir(join(this.config.ingressInboxDir, 'processed'), { recursive: true }).catch(() => {});
+    await this.ensureDir(this.config.ingressInboxDir);
+    await this.ensureDir(join(this.config.ingressInboxDir, 'processed'));
   };
 
+  /**
+   * Create an inbox directory with the configured mode. Existing directories
+   * are left alone; checkPermissions reports them if their mode differs.
+   */
+  private async ensureDir(dir: string): Promise<void> {
+    try {
+      const created = await fs.mkdir(dir, { recursive: true });
+      if (created !== undefined) {
+        await fs.chmod(dir, parseFileMode(this.config.inboxDirPermissions));
+      }
+    } catch {
+      // Reported by the read or write that follows
+    }
+  }
+
   async put(msg: IngressMessage): Promise<string> {
     await this.ensureDirs();
     const file = join(this.config.ingressInboxDir, `${msg.id}.json`);
-    await fs.writeFile(file, JSON.stringify(msg, null, 2), 'utf8');
+    const mode = parseFileMode(this.config.inboxFilePermissions);
+    await fs.writeFile(file, JSON.stringify(msg, null, 2), { encoding: 'utf8', mode });
+    try {
+      // The create mode is narrowed by the umask, so set it explicitly
+      await fs.chmod(file, mode);
+    } catch (error) {
+      // Do not leave a message behind with permissions other than configured
+      await fs.unlink(file).catch(() => {});
+      throw error;
+    }
     return file;
   }
 
@@ -278,6 +309,45 @@ export class InboxStore {
       .map(item => item.file);
   }
 
+  /**
+   * Compare the inbox directories and message files with the configured
+   * modes, returning one warning per mismatch
+   */
+  async checkPermissions(): Promise<string[]> {
+    const warnings: string[] = [];
+    const dirMode = formatFileMode(parseFileMode(this.config.inboxDirPermissions));
+    const fileMode = formatFileMode(parseFileMode(this.config.inboxFilePermissions));
+
+    for (const dir of [this.config.ingressInboxDir, join(this.config.ingressInboxDir, 'processed')]) {
+      let files: string[];
+      try {
+        const actual = formatFileMode((await fs.stat(dir)).mode);
+        if (actual !== dirMode) {
+          warnings.push(`${dir} is ${actual}, expected ${dirMode}`);
+        }
+        files = (await fs.readdir(dir)).filter(f => f.endsWith('.json'));
+      } catch {
+        continue;
+      }
+
+      const mismatched: string[] = [];
+      for (const file of files) {
+        try {
+          if (formatFileMode((await fs.stat(join(dir, file))).mode) !== fileMode) {
+            mismatched.push(file);
+          }
+        } catch {
+          // Acknowledged or cleaned up since the listing
+        }
+      }
+      if (mismatched.length > 0) {
+        warnings.push(`${mismatched.length} message file(s) in ${dir} are not ${fileMode} (e.g. ${mismatched[0]})`);
+      }
+    }
+
+    return warnings;
+  }
+
   /**
    * Get inbox statistics (for monitoring and debugging)
    */
@@ -1,12 +1,23 @@
-import { BeepBoopConfig, printConfigSummary, loadConfig } from '../config.js';
+import { BeepBoopConfig, printConfigSummary, isDirectoryAllowed } from '../config.js';
 import { InboxStore } from './inbox.js';
+import { ConfigChangeListener, LiveConfig, settingsChanged } from './live-config.js';
+import { replaceListenerClient } from '../http-listener-client.js';
 import { createServer } from 'http';
 import { randomUUID } from 'crypto';
 import { WorkState } from '../types.js';
-import { getWorkStatus, isFileStale, getFileAgeDescription, cleanupStaleBoopAndClaim, validateAgentIdWithConfig } from '../file-operations.js';
+import { getWorkStatus, isClaimStale, getFileAgeDescription, cleanupStaleBoopAndClaim, cleanupExpiredSharedClaims, formatHolders, validateAgentIdWithConfig } from '../file-operations.js';
+import { readQueue, reserveForNextInQueue, consumeQueueEntry, describeQueue } from '../claim-queue.js';
+import { listClaims, describeClaimListingSummary, LIST_CLAIMS_DEFAULT_DEPTH } from '../claim-scan.js';
+import { describeAuditTarget, captureAuditState, writeAuditRecord } from '../audit-log.js';
+import { observeConversationWait, renderMetrics, setGauge } from '../metrics.js';
+
+// Parsed bodies by request, so the audit hook and the route can both read the body
+const jsonBodies = new WeakMap<object, Promise<any>>();
 
 async function readJsonBody<T = any>(req: any): Promise<T> {
-  return new Promise((resolve, reject) => {
+  const cached = jsonBodies.get(req);
+  if (cached) return cached;
+  const body = new Promise<T>((resolve, reject) => {
     let data = '';
     req.on('data', (chunk: any) => { data += chunk; });
     req.on('end', () => {
@@ -18,11 +29,57 @@ async function readJsonBody<T = any>(req: any): Promise<T> {
     });
     req.on('error', reject);
   });
+  jsonBodies.set(req, body);
+  return body;
+}
+
+/**
+ * Write an audit record for an /mcp/* request once its response is sent
+ */
+async function auditMcpRoute(req: any, res: any, operation: string, cfg: BeepBoopConfig): Promise<void> {
+  const body = await readJsonBody<any>(req).catch(() => undefined);
+  const requestId = String(req.headers['x-beep-boop-request-id'] || body?.requestId || randomUUID());
+  const { actor, directories } = describeAuditTarget(body);
+  const before = await captureAuditState(directories, cfg);
+  const startedAt = Date.now();
+
+  // Keep the response payload so failures can record their error message
+  let payload: any;
+  const end = res.end.bind(res);
+  res.end = (chunk?: any, ...rest: any[]) => {
+    payload = chunk;
+    return end(chunk, ...rest);
+  };
+
+  res.on('finish', () => {
+    const failed = res.statusCode >= 400;
+    let error: string | undefined;
+    if (failed) {
+      try { error = JSON.parse(String(payload)).error; } catch { error = `HTTP ${res.statusCode}`; }
+    }
+    captureAuditState(directories, cfg)
+      .then(after => writeAuditRecord({
+        requestId,
+        source: 'ingress',
+        operation,
+        actor,
+        directories,
+        before,
+        after,
+        result: failed ? 'error' : 'success',
+        error,
+        durationMs: Date.now() - startedAt
+      }, cfg))
+      .catch(() => {});
+  });
 }
 
-function startHttpServer(config: BeepBoopConfig, inbox: InboxStore) {
-  if (!config.ingressHttpEnabled) return;
+function startHttpServer(live: LiveConfig, inbox: InboxStore) {
+  const startup = live.current;
+  if (!startup.ingressHttpEnabled) return;
   const server = createServer(async (req, res) => {
+    // One snapshot per request, so a reload mid-request cannot mix settings
+    const config = live.current;
     try {
       // Basic bearer token auth if configured
       if (config.ingressHttpAuthToken) {
@@ -36,6 +93,21 @@ function startHttpServer(config: BeepBoopConfig, inbox: InboxStore) {
 
       const url = new URL(req.url || '/', `http://localhost:${config.ingressHttpPort}`);
 
+      // Every /mcp/* route is audited when audit logging is enabled
+      if (req.method === 'POST' && url.pathname.startsWith('/mcp/') && config.auditLogEnabled) {
+        await auditMcpRoute(req, res, url.pathname.slice('/mcp/'.length), config);
+      }
+
+      // GET /metrics (Prometheus text format)
+      if (req.method === 'GET' && url.pathname === '/metrics' && config.enableMetrics) {
+        const stats = await inbox.getStats();
+        setGauge('beep_boop_inbox_messages', stats.unprocessed, { status: 'pending' });
+        setGauge('beep_boop_inbox_messages', stats.processed, { status: 'processed' });
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+        res.end(renderMetrics());
+        return;
+      }
+
       // GET /messages?status=pending
       if (req.method === 'GET' && url.pathname === '/messages') {
         const ids = await inbox.list();
@@ -71,42 +143,60 @@ function startHttpServer(config: BeepBoopConfig, inbox: InboxStore) {
       if (req.method === 'POST' && url.pathname === '/mcp/check_status') {
         try {
           const body = await readJsonBody<any>(req);
-          const { directory, maxAgeHours = loadConfig().defaultMaxAgeHours, autoCleanStale = false, newAgentId, newWorkDescription } = body || {};
+          const { directory, maxAgeHours = config.defaultMaxAgeHours, autoCleanStale = false, newAgentId, newWorkDescription } = body || {};
           if (!directory || typeof directory !== 'string') {
             res.writeHead(400, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify({ error: 'directory is required' }));
             return;
           }
 
-          let status = await getWorkStatus(directory);
+          let status = await getWorkStatus(directory, config);
           let cleanupPerformed = false;
           let cleanupMessage = '';
 
+          if (autoCleanStale && status.holders.some(holder => holder.mode === 'shared')) {
+            const removed = await cleanupExpiredSharedClaims(directory, config);
+            if (removed.length > 0) {
+              cleanupMessage = `🧹 Removed expired shared claims from: ${removed.join(', ')}`;
+              status = await getWorkStatus(directory, config);
+            }
+          }
+
           if (status.status === WorkState.WORK_IN_PROGRESS && status.boopTimestamp) {
-            const stale = isFileStale(status.boopTimestamp, maxAgeHours);
+            const stale = isClaimStale(status, maxAgeHours);
             const ageDescription = getFileAgeDescription(status.boopTimestamp);
             if (stale) {
               if (autoCleanStale) {
                 if (newAgentId) {
-                  const cfg = loadConfig();
-                  if (!validateAgentIdWithConfig(newAgentId, cfg)) {
+                  if (!validateAgentIdWithConfig(newAgentId, config)) {
                     res.writeHead(400, { 'Content-Type': 'application/json' });
                     res.end(JSON.stringify({ error: `Invalid new agent id: ${newAgentId}` }));
                     return;
                   }
                 }
+                // Queued agents take precedence over a claimant supplied here
+                const queue = await readQueue(directory, config);
+                const claimant = queue.entries.length === 0 || queue.entries[0].agentId === newAgentId ? newAgentId : undefined;
                 try {
-                  const cleanup = await cleanupStaleBoopAndClaim(directory, status.agentId || 'unknown', newAgentId, newWorkDescription);
+                  const cleanup = await cleanupStaleBoopAndClaim(directory, status.agentId || 'unknown', claimant, newWorkDescription, config, maxAgeHours);
                   cleanupPerformed = true;
                   cleanupMessage = cleanup.message;
-                  status = await getWorkStatus(directory);
+                  if (claimant) {
+                    await consumeQueueEntry(directory, claimant, config);
+                  } else {
+                    const reservation = await reserveForNextInQueue(directory, config);
+                    if (reservation) cleanupMessage += ` Directory reserved for queued agent ${reservation.agentId} until ${reservation.expiresAt.toISOString()}.`;
+                  }
+                  status = await getWorkStatus(directory, config);
                 } catch (e: any) {
                   res.writeHead(500, { 'Content-Type': 'application/json' });
                   res.end(JSON.stringify({ error: `Cleanup failed: ${e?.message || e}` }));
                   return;
                 }
               } else {
-                cleanupMessage = `⚠️ STALE BOOP DETECTED: File is ${ageDescription} old (threshold: ${maxAgeHours} hours). Use autoCleanStale=true to automatically clean up.`;
+                cleanupMessage = status.leaseExpiresAt
+                  ? `⚠️ STALE BOOP DETECTED: Lease expired at ${status.leaseExpiresAt.toISOString()}. Use autoCleanStale=true to automatically clean up.`
+                  : `⚠️ STALE BOOP DETECTED: File is ${ageDescription} old (threshold: ${maxAgeHours} hours). Use autoCleanStale=true to automatically clean up.`;
               }
             }
           }
@@ -118,29 +208,40 @@ function startHttpServer(config: BeepBoopConfig, inbox: InboxStore) {
           }
           if (status.boopTimestamp) {
             const boopAge = getFileAgeDescription(status.boopTimestamp);
-            const staleIndicator = isFileStale(status.boopTimestamp, maxAgeHours) ? ' ⚠️ STALE' : '';
+            const staleIndicator = isClaimStale(status, maxAgeHours) ? ' ⚠️ STALE' : '';
             timestampInfo += `\n📅 Boop file: ${status.boopTimestamp.toISOString()} (${boopAge}${staleIndicator})`;
           }
+          if (status.leaseExpiresAt) {
+            const leaseState = status.leaseExpiresAt.getTime() <= Date.now() ? 'expired' : 'active';
+            timestampInfo += `\n⏳ Lease expires: ${status.leaseExpiresAt.toISOString()} (${leaseState})`;
+          }
 
           let statusEmoji = '';
           let statusText = '';
           switch (status.status) {
             case WorkState.WORK_ALLOWED: statusEmoji = '✅'; statusText = 'WORK ALLOWED'; break;
             case WorkState.WORK_IN_PROGRESS: statusEmoji = '🚧'; statusText = 'WORK IN PROGRESS'; break;
+            case WorkState.SHARED_IN_PROGRESS: statusEmoji = '👥'; statusText = 'SHARED ACCESS'; break;
             case WorkState.NO_COORDINATION: statusEmoji = '⭕'; statusText = 'NO COORDINATION'; break;
             case WorkState.INVALID_STATE: statusEmoji = '⚠️'; statusText = 'INVALID STATE'; break;
+            case WorkState.CORRUPT_FILE: statusEmoji = '💥'; statusText = 'CORRUPT FILE'; break;
           }
 
           let responseText = `${statusEmoji} ${statusText}\n\n📁 Directory: ${status.directory}\n📄 Beep file exists: ${status.beepExists}\n📄 Boop file exists: ${status.boopExists}`;
           if (status.agentId) responseText += `\n👤 Agent: ${status.agentId}`;
+          if (status.holders.length > 0) responseText += `\n👥 Holders:\n${formatHolders(status)}`;
+          const queue = await readQueue(directory, config);
+          if (queue.entries.length > 0) responseText += `\n📋 Queue:\n${describeQueue(queue)}`;
           responseText += timestampInfo;
           if (cleanupMessage) responseText += `\n\n🧹 Cleanup Action: ${cleanupMessage}`;
           responseText += `\n\nℹ️ ${status.details}`;
           // Simple next steps guidance
           if (status.status === WorkState.WORK_ALLOWED) responseText += `\n\n💡 Next steps:\n• Use update_boop to claim the directory`;
-          if (status.status === WorkState.WORK_IN_PROGRESS) responseText += `\n\n💡 Next steps:\n• If you are the agent, use end_work when complete; otherwise wait or check for staleness`;
+          if (status.status === WorkState.WORK_IN_PROGRESS) responseText += `\n\n💡 Next steps:\n• If you are the agent, use end_work when complete; otherwise use join_queue to wait your turn or check for staleness`;
+          if (status.status === WorkState.SHARED_IN_PROGRESS) responseText += `\n\n💡 Next steps:\n• Take a shared claim with update_boop mode="shared"; exclusive claims wait for shared holders to release`;
           if (status.status === WorkState.NO_COORDINATION) responseText += `\n\n💡 Next steps:\n• Use update_boop to claim the directory or create_beep if already complete`;
-          if (status.status === WorkState.INVALID_STATE) responseText += `\n\n💡 Next steps:\n• Manual cleanup required: both beep and boop files exist`;
+          if (status.status === WorkState.INVALID_STATE) responseText += `\n\n💡 Next steps:\n• Both beep and boop files exist; use repair_state to resolve`;
+          if (status.status === WorkState.CORRUPT_FILE) responseText += `\n\n💡 Next steps:\n• Inspect the corrupt file, then fix or delete it by hand`;
           if (maxAgeHours !== 24) responseText += `\n\n🕒 Stale threshold: ${maxAgeHours} hours`;
 
           res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -153,6 +254,32 @@ function startHttpServer(config: BeepBoopConfig, inbox: InboxStore) {
         }
       }
 
+      // POST /mcp/list_claims
+      if (req.method === 'POST' && url.pathname === '/mcp/list_claims') {
+        try {
+          const body = await readJsonBody<any>(req);
+          const { root, maxDepth = LIST_CLAIMS_DEFAULT_DEPTH, maxAgeHours = config.defaultMaxAgeHours } = body || {};
+          if (!root || typeof root !== 'string') {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'root is required' }));
+            return;
+          }
+          if (!isDirectoryAllowed(root, config)) {
+            res.writeHead(403, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: `Access denied to directory ${root}` }));
+            return;
+          }
+          const claims = await listClaims(root, config, maxDepth, maxAgeHours);
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ text: describeClaimListingSummary(root, maxDepth, claims), claims }));
+          return;
+        } catch (e) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: `Invalid request: ${e}` }));
+          return;
+        }
+      }
+
       // POST /mcp/update_user
       if (req.method === 'POST' && url.pathname === '/mcp/update_user') {
         try {
@@ -172,26 +299,24 @@ function startHttpServer(config: BeepBoopConfig, inbox: InboxStore) {
           }
 
           if (msg.platform === 'slack') {
-            const cfg = loadConfig();
-            if (!cfg.slackBotToken) {
+            if (!config.slackBotToken) {
               res.writeHead(500, { 'Content-Type': 'application/json' });
               res.end(JSON.stringify({ error: 'Slack bot token not configured' }));
               return;
             }
             const { WebClient } = await import('@slack/web-api');
-            const web = new WebClient(cfg.slackBotToken);
+            const web = new WebClient(config.slackBotToken);
             const channel = msg.context.channelId as string;
             const thread_ts = (msg.context as any).threadTs as string | undefined;
             await web.chat.postMessage({ channel, thread_ts, text: updateContent });
           } else if (msg.platform === 'discord') {
-            const cfg = loadConfig();
-            if (!cfg.discordBotToken) {
+            if (!config.discordBotToken) {
               res.writeHead(500, { 'Content-Type': 'application/json' });
               res.end(JSON.stringify({ error: 'Discord bot token not configured' }));
               return;
             }
             const { REST, Routes } = await import('discord.js');
-            const rest = new (REST as any)({ version: '10' }).setToken(cfg.discordBotToken);
+            const rest = new (REST as any)({ version: '10' }).setToken(config.discordBotToken);
             const threadId = (msg.context as any).threadId as string | undefined;
             if (threadId) {
               await rest.post((Routes as any).channelMessages(threadId), { body: { content: updateContent } });
@@ -233,12 +358,11 @@ function startHttpServer(config: BeepBoopConfig, inbox: InboxStore) {
             return;
           }
 
-          const cfg = loadConfig();
           let finalChannelId = channelId;
           
           // Use default channel if none specified and Discord
-          if (!finalChannelId && platform === 'discord' && cfg.discordDefaultChannelId) {
-            finalChannelId = cfg.discordDefaultChannelId;
+          if (!finalChannelId && platform === 'discord' && config.discordDefaultChannelId) {
+            finalChannelId = config.discordDefaultChannelId;
           }
           
           if (!finalChannelId) {
@@ -251,14 +375,14 @@ function startHttpServer(config: BeepBoopConfig, inbox: InboxStore) {
           let threadId: string | undefined;
           
           if (platform === 'slack') {
-            if (!cfg.slackBotToken) {
+            if (!config.slackBotToken) {
               res.writeHead(500, { 'Content-Type': 'application/json' });
               res.end(JSON.stringify({ error: 'Slack bot token not configured' }));
               return;
             }
             
             const { WebClient } = await import('@slack/web-api');
-            const web = new WebClient(cfg.slackBotToken);
+            const web = new WebClient(config.slackBotToken);
             
             const message = agentId 
               ? `[${agentId}] ${content}` 
@@ -272,14 +396,14 @@ function startHttpServer(config: BeepBoopConfig, inbox: InboxStore) {
             messageId = result.message?.ts || '';
             
           } else if (platform === 'discord') {
-            if (!cfg.discordBotToken) {
+            if (!config.discordBotToken) {
               res.writeHead(500, { 'Content-Type': 'application/json' });
               res.end(JSON.stringify({ error: 'Discord bot token not configured' }));
               return;
             }
             
             const { REST, Routes } = await import('discord.js');
-            const rest = new (REST as any)({ version: '10' }).setToken(cfg.discordBotToken);
+            const rest = new (REST as any)({ version: '10' }).setToken(config.discordBotToken);
             
             const message = agentId 
               ? `**[${agentId}]** ${content}` 
@@ -335,8 +459,8 @@ function startHttpServer(config: BeepBoopConfig, inbox: InboxStore) {
               : `${platform} channel ${finalChannelId}`;
             
             // Wait for user response in the thread/channel (configurable)
-            const maxWaitTimeMs = cfg.conversationTimeoutMinutes * 60 * 1000;
-            const pollIntervalMs = cfg.conversationPollIntervalMs;
+            const maxWaitTimeMs = config.conversationTimeoutMinutes * 60 * 1000;
+            const pollIntervalMs = config.conversationPollIntervalMs;
             const startTime = Date.now();
             
             let pollCount = 0;
@@ -362,6 +486,7 @@ function startHttpServer(config: BeepBoopConfig, inbox: InboxStore) {
                   
                   if (isReply && isUserMessage) {
                     // Found a user response!
+                    observeConversationWait(Date.now() - startTime, 'responded');
                     const responseText = `✅ Conversation initiated and user responded!\n\n**Platform**: ${platformInfo}\n**Agent**: ${agentId || 'system'}\n**Initial Message ID**: ${ingressMessage.id}\n\n**User Response**:\n**From**: ${msg.authoredBy.username || msg.authoredBy.id}\n**Message**: ${msg.text}\n**Response ID**: ${msg.id}\n\n**Debug Info**: Found after ${pollCount} polls in ${Math.round((Date.now() - startTime) / 1000)}s\n\nYou can continue the conversation using update_user with either message ID.`;
                     res.writeHead(200, { 'Content-Type': 'application/json' });
                     res.end(JSON.stringify({ text: responseText }));
@@ -375,7 +500,8 @@ function startHttpServer(config: BeepBoopConfig, inbox: InboxStore) {
             }
             
             // Timeout reached without user response
-            const timeoutText = `⏰ Conversation initiated on ${platformInfo}${agentId ? ` by agent ${agentId}` : ''}, but no user response received within ${cfg.conversationTimeoutMinutes} minutes.\n\n**Message ID**: ${ingressMessage.id}\n\nThe conversation thread is still active - you can use update_user to continue when the user responds.`;
+            observeConversationWait(Date.now() - startTime, 'timeout');
+            const timeoutText = `⏰ Conversation initiated on ${platformInfo}${agentId ? ` by agent ${agentId}` : ''}, but no user response received within ${config.conversationTimeoutMinutes} minutes.\n\n**Message ID**: ${ingressMessage.id}\n\nThe conversation thread is still active - you can use update_user to continue when the user responds.`;
             res.writeHead(200, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify({ text: timeoutText }));
             return;
@@ -405,12 +531,70 @@ function startHttpServer(config: BeepBoopConfig, inbox: InboxStore) {
     }
   });
 
-  server.listen(config.ingressHttpPort, () => {
-    console.error(`🌐 Ingress HTTP endpoint listening on http://localhost:${config.ingressHttpPort}`);
+  server.listen(startup.ingressHttpPort, () => {
+    console.error(`🌐 Ingress HTTP endpoint listening on http://localhost:${startup.ingressHttpPort}`);
   });
 }
 
-export async function startIngress() {
+/** Settings the shared HTTP listener client is built from */
+const LISTENER_CLIENT_SETTINGS: Array<keyof BeepBoopConfig> = [
+  'listenerEnabled',
+  'listenerBaseUrl',
+  'listenerAuthToken',
+  'listenerTimeoutBaseMs',
+  'listenerTimeoutPerCharMs',
+  'listenerTimeoutMaxMs',
+  'maxConcurrentListenerRequests'
+];
+
+/** Settings each chat provider's listener is built from */
+const PROVIDER_LISTENER_SETTINGS: Record<'slack' | 'discord', Array<keyof BeepBoopConfig>> = {
+  slack: ['slackAppToken', 'slackBotToken', 'logLevel'],
+  discord: ['discordBotToken']
+};
+
+/** Parts of the running ingress a reloaded configuration is handed to */
+export interface ReloadTargets {
+  inbox: Pick<InboxStore, 'updateConfig'>;
+  scheduler?: { updateConfig(next: BeepBoopConfig, changed: Set<keyof BeepBoopConfig>): void };
+  /** Stop the chat provider's listener and start it again on the given configuration */
+  restartListener(next: BeepBoopConfig): Promise<void>;
+}
+
+/**
+ * Build the change listener that applies a reload to the running ingress:
+ * the inbox and scheduler take the new settings, and the HTTP listener client
+ * and the chat provider's listener are rebuilt when their settings changed
+ */
+export function createReloadHandler(provider: 'slack' | 'discord', targets: ReloadTargets): ConfigChangeListener {
+  // Reconnects run one at a time, in the order the reloads happened
+  let reconnecting = Promise.resolve();
+  return (next, _previous, changed) => {
+    targets.inbox.updateConfig(next);
+    targets.scheduler?.updateConfig(next, changed);
+    if (settingsChanged(changed, LISTENER_CLIENT_SETTINGS)) {
+      replaceListenerClient(next);
+    }
+    if (settingsChanged(changed, PROVIDER_LISTENER_SETTINGS[provider])) {
+      reconnecting = reconnecting
+        .then(() => targets.restartListener(next))
+        .catch(e => console.error(`⚠️ Failed to restart the ${provider} listener with the reloaded configuration`, e));
+    }
+  };
+}
+
+/** How the ingress is being run */
+export interface IngressOptions {
+  /**
+   * Running as its own process (`npm run listen`) rather than as the sidecar
+   * of an MCP server. Only a standalone ingress runs the claim escalation
+   * checks, so several MCP servers do not each notify about and expire the
+   * same claims, and reloads its configuration on SIGHUP.
+   */
+  standalone?: boolean;
+}
+
+export async function startIngress(options: IngressOptions = {}) {
   const config = (await import('../config.js')).loadConfig();
   if (config.logLevel === 'debug') printConfigSummary(config);
 
@@ -418,23 +602,45 @@ export async function startIngress() {
     console.error('Ingress is disabled. Set BEEP_BOOP_INGRESS_ENABLED=true and provider.');
     return;
   }
+  const provider = config.ingressProvider;
 
+  const live = new LiveConfig(config);
   const inbox = new InboxStore(config);
-  startHttpServer(config, inbox);
-
-  if (config.ingressProvider === 'slack') {
-    const { createSlackSocketListener } = await import('./slack-listener.js');
-    const slack = createSlackSocketListener(config, inbox);
-    await slack.start();
-  } else if (config.ingressProvider === 'discord') {
-    const { createDiscordListener } = await import('./discord-listener.js');
-    const discord = createDiscordListener(config, inbox);
-    await discord.start();
-  }
+  startHttpServer(live, inbox);
+
+  const scheduler = options.standalone
+    ? (await import('./escalation-scheduler.js')).createEscalationScheduler(config)
+    : undefined;
+  scheduler?.start();
+
+  let listener: { start(): Promise<void>; stop(): Promise<void> } | undefined;
+  const startListener = async (cfg: BeepBoopConfig) => {
+    if (provider === 'slack') {
+      const { createSlackSocketListener } = await import('./slack-listener.js');
+      listener = createSlackSocketListener(cfg, inbox);
+    } else {
+      const { createDiscordListener } = await import('./discord-listener.js');
+      listener = createDiscordListener(cfg, inbox);
+    }
+    await listener.start();
+  };
+
+  live.onChange(createReloadHandler(provider, {
+    inbox,
+    scheduler,
+    restartListener: async next => {
+      await listener?.stop();
+      await startListener(next);
+    }
+  }));
+  // The sidecar shares the MCP server's process, whose signal handling is not ours to change
+  live.watch({ signals: options.standalone });
+
+  await startListener(config);
 }
 
 // Run if executed directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  startIngress().catch((e) => { console.error('Ingress fatal error', e); process.exit(1); });
+  startIngress({ standalone: true }).catch((e) => { console.error('Ingress fatal error', e); process.exit(1); });
 }
 
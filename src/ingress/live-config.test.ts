@@ -0,0 +1,153 @@
+import { test, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BeepBoopConfig, loadConfig } from '../config.js';
+import * as listenerClients from '../http-listener-client.js';
+import { createEscalationScheduler } from './escalation-scheduler.js';
+import { createReloadHandler } from './index.js';
+import { LiveConfig } from './live-config.js';
+
+let directory: string;
+let configFile: string;
+let savedEnv: NodeJS.ProcessEnv;
+let logged: string[];
+
+/** Settings every config file in these tests starts from */
+const BASE_SETTINGS = {
+  BEEP_BOOP_INGRESS_ENABLED: true,
+  BEEP_BOOP_INGRESS_PROVIDER: 'slack',
+  BEEP_BOOP_INGRESS_HTTP_PORT: 7077,
+  // Keep the scheduler from starting a timer when a reload restarts it
+  BEEP_BOOP_ESCALATION_CHECK_INTERVAL_MINUTES: 0
+};
+
+beforeEach(() => {
+  savedEnv = { ...process.env };
+  // Start every test from built-in defaults, whatever the environment running the tests sets
+  for (const key of Object.keys(process.env)) {
+    if (key.startsWith('BEEP_BOOP_') || key === 'NODE_ENV' || key === 'CI') {
+      delete process.env[key];
+    }
+  }
+  directory = mkdtempSync(join(tmpdir(), 'beep-boop-test-'));
+  configFile = join(directory, 'beep-boop.config.json');
+  process.env.BEEP_BOOP_CONFIG_FILE = configFile;
+  writeConfigFile({});
+  logged = [];
+  mock.method(console, 'error', (...args: unknown[]) => { logged.push(args.join(' ')); });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  process.env = savedEnv;
+  rmSync(directory, { recursive: true, force: true });
+});
+
+/**
+ * Write the config file the tests point BEEP_BOOP_CONFIG_FILE at, on top of the base settings
+ */
+function writeConfigFile(settings: Record<string, unknown>): void {
+  writeFileSync(configFile, JSON.stringify({ ...BASE_SETTINGS, ...settings }));
+}
+
+test('a reload swaps in the whole new configuration at once', () => {
+  const live = new LiveConfig(loadConfig());
+  const before = live.current;
+  const changes: Array<Set<keyof BeepBoopConfig>> = [];
+  live.onChange((next, previous, changed) => {
+    assert.equal(previous, before);
+    assert.equal(next, live.current);
+    changes.push(changed);
+  });
+
+  writeConfigFile({ BEEP_BOOP_WARN_THRESHOLD_HOURS: 2, BEEP_BOOP_LOG_LEVEL: 'debug' });
+  const changed = live.reload();
+
+  assert.deepEqual([...changed].sort(), ['logLevel', 'warnThresholdHours']);
+  assert.notEqual(live.current, before);
+  assert.equal(live.current.warnThresholdHours, 2);
+  assert.equal(live.current.logLevel, 'debug');
+  // A snapshot taken before the reload keeps the old values throughout
+  assert.equal(before.warnThresholdHours, 8);
+  assert.equal(before.logLevel, 'info');
+  assert.deepEqual(changes, [changed]);
+
+  // Reloading unchanged settings swaps nothing and tells no one
+  const current = live.current;
+  assert.equal(live.reload().size, 0);
+  assert.equal(live.current, current);
+  assert.equal(changes.length, 1);
+});
+
+test('an invalid configuration is rejected and the current one kept', () => {
+  const live = new LiveConfig(loadConfig());
+  const before = live.current;
+  let notified = false;
+  live.onChange(() => { notified = true; });
+
+  writeConfigFile({ BEEP_BOOP_WARN_THRESHOLD_HOURS: -1 });
+
+  assert.equal(live.reload().size, 0);
+  assert.equal(live.current, before);
+  assert.equal(notified, false);
+  assert.ok(logged.some(line => line.startsWith('❌ Configuration reload rejected') && line.includes('BEEP_BOOP_WARN_THRESHOLD_HOURS')));
+});
+
+test('restart-only settings keep their startup values and are reported', () => {
+  const live = new LiveConfig(loadConfig());
+
+  writeConfigFile({ BEEP_BOOP_INGRESS_HTTP_PORT: 8088, BEEP_BOOP_INGRESS_PROVIDER: 'discord', BEEP_BOOP_WARN_THRESHOLD_HOURS: 2 });
+  const changed = live.reload();
+
+  assert.deepEqual([...changed], ['warnThresholdHours']);
+  assert.equal(live.current.ingressHttpPort, 7077);
+  assert.equal(live.current.ingressProvider, 'slack');
+  // The default listener URL follows the port the process is still listening on
+  assert.equal(live.current.listenerBaseUrl, 'http://localhost:7077');
+  assert.ok(logged.includes('⚠️ BEEP_BOOP_INGRESS_HTTP_PORT changed; restart the ingress process to apply it'));
+  assert.ok(logged.includes('⚠️ BEEP_BOOP_INGRESS_PROVIDER changed; restart the ingress process to apply it'));
+});
+
+test('a reload rebuilds the notification manager and listeners whose settings changed', async () => {
+  const live = new LiveConfig(loadConfig());
+  const notificationConfigs: BeepBoopConfig[] = [];
+  const scheduler = createEscalationScheduler(live.current, {
+    createNotifications: config => {
+      notificationConfigs.push(config);
+      return { sendNotification: async () => {} };
+    }
+  });
+  const inboxConfigs: BeepBoopConfig[] = [];
+  const restarts: BeepBoopConfig[] = [];
+  live.onChange(createReloadHandler('slack', {
+    inbox: { updateConfig: config => { inboxConfigs.push(config); } },
+    scheduler,
+    restartListener: async config => { restarts.push(config); }
+  }));
+  const client = listenerClients.listenerClient;
+
+  // A setting none of them are built from
+  writeConfigFile({ BEEP_BOOP_WARN_THRESHOLD_HOURS: 2 });
+  live.reload();
+  await new Promise(resolve => setImmediate(resolve));
+  assert.equal(inboxConfigs.length, 1);
+  assert.equal(notificationConfigs.length, 1);
+  assert.equal(listenerClients.listenerClient, client);
+  assert.equal(restarts.length, 0);
+
+  writeConfigFile({
+    BEEP_BOOP_WARN_THRESHOLD_HOURS: 2,
+    BEEP_BOOP_SLACK_WEBHOOK_URL: 'https://hooks.slack.com/services/T/B/X',
+    BEEP_BOOP_LISTENER_TIMEOUT_MAX_MS: 5000,
+    BEEP_BOOP_SLACK_BOT_TOKEN: 'xoxb-rotated'
+  });
+  live.reload();
+  await new Promise(resolve => setImmediate(resolve));
+
+  assert.deepEqual(inboxConfigs, [inboxConfigs[0], live.current]);
+  assert.deepEqual(notificationConfigs.map(config => config.slackWebhookUrl), [undefined, 'https://hooks.slack.com/services/T/B/X']);
+  assert.notEqual(listenerClients.listenerClient, client);
+  assert.deepEqual(restarts.map(config => config.slackBotToken), ['xoxb-rotated']);
+});
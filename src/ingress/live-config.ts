@@ -0,0 +1,151 @@
+/**
+ * Hot-reloaded configuration for the long-running ingress process
+ *
+ * The config file locations are polled for changes (and in a standalone
+ * ingress process SIGHUP forces a reload). A changed configuration is validated in full before it replaces
+ * the live one in a single swap, so a request never sees a mix of old and new
+ * settings. Settings bound at startup, such as the HTTP port or the provider,
+ * keep their startup values and are reported as needing a restart.
+ */
+
+import { unwatchFile, watchFile } from 'fs';
+import { isDeepStrictEqual } from 'util';
+import { BeepBoopConfig, CONFIG_ENV_VARS, loadConfigWithSources } from '../config.js';
+import { configFileCandidates } from '../config-file.js';
+
+/** Settings that only take effect when the ingress process restarts */
+export const RESTART_REQUIRED_SETTINGS: Array<keyof BeepBoopConfig> = [
+  'ingressEnabled',
+  'ingressProvider',
+  'ingressHttpEnabled',
+  'ingressHttpPort',
+  'ingressInboxDir'
+];
+
+/** Settings whose default is derived from a restart-required setting */
+const DERIVED_DEFAULTS: Partial<Record<keyof BeepBoopConfig, keyof BeepBoopConfig>> = {
+  listenerBaseUrl: 'ingressHttpPort'
+};
+
+/** How often the config file locations are polled */
+const CONFIG_POLL_INTERVAL_MS = 2000;
+
+/** Called after a reload with the new and previous configuration and the settings that differ */
+export type ConfigChangeListener = (next: BeepBoopConfig, previous: BeepBoopConfig, changed: Set<keyof BeepBoopConfig>) => void;
+
+/**
+ * Check whether any of the given settings changed in a reload
+ */
+export function settingsChanged(changed: Set<keyof BeepBoopConfig>, settings: Array<keyof BeepBoopConfig>): boolean {
+  return settings.some(setting => changed.has(setting));
+}
+
+/**
+ * The current configuration, replaced whenever its sources change
+ */
+export class LiveConfig {
+  private config: BeepBoopConfig;
+  private listeners: ConfigChangeListener[] = [];
+  private watchedPaths: string[] = [];
+  private readonly onSignal = () => this.reload();
+
+  constructor(initial: BeepBoopConfig) {
+    this.config = initial;
+  }
+
+  /**
+   * The configuration in effect. Read it once per request or task and keep
+   * the snapshot, rather than reading settings from it one at a time.
+   */
+  get current(): BeepBoopConfig {
+    return this.config;
+  }
+
+  /**
+   * Register a listener for configuration changes
+   */
+  onChange(listener: ConfigChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Load the configuration again and swap it in if it is valid. Returns the
+   * settings that changed; an invalid configuration is logged and ignored.
+   */
+  reload(): Set<keyof BeepBoopConfig> {
+    let next: BeepBoopConfig;
+    let sources: ReturnType<typeof loadConfigWithSources>['sources'];
+    try {
+      ({ config: next, sources } = loadConfigWithSources());
+    } catch (error) {
+      console.error(`❌ Configuration reload rejected, keeping the current settings: ${error instanceof Error ? error.message : error}`);
+      return new Set();
+    }
+
+    const previous = this.config;
+    for (const setting of RESTART_REQUIRED_SETTINGS) {
+      if (!isDeepStrictEqual(next[setting], previous[setting])) {
+        console.error(`⚠️ ${CONFIG_ENV_VARS[setting]} changed; restart the ingress process to apply it`);
+        (next as unknown as Record<string, unknown>)[setting] = previous[setting];
+      }
+    }
+    // A default computed from a kept setting must follow it, e.g. the listener URL from the port
+    for (const [setting, basis] of Object.entries(DERIVED_DEFAULTS) as Array<[keyof BeepBoopConfig, keyof BeepBoopConfig]>) {
+      if (sources[setting] === 'default' && RESTART_REQUIRED_SETTINGS.includes(basis)) {
+        (next as unknown as Record<string, unknown>)[setting] = previous[setting];
+      }
+    }
+
+    const changed = new Set(
+      (Object.keys(CONFIG_ENV_VARS) as Array<keyof BeepBoopConfig>).filter(setting => !isDeepStrictEqual(next[setting], previous[setting]))
+    );
+    if (changed.size === 0) {
+      return changed;
+    }
+
+    this.config = next;
+    console.error(`🔄 Configuration reloaded: ${[...changed].map(setting => CONFIG_ENV_VARS[setting]).join(', ')}`);
+    for (const listener of this.listeners) {
+      try {
+        listener(next, previous, changed);
+      } catch (error) {
+        console.error(`⚠️ Failed to apply reloaded configuration: ${error}`);
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Start watching the config file locations. With signals, SIGHUP also
+   * forces a reload; only a process that owns its signals should ask for
+   * that, since the handler replaces SIGHUP's default of exiting.
+   */
+  watch(options: { signals?: boolean } = {}): void {
+    if (this.watchedPaths.length > 0) {
+      return;
+    }
+    // Every candidate is polled, so creating a file with higher precedence is noticed too
+    this.watchedPaths = configFileCandidates();
+    for (const path of this.watchedPaths) {
+      watchFile(path, { persistent: false, interval: CONFIG_POLL_INTERVAL_MS }, (current, previous) => {
+        if (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) {
+          this.reload();
+        }
+      });
+    }
+    if (options.signals) {
+      process.on('SIGHUP', this.onSignal);
+    }
+  }
+
+  /**
+   * Stop watching for changes
+   */
+  close(): void {
+    for (const path of this.watchedPaths) {
+      unwatchFile(path);
+    }
+    this.watchedPaths = [];
+    process.off('SIGHUP', this.onSignal);
+  }
+}
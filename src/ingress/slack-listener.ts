@@ -78,6 +78,11 @@ export function createSlackSocketListener(config: BeepBoopConfig, inbox: InboxSt
     console.error('🔌 Slack Socket Mode listener started');
   }
 
-  return { start };
+  async function stop() {
+    await app.stop();
+    console.error('🔌 Slack Socket Mode listener stopped');
+  }
+
+  return { start, stop };
 }
 
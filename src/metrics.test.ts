@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  incrementCounter,
+  observeConversationWait,
+  recordCoordinationEvent,
+  recordToolResult,
+  renderMetrics,
+  setCircuitBreakerState
+} from './metrics.js';
+
+// Metrics are process-wide, so each test uses label values no other test does
+
+/**
+ * Sample lines of a rendered metric, without the HELP and TYPE comments
+ */
+function samples(name: string): string[] {
+  return renderMetrics().split('\n').filter(line => line.startsWith(`${name}{`) || line.startsWith(`${name} `));
+}
+
+test('every metric is described even before it is recorded', () => {
+  const output = renderMetrics();
+
+  assert.match(output, /^# HELP beep_boop_claims_total Claims taken, by claim mode$/m);
+  assert.match(output, /^# TYPE beep_boop_claims_total counter$/m);
+  assert.match(output, /^# TYPE beep_boop_circuit_breaker_open gauge$/m);
+  assert.match(output, /^# TYPE beep_boop_conversation_wait_seconds histogram$/m);
+  assert.ok(output.endsWith('\n'));
+});
+
+test('counters add up per label set', () => {
+  recordCoordinationEvent('claimed', 'shared');
+  recordCoordinationEvent('claimed', 'shared');
+  recordCoordinationEvent('completed');
+
+  assert.ok(samples('beep_boop_claims_total').includes('beep_boop_claims_total{mode="shared"} 2'));
+  assert.ok(samples('beep_boop_releases_total').includes('beep_boop_releases_total{reason="completed"} 1'));
+});
+
+test('failed tool calls are counted by error code', () => {
+  recordToolResult('update_boop', { content: [{ type: 'text', text: '❌ Directory is claimed (WORK_ALREADY_IN_PROGRESS)' }], isError: true });
+  recordToolResult('update_boop', { content: [{ type: 'text', text: '❌ Bad input' }], isError: true });
+  recordToolResult('update_boop', { content: [{ type: 'text', text: '✅ Claimed' }] });
+
+  assert.deepEqual(samples('beep_boop_tool_errors_total').filter(line => line.includes('tool="update_boop"')), [
+    'beep_boop_tool_errors_total{tool="update_boop",code="WORK_ALREADY_IN_PROGRESS"} 1',
+    'beep_boop_tool_errors_total{tool="update_boop",code="UNCLASSIFIED"} 1'
+  ]);
+});
+
+test('gauges keep the latest value and label values are escaped', () => {
+  setCircuitBreakerState('quote"service', true);
+  setCircuitBreakerState('quote"service', false);
+  incrementCounter('beep_boop_webhook_requests_total', { service: 'back\\slash\nline', result: 'success' });
+
+  assert.ok(samples('beep_boop_circuit_breaker_open').includes('beep_boop_circuit_breaker_open{service="quote\\"service"} 0'));
+  assert.ok(samples('beep_boop_webhook_requests_total').includes(
+    'beep_boop_webhook_requests_total{service="back\\\\slash\\nline",result="success"} 1'
+  ));
+});
+
+test('histograms render cumulative buckets, sum and count', () => {
+  observeConversationWait(3000, 'responded');
+  observeConversationWait(45000, 'responded');
+
+  const rendered = renderMetrics();
+  assert.match(rendered, /^beep_boop_conversation_wait_seconds_bucket\{outcome="responded",le="1"\} 0$/m);
+  assert.match(rendered, /^beep_boop_conversation_wait_seconds_bucket\{outcome="responded",le="5"\} 1$/m);
+  assert.match(rendered, /^beep_boop_conversation_wait_seconds_bucket\{outcome="responded",le="60"\} 2$/m);
+  assert.match(rendered, /^beep_boop_conversation_wait_seconds_bucket\{outcome="responded",le="\+Inf"\} 2$/m);
+  assert.match(rendered, /^beep_boop_conversation_wait_seconds_sum\{outcome="responded"\} 48$/m);
+  assert.match(rendered, /^beep_boop_conversation_wait_seconds_count\{outcome="responded"\} 2$/m);
+});
@@ -0,0 +1,193 @@
+/**
+ * In-process metrics, served in Prometheus text format by the ingress
+ * /metrics endpoint when BEEP_BOOP_ENABLE_METRICS is set
+ *
+ * Metrics are held in memory and reset when the process restarts. The
+ * ingress server runs alongside the MCP server by default, so it reports
+ * the tool calls made in the same process.
+ */
+
+import { ClaimMode, HistoryEventType, ToolResponse, errorCodeOfResponse } from './types.js';
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+type Labels = Record<string, string>;
+
+interface MetricDefinition {
+  type: MetricType;
+  help: string;
+  /** Upper bounds of histogram buckets */
+  buckets?: number[];
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/** Every metric this process exposes */
+const METRIC_DEFINITIONS: Record<string, MetricDefinition> = {
+  beep_boop_claims_total: { type: 'counter', help: 'Claims taken, by claim mode' },
+  beep_boop_releases_total: { type: 'counter', help: 'Claims ended, by how they ended' },
+  beep_boop_stale_cleanups_total: { type: 'counter', help: 'Stale or expired claims cleaned up' },
+  beep_boop_tool_errors_total: { type: 'counter', help: 'Tool calls that returned an error, by tool and error code' },
+  beep_boop_webhook_requests_total: { type: 'counter', help: 'Notification webhook deliveries, by service and result' },
+  beep_boop_circuit_breaker_open: { type: 'gauge', help: 'Whether the notification circuit breaker is open (1) or closed (0), by service' },
+  beep_boop_inbox_messages: { type: 'gauge', help: 'Messages in the ingress inbox, by status' },
+  beep_boop_conversation_wait_seconds: {
+    type: 'histogram',
+    help: 'Time initiate_conversation waited for a user response, by outcome',
+    buckets: [1, 5, 15, 30, 60, 120, 300, 600, 1800]
+  }
+};
+
+/** Counter and gauge values by metric name, then by serialized labels */
+const values = new Map<string, Map<string, { labels: Labels; value: number }>>();
+
+/** Histogram series by metric name, then by serialized labels */
+const histograms = new Map<string, Map<string, HistogramSeries>>();
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function seriesFor<T>(store: Map<string, Map<string, T>>, name: string): Map<string, T> {
+  let series = store.get(name);
+  if (!series) {
+    series = new Map();
+    store.set(name, series);
+  }
+  return series;
+}
+
+/**
+ * Add to a counter
+ */
+export function incrementCounter(name: string, labels: Labels = {}, amount = 1): void {
+  const series = seriesFor(values, name);
+  const key = labelKey(labels);
+  const current = series.get(key);
+  if (current) {
+    current.value += amount;
+  } else {
+    series.set(key, { labels, value: amount });
+  }
+}
+
+/**
+ * Set a gauge to a value
+ */
+export function setGauge(name: string, value: number, labels: Labels = {}): void {
+  seriesFor(values, name).set(labelKey(labels), { labels, value });
+}
+
+/**
+ * Record one observation in a histogram
+ */
+export function observeHistogram(name: string, value: number, labels: Labels = {}): void {
+  const buckets = METRIC_DEFINITIONS[name]?.buckets ?? [];
+  const series = seriesFor(histograms, name);
+  const key = labelKey(labels);
+  let histogram = series.get(key);
+  if (!histogram) {
+    histogram = { labels, bucketCounts: buckets.map(() => 0), sum: 0, count: 0 };
+    series.set(key, histogram);
+  }
+  buckets.forEach((bound, index) => {
+    if (value <= bound) {
+      histogram!.bucketCounts[index]++;
+    }
+  });
+  histogram.sum += value;
+  histogram.count++;
+}
+
+/**
+ * Count a coordination event written to a directory's history
+ */
+export function recordCoordinationEvent(event: HistoryEventType, mode?: ClaimMode): void {
+  switch (event) {
+    case 'claimed':
+      incrementCounter('beep_boop_claims_total', { mode: mode ?? 'exclusive' });
+      break;
+    case 'completed':
+    case 'released':
+      incrementCounter('beep_boop_releases_total', { reason: event });
+      break;
+    case 'stale_cleanup':
+      incrementCounter('beep_boop_stale_cleanups_total', { mode: mode ?? 'exclusive' });
+      break;
+  }
+}
+
+/**
+ * Count a tool call that failed, labelled with the error code its response
+ * reports, or UNCLASSIFIED for validation errors without one
+ */
+export function recordToolResult(tool: string, response: ToolResponse): void {
+  if (!response.isError) {
+    return;
+  }
+  const code = errorCodeOfResponse(response) ?? 'UNCLASSIFIED';
+  incrementCounter('beep_boop_tool_errors_total', { tool, code });
+}
+
+/**
+ * Count a notification webhook delivery
+ */
+export function recordWebhookResult(service: string, result: 'success' | 'failure'): void {
+  incrementCounter('beep_boop_webhook_requests_total', { service, result });
+}
+
+/**
+ * Track whether a notification service's circuit breaker is open
+ */
+export function setCircuitBreakerState(service: string, open: boolean): void {
+  setGauge('beep_boop_circuit_breaker_open', open ? 1 : 0, { service });
+}
+
+/**
+ * Record how long a conversation waited before a reply arrived or it timed out
+ */
+export function observeConversationWait(waitMs: number, outcome: 'responded' | 'timeout'): void {
+  observeHistogram('beep_boop_conversation_wait_seconds', waitMs / 1000, { outcome });
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const escaped = entries.map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`);
+  return `{${escaped.join(',')}}`;
+}
+
+/**
+ * Render all metrics in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const [name, definition] of Object.entries(METRIC_DEFINITIONS)) {
+    lines.push(`# HELP ${name} ${definition.help}`);
+    lines.push(`# TYPE ${name} ${definition.type}`);
+
+    if (definition.type === 'histogram') {
+      for (const histogram of histograms.get(name)?.values() ?? []) {
+        definition.buckets!.forEach((bound, index) => {
+          lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: String(bound) })} ${histogram.bucketCounts[index]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: '+Inf' })} ${histogram.count}`);
+        lines.push(`${name}_sum${formatLabels(histogram.labels)} ${histogram.sum}`);
+        lines.push(`${name}_count${formatLabels(histogram.labels)} ${histogram.count}`);
+      }
+      continue;
+    }
+
+    for (const { labels, value } of values.get(name)?.values() ?? []) {
+      lines.push(`${name}${formatLabels(labels)} ${value}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -5,6 +5,7 @@
 import { IncomingWebhook } from '@slack/webhook';
 import { Webhook, MessageBuilder } from 'discord-webhook-node';
 import { BeepBoopConfig } from './config.js';
+import { recordWebhookResult, setCircuitBreakerState } from './metrics.js';
 
 /** Supported notification services */
 export type NotificationService = 'discord' | 'slack' | 'both';
@@ -16,6 +17,10 @@ export enum NotificationType {
   WORK_FAILED = 'work_failed',
   STALE_DETECTED = 'stale_detected',
   CLEANUP_PERFORMED = 'cleanup_performed',
+  CLAIM_TRANSFERRED = 'claim_transferred',
+  CLAIM_WARNING = 'claim_warning',
+  CLAIM_ESCALATED = 'claim_escalated',
+  CLAIM_EXPIRED = 'claim_expired',
   ERROR = 'error'
 }
 
@@ -28,6 +33,8 @@ export interface NotificationPayload {
   workDescription?: string;
   timestamp: Date;
   metadata?: Record<string, any>;
+  /** User or group mentions to include, in the target platform's syntax */
+  mentions?: string[];
 }
 
 /** Circuit breaker state for failed webhooks */
@@ -84,9 +91,11 @@ export class NotificationManager {
     // Initialize circuit breaker states
     if (this.slackWebhook) {
       this.circuitBreakerState.set('slack', { failures: 0, isOpen: false });
+      setCircuitBreakerState('slack', false);
     }
     if (this.discordWebhook) {
       this.circuitBreakerState.set('discord', { failures: 0, isOpen: false });
+      setCircuitBreakerState('discord', false);
     }
   }
 
@@ -141,6 +150,7 @@ export class NotificationManager {
       
       // Reset circuit breaker on success
       this.resetCircuitBreaker('slack');
+      recordWebhookResult('slack', 'success');
 
       const duration = Date.now() - startTime;
       if (this.config.logLevel === 'debug') {
@@ -178,6 +188,7 @@ export class NotificationManager {
       
       // Reset circuit breaker on success
       this.resetCircuitBreaker('discord');
+      recordWebhookResult('discord', 'success');
 
       const duration = Date.now() - startTime;
       if (this.config.logLevel === 'debug') {
@@ -201,8 +212,10 @@ export class NotificationManager {
     const emoji = this.getEmojiForType(payload.type);
     const color = this.getColorForType(payload.type);
     
+    const mentions = payload.mentions?.length ? `${payload.mentions.join(' ')} ` : '';
+    
     return {
-      text: `${emoji} Beep/Boop Coordination Update`,
+      text: `${mentions}${emoji} Beep/Boop Coordination Update`,
       attachments: [
         {
           color: color,
@@ -227,6 +240,11 @@ export class NotificationManager {
               value: payload.workDescription,
               short: false
             }] : []),
+            ...(payload.metadata?.claimAge ? [{
+              title: 'Claim Age',
+              value: payload.metadata.claimAge,
+              short: true
+            }] : []),
             {
               title: 'Time',
               value: payload.timestamp.toISOString(),
@@ -247,7 +265,8 @@ export class NotificationManager {
     const emoji = this.getEmojiForType(payload.type);
     const eventTitle = this.formatEventTitle(payload.type);
     
-    let message = `${emoji} **${eventTitle}**\n`;
+    let message = payload.mentions?.length ? `${payload.mentions.join(' ')}\n` : '';
+    message += `${emoji} **${eventTitle}**\n`;
     message += `📁 **Directory:** \`${payload.directory}\`\n`;
     
     if (payload.agentId) {
@@ -258,6 +277,10 @@ export class NotificationManager {
       message += `📝 **Work:** ${payload.workDescription}\n`;
     }
     
+    if (payload.metadata?.claimAge) {
+      message += `⏱️ **Claim Age:** ${payload.metadata.claimAge}\n`;
+    }
+    
     message += `🕒 **Time:** ${payload.timestamp.toISOString()}`;
     
     return message;
@@ -278,6 +301,14 @@ export class NotificationManager {
         return '⚠️';
       case NotificationType.CLEANUP_PERFORMED:
         return '🧹';
+      case NotificationType.CLAIM_TRANSFERRED:
+        return '🔁';
+      case NotificationType.CLAIM_WARNING:
+        return '⏳';
+      case NotificationType.CLAIM_ESCALATED:
+        return '🚨';
+      case NotificationType.CLAIM_EXPIRED:
+        return '⌛';
       case NotificationType.ERROR:
         return '💥';
       default:
@@ -300,6 +331,14 @@ export class NotificationManager {
         return '#ff9900'; // Orange
       case NotificationType.CLEANUP_PERFORMED:
         return '#0099ff'; // Blue
+      case NotificationType.CLAIM_TRANSFERRED:
+        return '#0099ff'; // Blue
+      case NotificationType.CLAIM_WARNING:
+        return '#ff9900'; // Orange
+      case NotificationType.CLAIM_ESCALATED:
+        return '#ff0000'; // Red
+      case NotificationType.CLAIM_EXPIRED:
+        return '#0099ff'; // Blue
       case NotificationType.ERROR:
         return '#ff0000'; // Red
       default:
@@ -322,6 +361,14 @@ export class NotificationManager {
         return 'Stale Work Detected';
       case NotificationType.CLEANUP_PERFORMED:
         return 'Cleanup Performed';
+      case NotificationType.CLAIM_TRANSFERRED:
+        return 'Claim Transferred';
+      case NotificationType.CLAIM_WARNING:
+        return 'Long-Running Claim';
+      case NotificationType.CLAIM_ESCALATED:
+        return 'Claim Escalated';
+      case NotificationType.CLAIM_EXPIRED:
+        return 'Claim Force-Expired';
       case NotificationType.ERROR:
         return 'Error Occurred';
       default:
@@ -360,10 +407,12 @@ export class NotificationManager {
 
     state.failures++;
     state.lastFailure = new Date();
+    recordWebhookResult(service, 'failure');
 
     // Open circuit breaker after configured number of failures
     if (state.failures >= this.config.notificationRetryAttempts) {
       state.isOpen = true;
+      setCircuitBreakerState(service, true);
       console.error(`⚡ Circuit breaker opened for ${service} notifications after ${state.failures} failures`);
     }
 
@@ -391,6 +440,7 @@ export class NotificationManager {
     if (state.lastFailure && (Date.now() - state.lastFailure.getTime()) > resetTime) {
       state.isOpen = false;
       state.failures = 0;
+      setCircuitBreakerState(service, false);
       console.error(`🔄 Circuit breaker reset for ${service} notifications`);
       return false;
     }
@@ -407,6 +457,7 @@ export class NotificationManager {
       state.failures = 0;
       state.lastFailure = undefined;
       state.isOpen = false;
+      setCircuitBreakerState(service, false);
     }
   }
 
@@ -0,0 +1,132 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BeepBoopConfig } from './config.js';
+import { OperationLimiter } from './operation-lock.js';
+import { CoordinationError, ErrorCode } from './types.js';
+
+/**
+ * Limiter with only the settings it reads
+ */
+function limiter(maxConcurrentOperations: number, operationQueueTimeoutMs: number): OperationLimiter {
+  return new OperationLimiter({ maxConcurrentOperations, operationQueueTimeoutMs } as BeepBoopConfig);
+}
+
+/**
+ * Operation that records when it starts and finishes
+ */
+function recorded(events: string[], name: string, durationMs: number): () => Promise<string> {
+  return async () => {
+    events.push(`start ${name}`);
+    await new Promise(resolve => setTimeout(resolve, durationMs));
+    events.push(`end ${name}`);
+    return name;
+  };
+}
+
+const isBusy = (error: unknown) => error instanceof CoordinationError && error.code === ErrorCode.OPERATION_BUSY;
+
+test('calls on the same directory run one at a time in arrival order', async () => {
+  const limit = limiter(5, 1000);
+  const events: string[] = [];
+
+  const results = await Promise.all([
+    limit.run(['/repo/a'], recorded(events, 'first', 20)),
+    limit.run(['/repo/a/'], recorded(events, 'second', 5)),
+    limit.run(['/repo/a'], recorded(events, 'third', 5))
+  ]);
+
+  assert.deepEqual(results, ['first', 'second', 'third']);
+  assert.deepEqual(events, ['start first', 'end first', 'start second', 'end second', 'start third', 'end third']);
+});
+
+test('nested directories are serialized but siblings run side by side', async () => {
+  const limit = limiter(5, 1000);
+  const events: string[] = [];
+
+  await Promise.all([
+    limit.run(['/repo/a'], recorded(events, 'parent', 20)),
+    limit.run(['/repo/a/b'], recorded(events, 'child', 5)),
+    limit.run(['/repo/ab'], recorded(events, 'sibling', 5))
+  ]);
+
+  assert.deepEqual(events, ['start parent', 'start sibling', 'end sibling', 'end parent', 'start child', 'end child']);
+});
+
+test('a call waits behind an earlier overlapping call even when it could start', async () => {
+  const limit = limiter(5, 1000);
+  const events: string[] = [];
+
+  await Promise.all([
+    limit.run(['/repo/a'], recorded(events, 'holder', 20)),
+    limit.run(['/repo/a', '/repo/b'], recorded(events, 'both', 5)),
+    limit.run(['/repo/b'], recorded(events, 'later', 5))
+  ]);
+
+  assert.deepEqual(events, ['start holder', 'end holder', 'start both', 'end both', 'start later', 'end later']);
+});
+
+test('every call takes a global slot, with or without directories', async () => {
+  const limit = limiter(1, 1000);
+  const events: string[] = [];
+
+  await Promise.all([
+    limit.run([], recorded(events, 'first', 10)),
+    limit.run(['/repo/a'], recorded(events, 'second', 5))
+  ]);
+
+  assert.deepEqual(events, ['start first', 'end first', 'start second', 'end second']);
+});
+
+test('a call that cannot start in time fails with OPERATION_BUSY and does not run', async () => {
+  const limit = limiter(5, 30);
+  const events: string[] = [];
+
+  const [held, blocked] = await Promise.allSettled([
+    limit.run(['/repo/a'], recorded(events, 'holder', 100)),
+    limit.run(['/repo/a/b'], recorded(events, 'blocked', 5))
+  ]);
+
+  assert.equal(held.status, 'fulfilled');
+  assert.equal(blocked.status, 'rejected');
+  assert.ok(isBusy((blocked as PromiseRejectedResult).reason));
+  assert.match((blocked as PromiseRejectedResult).reason.message, /Directory \/repo\/a\/b is busy/);
+  assert.deepEqual(events, ['start holder', 'end holder']);
+});
+
+test('a timed-out call stops holding back the calls queued behind it', async () => {
+  const limit = limiter(5, 30);
+  const events: string[] = [];
+
+  const results = await Promise.allSettled([
+    limit.run(['/repo/a'], recorded(events, 'holder', 100)),
+    limit.run(['/repo/a', '/repo/b'], recorded(events, 'expires', 5)),
+    // Only waits because the call before it is queued on /repo/b
+    limit.run(['/repo/b'], recorded(events, 'later', 5))
+  ]);
+
+  assert.deepEqual(results.map(result => result.status), ['fulfilled', 'rejected', 'fulfilled']);
+  assert.ok(isBusy((results[1] as PromiseRejectedResult).reason));
+  assert.deepEqual(events, ['start holder', 'start later', 'end later', 'end holder']);
+});
+
+test('calls beyond the global limit fail with a server busy error', async () => {
+  const limit = limiter(1, 30);
+
+  const [, blocked] = await Promise.allSettled([
+    limit.run(['/repo/a'], async () => new Promise(resolve => setTimeout(resolve, 100))),
+    limit.run(['/repo/b'], async () => 'unreachable')
+  ]);
+
+  assert.equal(blocked.status, 'rejected');
+  assert.match((blocked as PromiseRejectedResult).reason.message, /^Server is busy: 1 operations are already running/);
+});
+
+test('a failed operation releases its directories', async () => {
+  const limit = limiter(1, 100);
+
+  await assert.rejects(limit.run(['/repo/a'], async () => {
+    throw new Error('boom');
+  }), /boom/);
+
+  assert.equal(await limit.run(['/repo/a'], async () => 'next'), 'next');
+});
@@ -0,0 +1,135 @@
+/**
+ * In-process serialization of tool calls
+ *
+ * Tool calls that touch the same directory, or a directory and one inside
+ * it, run one at a time in the order they arrived, so parallel calls from one
+ * client cannot interleave their status checks and file writes. At most
+ * maxConcurrentOperations calls run at once, whether or not they name a
+ * directory. A call that cannot start within operationQueueTimeoutMs fails
+ * with OPERATION_BUSY instead of waiting indefinitely. Other processes still
+ * coordinate through the files themselves.
+ */
+
+import { isAbsolute, relative, resolve, sep } from 'path';
+import { BeepBoopConfig } from './config.js';
+import { CoordinationError, ErrorCode } from './types.js';
+
+/** A call waiting for its directories and a free slot */
+interface Waiter {
+  directories: string[];
+  start: () => void;
+}
+
+/**
+ * Whether a directory is the other directory or inside it
+ */
+function isWithin(directory: string, other: string): boolean {
+  const path = relative(other, directory);
+  return path === '' || (path !== '..' && !path.startsWith(`..${sep}`) && !isAbsolute(path));
+}
+
+/**
+ * Whether two calls touch a common directory, counting ancestors and descendants
+ */
+function overlaps(first: string[], second: string[]): boolean {
+  return first.some(directory => second.some(other => isWithin(directory, other) || isWithin(other, directory)));
+}
+
+/**
+ * Limits and orders the operations this process runs against directories
+ */
+export class OperationLimiter {
+  private config: BeepBoopConfig;
+  /** Directories held by each running operation */
+  private running: string[][] = [];
+  private waiters: Waiter[] = [];
+
+  constructor(config: BeepBoopConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Run an operation once no running or earlier call touches its directories
+   * and a slot is free. Calls are admitted all at once rather than directory by
+   * directory, so calls naming several directories cannot deadlock. Throws
+   * OPERATION_BUSY if that takes longer than the queue timeout.
+   */
+  async run<T>(directories: string[], operation: () => Promise<T>): Promise<T> {
+    const held = [...new Set(directories.map(directory => resolve(directory)))];
+    await this.admit(held);
+    try {
+      return await operation();
+    } finally {
+      this.running.splice(this.running.indexOf(held), 1);
+      this.startWaiters();
+    }
+  }
+
+  private admit(directories: string[]): Promise<void> {
+    if (this.canStart(directories, this.waiters)) {
+      this.running.push(directories);
+      return Promise.resolve();
+    }
+
+    return new Promise((resolvePromise, reject) => {
+      const waiter: Waiter = {
+        directories,
+        start: () => {
+          clearTimeout(timer);
+          resolvePromise();
+        }
+      };
+      const timer = setTimeout(() => {
+        const error = this.busyError(waiter);
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        // Calls queued behind this one may be able to start now
+        this.startWaiters();
+        reject(error);
+      }, this.config.operationQueueTimeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Start waiting calls in arrival order. A call that cannot start yet keeps
+   * later calls on overlapping directories waiting behind it.
+   */
+  private startWaiters(): void {
+    const ahead: Waiter[] = [];
+    for (const waiter of [...this.waiters]) {
+      if (this.canStart(waiter.directories, ahead)) {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        this.running.push(waiter.directories);
+        waiter.start();
+      } else {
+        ahead.push(waiter);
+      }
+    }
+  }
+
+  private canStart(directories: string[], ahead: Waiter[]): boolean {
+    return this.running.length < this.config.maxConcurrentOperations &&
+      !this.running.some(held => overlaps(held, directories)) &&
+      !ahead.some(waiter => overlaps(waiter.directories, directories));
+  }
+
+  private busyError(waiter: Waiter): CoordinationError {
+    const timeoutMs = this.config.operationQueueTimeoutMs;
+    const blocking = [
+      ...this.running,
+      ...this.waiters.slice(0, this.waiters.indexOf(waiter)).map(earlier => earlier.directories)
+    ];
+    const busy = waiter.directories.find(directory => blocking.some(held => overlaps(held, [directory])));
+    if (busy) {
+      return new CoordinationError(
+        `Directory ${busy} is busy: another operation on it, or on a directory inside or above it, did not finish within ${timeoutMs}ms. Try again shortly`,
+        ErrorCode.OPERATION_BUSY,
+        busy
+      );
+    }
+    return new CoordinationError(
+      `Server is busy: ${this.config.maxConcurrentOperations} operations are already running and none finished within ${timeoutMs}ms. Try again shortly`,
+      ErrorCode.OPERATION_BUSY
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BeepBoopConfig, loadConfig } from './config.js';
+import { createBoopFile, getWorkStatus } from './file-operations.js';
+import { listBackups } from './backup.js';
+import { describeStaleRefusal, sweepStaleClaims } from './startup-sweep.js';
+import { WorkState } from './types.js';
+
+let root: string;
+let config: BeepBoopConfig;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'beep-boop-test-'));
+  config = {
+    ...loadConfig(),
+    blockedDirectories: [],
+    allowedDirectories: [root],
+    backupEnabled: false,
+    backupDir: join(root, '.backups'),
+    forceCleanupOnStart: false,
+    failOnStale: false
+  };
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+/**
+ * Claim a new directory under the root, with a lease that has already expired when stale
+ */
+async function claim(name: string, agentId: string, stale: boolean): Promise<string> {
+  const directory = join(root, name);
+  await mkdir(directory);
+  await createBoopFile(directory, agentId, 'work', stale ? { ...config, leaseDurationHours: 0 } : config);
+  return directory;
+}
+
+test('stale claims are removed on startup and backed up even with backups disabled', async () => {
+  const stale = await claim('stale', 'agent-a', true);
+  const live = await claim('live', 'agent-b', false);
+
+  const sweep = await sweepStaleClaims({ ...config, forceCleanupOnStart: true });
+
+  assert.deepEqual(sweep.stale.map(listing => listing.directory), [stale]);
+  assert.deepEqual(sweep.cleaned, [stale]);
+  assert.deepEqual(sweep.remaining, []);
+  assert.equal((await getWorkStatus(stale, config)).status, WorkState.NO_COORDINATION);
+  assert.equal((await getWorkStatus(live, config)).agentId, 'agent-b');
+
+  const [backup] = await listBackups(config, stale);
+  assert.deepEqual(backup.files, ['boop']);
+  assert.ok((await readdir(join(config.backupDir, backup.id))).includes('boop'));
+});
+
+test('without forceCleanupOnStart stale claims are left in place and reported', async () => {
+  const first = await claim('first', 'agent-a', true);
+  const second = await claim('second', 'agent-b', true);
+  await claim('live', 'agent-c', false);
+
+  const sweep = await sweepStaleClaims({ ...config, failOnStale: true });
+
+  assert.deepEqual(sweep.cleaned, []);
+  assert.deepEqual(sweep.remaining.map(listing => listing.directory).sort(), [first, second]);
+  assert.equal((await getWorkStatus(first, config)).agentId, 'agent-a');
+
+  const refusal = describeStaleRefusal(sweep.remaining);
+  assert.equal(refusal[0], '❌ Refusing to start: 2 stale claims found (BEEP_BOOP_FAIL_ON_STALE=true)');
+  assert.equal(refusal.length, 3);
+  assert.ok(refusal.some(line => line.startsWith(`   • ${first} - agent-a`)));
+  assert.ok(refusal.some(line => line.startsWith(`   • ${second} - agent-b`)));
+});
@@ -0,0 +1,74 @@
+/**
+ * Startup check for claims left behind by earlier runs
+ *
+ * With BEEP_BOOP_FORCE_CLEANUP_ON_START stale claims under the allowed
+ * directories are removed (boop files are always backed up first), and with
+ * BEEP_BOOP_FAIL_ON_STALE any stale claim still in place stops the server
+ * from starting.
+ */
+
+import { ClaimListing, WorkState } from './types.js';
+import { BeepBoopConfig } from './config.js';
+import { listClaims, defaultScanRoots } from './claim-scan.js';
+import { getWorkStatus, cleanupStaleBoopAndClaim, cleanupExpiredSharedClaims } from './file-operations.js';
+
+/** Outcome of the startup sweep */
+export interface StartupSweepResult {
+  /** Stale claims found under the scanned roots */
+  stale: ClaimListing[];
+  /** Directories whose stale claims were removed */
+  cleaned: string[];
+  /** Stale claims still in place */
+  remaining: ClaimListing[];
+}
+
+/**
+ * Find stale claims under the allowed directories and, with
+ * forceCleanupOnStart, remove them
+ */
+export async function sweepStaleClaims(config: BeepBoopConfig): Promise<StartupSweepResult> {
+  const stale: ClaimListing[] = [];
+  const seen = new Set<string>();
+  for (const root of defaultScanRoots(config)) {
+    for (const listing of await listClaims(root, config)) {
+      if (listing.stale && !seen.has(listing.directory)) {
+        seen.add(listing.directory);
+        stale.push(listing);
+      }
+    }
+  }
+
+  const cleaned: string[] = [];
+  const remaining: ClaimListing[] = [];
+  for (const listing of stale) {
+    if (!config.forceCleanupOnStart) {
+      remaining.push(listing);
+      continue;
+    }
+    try {
+      await cleanupExpiredSharedClaims(listing.directory, config);
+      if (listing.status !== WorkState.SHARED_IN_PROGRESS) {
+        const status = await getWorkStatus(listing.directory, config);
+        // Backed up even when backups are otherwise disabled, since nobody reviews this cleanup
+        await cleanupStaleBoopAndClaim(listing.directory, status.agentId ?? 'unknown', undefined, undefined, { ...config, backupEnabled: true });
+      }
+      cleaned.push(listing.directory);
+    } catch (error) {
+      console.error(`⚠️ Could not clean up stale claim in ${listing.directory}: ${error}`);
+      remaining.push(listing);
+    }
+  }
+
+  return { stale, cleaned, remaining };
+}
+
+/**
+ * Lines explaining why the server refuses to start with stale claims in place,
+ * one per offending directory after the headline
+ */
+export function describeStaleRefusal(remaining: ClaimListing[]): string[] {
+  return [
+    `❌ Refusing to start: ${remaining.length} stale claim${remaining.length !== 1 ? 's' : ''} found (BEEP_BOOP_FAIL_ON_STALE=true)`,
+    ...remaining.map(listing => `   • ${listing.directory} - ${listing.agentId || 'unknown agent'}${listing.age ? ` (${listing.age})` : ''}`)
+  ];
+}
@@ -0,0 +1,91 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig } from './config.js';
+import { getWorkStatus } from './file-operations.js';
+import { handleUpdateBoop } from './tools.js';
+import { ErrorCode } from './types.js';
+
+let root: string;
+let packages: string;
+let api: string;
+let savedEnv: NodeJS.ProcessEnv;
+
+beforeEach(async () => {
+  savedEnv = { ...process.env };
+  for (const key of Object.keys(process.env)) {
+    if (key.startsWith('BEEP_BOOP_') || key === 'NODE_ENV') {
+      delete process.env[key];
+    }
+  }
+  // The temp directory lives under a directory blocked by default
+  process.env.BEEP_BOOP_BLOCKED_DIRECTORIES = '/nonexistent';
+  root = await mkdtemp(join(tmpdir(), 'beep-boop-test-'));
+  await mkdir(join(root, '.git'));
+  packages = join(root, 'packages');
+  api = join(packages, 'api');
+  await mkdir(api, { recursive: true });
+});
+
+afterEach(async () => {
+  process.env = savedEnv;
+  await rm(root, { recursive: true, force: true });
+});
+
+/**
+ * Text of a tool response
+ */
+function text(response: { content: Array<{ text: string }> }): string {
+  return response.content.map(part => part.text).join('\n');
+}
+
+test('shared claims coexist in the same directory and in nested directories', async () => {
+  assert.equal((await handleUpdateBoop({ directory: packages, agentId: 'agent-a', mode: 'shared' })).isError, undefined);
+  assert.equal((await handleUpdateBoop({ directory: packages, agentId: 'agent-b', mode: 'shared' })).isError, undefined);
+  assert.equal((await handleUpdateBoop({ directory: api, agentId: 'agent-c', mode: 'shared' })).isError, undefined);
+
+  const holders = (await getWorkStatus(packages, loadConfig())).holders.map(holder => holder.agentId).sort();
+  assert.deepEqual(holders, ['agent-a', 'agent-b']);
+});
+
+test('an exclusive claim below a shared claim is refused', async () => {
+  await handleUpdateBoop({ directory: packages, agentId: 'agent-a', mode: 'shared' });
+
+  const response = await handleUpdateBoop({ directory: api, agentId: 'agent-b' });
+
+  assert.equal(response.isError, true);
+  assert.match(text(response), new RegExp(ErrorCode.NESTED_CLAIM_CONFLICT));
+  assert.match(text(response), /ancestor .*packages claimed by agent-a \(shared\)/);
+  assert.equal((await getWorkStatus(api, loadConfig())).boopExists, false);
+});
+
+test('a shared claim above an exclusive claim is refused', async () => {
+  await handleUpdateBoop({ directory: api, agentId: 'agent-b' });
+
+  const response = await handleUpdateBoop({ directory: packages, agentId: 'agent-a', mode: 'shared' });
+
+  assert.equal(response.isError, true);
+  assert.match(text(response), /descendant .*api claimed by agent-b/);
+  assert.deepEqual((await getWorkStatus(packages, loadConfig())).holders, []);
+});
+
+test('an exclusive claim is refused in a directory with shared holders', async () => {
+  await handleUpdateBoop({ directory: api, agentId: 'agent-a', mode: 'shared' });
+
+  const response = await handleUpdateBoop({ directory: api, agentId: 'agent-b' });
+
+  assert.equal(response.isError, true);
+  assert.match(text(response), /shared holders \(agent-a\)/);
+});
+
+test('overlapping shared and exclusive claims are reported under the warn policy', async () => {
+  process.env.BEEP_BOOP_NESTED_CLAIM_POLICY = 'warn';
+  await handleUpdateBoop({ directory: api, agentId: 'agent-b' });
+
+  const response = await handleUpdateBoop({ directory: packages, agentId: 'agent-a', mode: 'shared' });
+
+  assert.equal(response.isError, undefined);
+  assert.match(text(response), /Overlapping claims detected:\n• descendant .*api claimed by agent-b/);
+});
@@ -6,27 +6,68 @@ import { z } from 'zod';
 import { 
   ToolResponse,
   CoordinationError,
+  ErrorCode,
   WorkState,
   CreateBeepParams,
   UpdateBoopParams,
   EndWorkParams,
   CheckStatusParams,
+  RenewBoopParams,
+  ClaimManyParams,
+  EndWorkManyParams,
+  JoinQueueParams,
+  TransferClaimParams,
+  ListClaimsParams,
+  RepairStateParams,
+  RepairProposal,
+  GetHistoryParams,
+  RestoreBackupParams,
+  QueryAuditLogParams,
+  DirectoryOperationResult,
   UpdateUserParams,
   InitiateConversationParams
 } from './types.js';
 import {
   createBeepFile,
   createBoopFile,
+  updateBoopFile,
+  removeBeepFile,
   endWorkAtomically,
   getWorkStatus,
   validateAgentId,
   validateAgentIdWithConfig,
   validateDirectoryAccess,
-  isFileStale,
+  isClaimStale,
+  renewBoopLease,
+  transferClaim,
+  findNestedClaims,
+  describeClaimConflicts,
+  claimManyAtomically,
+  endWorkMany,
+  createSharedBoopFile,
+  releaseSharedClaim,
+  cleanupExpiredSharedClaims,
+  formatHolders,
   getFileAgeDescription,
-  cleanupStaleBoopAndClaim
+  cleanupStaleBoopAndClaim,
+  proposeStateRepair,
+  applyStateRepair,
+  checkCoordinationFilePermissions
 } from './file-operations.js';
-import { loadConfig } from './config.js';
+import { loadConfig, checkConfig } from './config.js';
+import {
+  joinQueue,
+  readQueue,
+  reserveForNextInQueue,
+  assertNotReservedForOther,
+  consumeQueueEntry,
+  describeQueue
+} from './claim-queue.js';
+import { listClaims, describeClaimListingSummary, LIST_CLAIMS_DEFAULT_DEPTH } from './claim-scan.js';
+import { readHistory, formatHistory } from './history.js';
+import { listBackups, restoreBackup, formatBackups, LIST_BACKUPS_DEFAULT_LIMIT } from './backup.js';
+import { readAuditLog, formatAuditRecords } from './audit-log.js';
+import { observeConversationWait } from './metrics.js';
 import { NotificationManager, NotificationType, createNotificationManager } from './notification-service.js';
 import { InboxStore } from './ingress/inbox.js';
 
@@ -44,7 +85,9 @@ export const CreateBeepSchema = z.object({
 export const UpdateBoopSchema = z.object({
   directory: z.string().describe('Directory path where to create/update the boop file'),
   agentId: z.string().describe('Agent identifier claiming the work'),
-  workDescription: z.string().optional().describe('Optional description of the work being done')
+  workDescription: z.string().optional().describe('Optional description of the work being done'),
+  fencingToken: z.number().int().optional().describe('Fencing token returned when the claim was made (required when updating an existing claim)'),
+  mode: z.enum(['shared', 'exclusive']).optional().default('exclusive').describe('Claim mode: "shared" for read/review access alongside other shared holders, "exclusive" for write access (default: exclusive)')
 });
 
 /**
@@ -53,9 +96,61 @@ export const UpdateBoopSchema = z.object({
 export const EndWorkSchema = z.object({
   directory: z.string().describe('Directory path where work is being completed'),
   agentId: z.string().describe('Agent identifier that was doing the work'),
+  message: z.string().optional().describe('Optional completion message'),
+  fencingToken: z.number().int().optional().describe('Fencing token returned by update_boop when the claim was made')
+});
+
+/**
+ * Schema for renew_boop tool parameters
+ */
+export const RenewBoopSchema = z.object({
+  directory: z.string().describe('Directory path where the claim is held'),
+  agentId: z.string().describe('Agent identifier holding the claim'),
+  leaseHours: z.number().positive().optional().describe('Lease length in hours from now (defaults to configured lease duration)'),
+  fencingToken: z.number().int().optional().describe('Fencing token returned by update_boop when the claim was made')
+});
+
+/**
+ * Schema for transfer_claim tool parameters
+ */
+export const TransferClaimSchema = z.object({
+  directory: z.string().describe('Directory path where the claim is held'),
+  fromAgentId: z.string().describe('Agent identifier currently holding the claim'),
+  toAgentId: z.string().describe('Agent identifier that will take over the claim'),
+  fencingToken: z.number().int().optional().describe('Fencing token returned by update_boop when the claim was made'),
+  reason: z.string().optional().describe('Optional reason for the handoff')
+});
+
+/**
+ * Schema for claim_many tool parameters
+ */
+export const ClaimManySchema = z.object({
+  directories: z.array(z.string()).min(1).describe('Directory paths to claim together (all or none)'),
+  agentId: z.string().describe('Agent identifier claiming the work'),
+  workDescription: z.string().optional().describe('Optional description of the work being done')
+});
+
+/**
+ * Schema for end_work_many tool parameters
+ */
+export const EndWorkManySchema = z.object({
+  claims: z.array(z.object({
+    directory: z.string().describe('Directory path where work is being completed'),
+    fencingToken: z.number().int().optional().describe('Fencing token returned when the directory was claimed')
+  })).min(1).describe('Directories to release'),
+  agentId: z.string().describe('Agent identifier that was doing the work'),
   message: z.string().optional().describe('Optional completion message')
 });
 
+/**
+ * Schema for join_queue tool parameters
+ */
+export const JoinQueueSchema = z.object({
+  directory: z.string().describe('Directory path to wait for'),
+  agentId: z.string().describe('Agent identifier joining the queue'),
+  workDescription: z.string().optional().describe('Optional description of the work you plan to do')
+});
+
 /**
  * Schema for check_status tool parameters
  */
@@ -67,6 +162,58 @@ export const CheckStatusSchema = z.object({
   newWorkDescription: z.string().optional().describe('Work description when claiming after cleanup')
 });
 
+/**
+ * Schema for list_claims tool parameters
+ */
+export const ListClaimsSchema = z.object({
+  root: z.string().describe('Root directory to scan (usually the repository root)'),
+  maxDepth: z.number().int().positive().optional().default(LIST_CLAIMS_DEFAULT_DEPTH).describe(`Maximum depth below the root to scan (default: ${LIST_CLAIMS_DEFAULT_DEPTH})`),
+  maxAgeHours: z.number().optional().describe('Maximum age in hours before a claim is reported as stale (defaults to configured value)')
+});
+
+/**
+ * Schema for repair_state tool parameters
+ */
+export const RepairStateSchema = z.object({
+  directory: z.string().describe('Directory path in INVALID_STATE (both beep and boop exist)'),
+  confirm: z.boolean().optional().default(false).describe('Apply the resolution; when false only the proposal is shown (default: false)'),
+  keep: z.enum(['beep', 'boop']).optional().describe('Override the proposed resolution by choosing which file to keep'),
+  maxAgeHours: z.number().optional().default(24).describe('Maximum age in hours before a boop without a lease is considered inactive (default: 24)')
+});
+
+/**
+ * Schema for get_history tool parameters
+ */
+export const GetHistorySchema = z.object({
+  directory: z.string().describe('Directory path whose history to read'),
+  agentId: z.string().optional().describe('Only include events involving this agent'),
+  since: z.string().optional().describe('Only include events at or after this time (ISO 8601)'),
+  until: z.string().optional().describe('Only include events at or before this time (ISO 8601)'),
+  limit: z.number().int().positive().optional().default(50).describe('Maximum number of most recent events to return (default: 50)')
+});
+
+/**
+ * Schema for restore_backup tool parameters
+ */
+export const RestoreBackupSchema = z.object({
+  backupId: z.string().optional().describe('Backup to restore; omit to list available backups'),
+  directory: z.string().optional().describe('Only list backups taken from this directory'),
+  agentId: z.string().optional().describe('Agent performing the restore, recorded in the directory history'),
+  limit: z.number().int().positive().optional().default(LIST_BACKUPS_DEFAULT_LIMIT).describe(`Maximum number of backups to list (default: ${LIST_BACKUPS_DEFAULT_LIMIT})`)
+});
+
+/**
+ * Schema for query_audit_log tool parameters
+ */
+export const QueryAuditLogSchema = z.object({
+  agentId: z.string().optional().describe('Only include records for this acting agent'),
+  directory: z.string().optional().describe('Only include records touching this directory'),
+  operation: z.string().optional().describe('Only include records for this operation (e.g. update_boop, check_status)'),
+  since: z.string().optional().describe('Only include records at or after this time (ISO 8601)'),
+  until: z.string().optional().describe('Only include records at or before this time (ISO 8601)'),
+  limit: z.number().int().positive().optional().default(50).describe('Maximum number of most recent records to return (default: 50)')
+});
+
 /** Schema for update_user tool parameters */
 export const UpdateUserSchema = z.object({
   messageId: z.string().describe('ID of the captured message to respond to'),
@@ -86,6 +233,9 @@ export const CheckListenerStatusSchema = z.object({
   includeConfig: z.boolean().optional().default(false).describe('Whether to include configuration details in response')
 });
 
+/** Schema for validate_config tool parameters */
+export const ValidateConfigSchema = z.object({});
+
 /**
  * Tool: create_beep
  * Creates a beep file to signal work completion
@@ -103,7 +253,7 @@ export async function handleCreateBeep(params: CreateBeepParams): Promise<ToolRe
         return {
           content: [{
             type: "text",
-            text: `❌ ${accessError.message}`
+            text: `❌ ${accessError.message} (${accessError.code})`
           }],
           isError: true
         };
@@ -112,13 +262,13 @@ export async function handleCreateBeep(params: CreateBeepParams): Promise<ToolRe
     }
     
     // Check current status first
-    const status = await getWorkStatus(directory);
+    const status = await getWorkStatus(directory, config);
     
     if (status.status === WorkState.WORK_IN_PROGRESS) {
       return {
         content: [{
           type: "text",
-          text: `⚠️ Cannot create beep file: Work is currently in progress by agent ${status.agentId}. Use end_work tool instead.`
+          text: `⚠️ Cannot create beep file: Work is currently in progress by agent ${status.agentId}. Use end_work tool instead. (${ErrorCode.WORK_ALREADY_IN_PROGRESS})`
         }],
         isError: true
       };
@@ -159,7 +309,7 @@ export async function handleCreateBeep(params: CreateBeepParams): Promise<ToolRe
  */
 export async function handleUpdateBoop(params: UpdateBoopParams): Promise<ToolResponse> {
   try {
-    const { directory, agentId, workDescription } = params;
+    const { directory, agentId, workDescription, fencingToken, mode = 'exclusive' } = params;
     const config = loadConfig();
     
     // Validate directory access
@@ -170,7 +320,7 @@ export async function handleUpdateBoop(params: UpdateBoopParams): Promise<ToolRe
         return {
           content: [{
             type: "text",
-            text: `❌ ${accessError.message}`
+            text: `❌ ${accessError.message} (${accessError.code})`
           }],
           isError: true
         };
@@ -197,20 +347,93 @@ export async function handleUpdateBoop(params: UpdateBoopParams): Promise<ToolRe
       return {
         content: [{
           type: "text",
-          text: `❌ Invalid agent ID "${agentId}": ${reasons.join(', ')}`
+          text: `❌ Invalid agent ID "${agentId}": ${reasons.join(', ')} (${ErrorCode.INVALID_AGENT_ID})`
         }],
         isError: true
       };
     }
 
     // Check current status
-    const status = await getWorkStatus(directory);
+    const status = await getWorkStatus(directory, config);
+    
+    if (status.status === WorkState.CORRUPT_FILE) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ ${status.details} (${ErrorCode.CORRUPT_FILE})`
+        }],
+        isError: true
+      };
+    }
     
     if (status.status === WorkState.WORK_IN_PROGRESS && status.agentId !== agentId) {
       return {
         content: [{
           type: "text",
-          text: `⚠️ Cannot claim work: Directory is already being worked on by agent ${status.agentId}. Wait for work to complete or use check_status to monitor progress.`
+          text: `⚠️ Cannot claim work: Directory is already being worked on by agent ${status.agentId}. Use join_queue to be handed the directory when the work completes, or check_status to monitor progress. (${ErrorCode.WORK_ALREADY_IN_PROGRESS})`
+        }],
+        isError: true
+      };
+    }
+
+    // A directory released to a queued agent stays reserved for it until the grace period ends
+    if (status.status !== WorkState.WORK_IN_PROGRESS) {
+      await assertNotReservedForOther(directory, agentId, config);
+    }
+
+    // New claims must not overlap claims held in ancestor or descendant directories;
+    // shared claims only coexist with other shared claims
+    let nestedWarning = '';
+    if (status.status !== WorkState.WORK_IN_PROGRESS && config.nestedClaimPolicy !== 'off') {
+      const conflicts = await findNestedClaims(directory, agentId, config, mode);
+      if (conflicts.length > 0) {
+        if (config.nestedClaimPolicy === 'block') {
+          return {
+            content: [{
+              type: "text",
+              text: `⚠️ Cannot claim work: overlapping claims exist (${ErrorCode.NESTED_CLAIM_CONFLICT}):\n${describeClaimConflicts(conflicts)}\nWait for those claims to finish or claim a directory that does not overlap them.`
+            }],
+            isError: true
+          };
+        }
+        nestedWarning = `\n⚠️ Overlapping claims detected:\n${describeClaimConflicts(conflicts)}`;
+      }
+    }
+
+    // Shared (read) claims coexist with each other but never with an exclusive claim
+    if (mode === 'shared') {
+      if (status.status === WorkState.WORK_IN_PROGRESS) {
+        return {
+          content: [{
+            type: "text",
+            text: `⚠️ Agent ${agentId} already holds an exclusive claim on ${directory}. Use end_work to release it before taking a shared claim. (${ErrorCode.WORK_ALREADY_IN_PROGRESS})`
+          }],
+          isError: true
+        };
+      }
+
+      await createSharedBoopFile(directory, agentId, workDescription, config);
+      await consumeQueueEntry(directory, agentId, config);
+      const updated = await getWorkStatus(directory, config);
+      
+      return {
+        content: [{
+          type: "text",
+          text: `✅ Shared claim recorded in ${directory} for agent ${agentId}.${workDescription ? ` Work: ${workDescription}` : ''}\n👥 Current holders: ${updated.holders.map(holder => `${holder.agentId} (${holder.mode})`).join(', ')}\nUse end_work to release the shared claim.${nestedWarning}`
+        }]
+      };
+    }
+
+    const otherSharedHolders = status.holders.filter(holder =>
+      holder.mode === 'shared' &&
+      holder.agentId !== agentId &&
+      !(holder.leaseExpiresAt && holder.leaseExpiresAt.getTime() <= Date.now())
+    );
+    if (otherSharedHolders.length > 0) {
+      return {
+        content: [{
+          type: "text",
+          text: `⚠️ Cannot claim exclusive access: Directory has shared holders (${otherSharedHolders.map(holder => holder.agentId).join(', ')}). Wait for them to release or take a shared claim instead. (${ErrorCode.WORK_ALREADY_IN_PROGRESS})`
         }],
         isError: true
       };
@@ -220,10 +443,7 @@ export async function handleUpdateBoop(params: UpdateBoopParams): Promise<ToolRe
     // If transitioning from WORK_ALLOWED to WORK_IN_PROGRESS, remove beep file first
     if (status.status === WorkState.WORK_ALLOWED && status.beepExists) {
       try {
-        const { promises: fs } = await import('fs');
-        const { join } = await import('path');
-        const beepPath = join(directory, 'beep');
-        await fs.unlink(beepPath);
+        await removeBeepFile(directory, config, `Beep replaced by claim from ${agentId}`);
       } catch (error) {
         // If we can't remove beep file, don't proceed to avoid invalid state
         return {
@@ -236,7 +456,14 @@ export async function handleUpdateBoop(params: UpdateBoopParams): Promise<ToolRe
       }
     }
 
-    await createBoopFile(directory, agentId, workDescription, config);
+    // Existing claims are rewritten in place; new claims use exclusive create so
+    // a concurrent claimer gets WORK_ALREADY_IN_PROGRESS instead of overwriting
+    const claim = status.status === WorkState.WORK_IN_PROGRESS
+      ? await updateBoopFile(directory, agentId, workDescription, config, fencingToken)
+      : await createBoopFile(directory, agentId, workDescription, config);
+    if (status.status !== WorkState.WORK_IN_PROGRESS) {
+      await consumeQueueEntry(directory, agentId, config);
+    }
     
     const actionText = status.status === WorkState.WORK_IN_PROGRESS 
       ? 'updated' 
@@ -271,7 +498,7 @@ export async function handleUpdateBoop(params: UpdateBoopParams): Promise<ToolRe
     return {
       content: [{
         type: "text",
-        text: `✅ Boop file ${actionText} successfully in ${directory}. Work is now claimed by agent ${agentId}.${workDescription ? ` Work: ${workDescription}` : ''}`
+        text: `✅ Boop file ${actionText} successfully in ${directory}. Work is now claimed by agent ${agentId}.${workDescription ? ` Work: ${workDescription}` : ''}${claim.fencingToken !== undefined ? `\n🔑 Fencing token: ${claim.fencingToken} (pass it to end_work, renew_boop and later update_boop calls)` : ''}${nestedWarning}`
       }]
     };
   } catch (error) {
@@ -301,7 +528,7 @@ export async function handleUpdateBoop(params: UpdateBoopParams): Promise<ToolRe
  */
 export async function handleEndWork(params: EndWorkParams): Promise<ToolResponse> {
   try {
-    const { directory, agentId, message } = params;
+    const { directory, agentId, message, fencingToken } = params;
     const config = loadConfig();
     
     // Validate directory access
@@ -312,7 +539,7 @@ export async function handleEndWork(params: EndWorkParams): Promise<ToolResponse
         return {
           content: [{
             type: "text",
-            text: `❌ ${accessError.message}`
+            text: `❌ ${accessError.message} (${accessError.code})`
           }],
           isError: true
         };
@@ -339,7 +566,7 @@ export async function handleEndWork(params: EndWorkParams): Promise<ToolResponse
       return {
         content: [{
           type: "text",
-          text: `❌ Invalid agent ID "${agentId}": ${reasons.join(', ')}`
+          text: `❌ Invalid agent ID "${agentId}": ${reasons.join(', ')} (${ErrorCode.INVALID_AGENT_ID})`
         }],
         isError: true
       };
@@ -348,13 +575,30 @@ export async function handleEndWork(params: EndWorkParams): Promise<ToolResponse
     // Get work start time for duration calculation
     let workStartTime: Date | undefined;
     try {
-      const preStatus = await getWorkStatus(directory);
+      const preStatus = await getWorkStatus(directory, config);
       workStartTime = preStatus.boopTimestamp;
-    } catch {
-      // Ignore errors - we'll proceed without duration info
+
+      // Agents holding only a shared claim release it without touching beep/boop
+      const ownsExclusive = preStatus.holders.some(holder => holder.mode === 'exclusive' && holder.agentId === agentId);
+      const ownsShared = preStatus.holders.some(holder => holder.mode === 'shared' && holder.agentId === agentId);
+      if (!ownsExclusive && ownsShared) {
+        await releaseSharedClaim(directory, agentId, config);
+        return {
+          content: [{
+            type: "text",
+            text: `✅ Shared claim released by agent ${agentId} in ${directory}.`
+          }]
+        };
+      }
+    } catch (error) {
+      if (error instanceof CoordinationError && error.code !== ErrorCode.DIRECTORY_NOT_FOUND) {
+        throw error;
+      }
+      // Ignore other errors - we'll proceed without duration info
     }
 
-    await endWorkAtomically(directory, agentId, message, config);
+    await endWorkAtomically(directory, agentId, message, config, fencingToken);
+    const reservation = await reserveForNextInQueue(directory, config);
     
     // Send completion notification if enabled
     if (config.enableNotifications) {
@@ -395,7 +639,1089 @@ export async function handleEndWork(params: EndWorkParams): Promise<ToolResponse
     return {
       content: [{
         type: "text",
-        text: `✅ Work completed successfully by agent ${agentId} in ${directory}. Boop file removed and beep file created.${message ? ` Message: ${message}` : ''}`
+        text: `✅ Work completed successfully by agent ${agentId} in ${directory}. Boop file removed and beep file created.${message ? ` Message: ${message}` : ''}${reservation ? `\n📋 Directory reserved for queued agent ${reservation.agentId} until ${reservation.expiresAt.toISOString()}.` : ''}`
+      }]
+    };
+  } catch (error) {
+    if (error instanceof CoordinationError) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ ${error.message} (${error.code})`
+        }],
+        isError: true
+      };
+    }
+    
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Unexpected error ending work: ${error}`
+      }],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Tool: renew_boop
+ * Extends the lease on a claim so a slow but healthy agent is not treated as stale
+ */
+export async function handleRenewBoop(params: RenewBoopParams): Promise<ToolResponse> {
+  try {
+    const { directory, agentId, leaseHours, fencingToken } = params;
+    const config = loadConfig();
+    
+    // Validate directory access
+    try {
+      validateDirectoryAccess(directory, config);
+    } catch (accessError) {
+      if (accessError instanceof CoordinationError) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ ${accessError.message} (${accessError.code})`
+          }],
+          isError: true
+        };
+      }
+      throw accessError;
+    }
+
+    if (!validateAgentIdWithConfig(agentId, config)) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ Invalid agent ID "${agentId}" (${ErrorCode.INVALID_AGENT_ID})`
+        }],
+        isError: true
+      };
+    }
+
+    const renewed = await renewBoopLease(directory, agentId, leaseHours ?? config.leaseDurationHours, config, fencingToken);
+    
+    return {
+      content: [{
+        type: "text",
+        text: `✅ Lease renewed for agent ${agentId} in ${directory}. Lease now expires at ${renewed.leaseExpiresAt?.toISOString()} (renewal #${renewed.renewalCount}).`
+      }]
+    };
+  } catch (error) {
+    if (error instanceof CoordinationError) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ ${error.message} (${error.code})`
+        }],
+        isError: true
+      };
+    }
+    
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Unexpected error renewing lease: ${error}`
+      }],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Tool: transfer_claim
+ * Hands a claim to another agent without releasing the directory in between
+ */
+export async function handleTransferClaim(params: TransferClaimParams): Promise<ToolResponse> {
+  try {
+    const { directory, fromAgentId, toAgentId, fencingToken, reason } = params;
+    const config = loadConfig();
+    
+    // Validate directory access
+    try {
+      validateDirectoryAccess(directory, config);
+    } catch (accessError) {
+      if (accessError instanceof CoordinationError) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ ${accessError.message} (${accessError.code})`
+          }],
+          isError: true
+        };
+      }
+      throw accessError;
+    }
+
+    for (const agentId of [fromAgentId, toAgentId]) {
+      if (!validateAgentIdWithConfig(agentId, config)) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Invalid agent ID "${agentId}" (${ErrorCode.INVALID_AGENT_ID})`
+          }],
+          isError: true
+        };
+      }
+    }
+
+    if (fromAgentId === toAgentId) {
+      return {
+        content: [{
+          type: "text",
+          text: `⚠️ Agent ${fromAgentId} already holds the claim on ${directory}; nothing to transfer.`
+        }],
+        isError: true
+      };
+    }
+
+    const claim = await transferClaim(directory, fromAgentId, toAgentId, fencingToken, reason, config);
+    
+    // Send notification if enabled
+    if (config.enableNotifications) {
+      try {
+        const notificationManager = createNotificationManager(config);
+        const payload = NotificationManager.createPayload(
+          NotificationType.CLAIM_TRANSFERRED,
+          `Claim transferred from agent ${fromAgentId} to agent ${toAgentId}${reason ? `: ${reason}` : ''}`,
+          directory,
+          toAgentId,
+          claim.workDescription,
+          { previousAgent: fromAgentId, newAgent: toAgentId }
+        );
+        
+        // Don't await - send in background to avoid blocking the operation
+        notificationManager.sendNotification(payload).catch(error => {
+          if (config.logLevel === 'debug') {
+            console.error('📤 Notification failed (non-blocking):', error);
+          }
+        });
+      } catch (error) {
+        if (config.logLevel === 'debug') {
+          console.error('📤 Notification setup failed:', error);
+        }
+      }
+    }
+    
+    return {
+      content: [{
+        type: "text",
+        text: `✅ Claim on ${directory} transferred from agent ${fromAgentId} to agent ${toAgentId}.${reason ? ` Reason: ${reason}` : ''}\n📅 Work started: ${claim.startedAt.toISOString()}${claim.fencingToken !== undefined ? `\n🔑 Fencing token: ${claim.fencingToken} (agent ${toAgentId} must pass it to end_work, renew_boop and later update_boop calls)` : ''}`
+      }]
+    };
+  } catch (error) {
+    if (error instanceof CoordinationError) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ ${error.message} (${error.code})`
+        }],
+        isError: true
+      };
+    }
+    
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Unexpected error transferring claim: ${error}`
+      }],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Format per-directory outcomes of a multi-directory operation
+ */
+function formatDirectoryResults(results: DirectoryOperationResult[]): string {
+  const emoji: Record<DirectoryOperationResult['outcome'], string> = {
+    claimed: '✅',
+    already_held: '✅',
+    completed: '✅',
+    rolled_back: '↩️',
+    failed: '❌',
+    not_attempted: '⏭️'
+  };
+  return results.map(result => {
+    let line = `${emoji[result.outcome]} ${result.directory}: ${result.outcome}`;
+    if (result.fencingToken !== undefined && result.outcome !== 'rolled_back') {
+      line += ` (fencing token ${result.fencingToken})`;
+    }
+    if (result.error) {
+      line += ` - ${result.error}${result.errorCode ? ` (${result.errorCode})` : ''}`;
+    }
+    if (result.conflicts && result.outcome === 'claimed') {
+      line += `\n⚠️ Overlapping claims detected:\n${describeClaimConflicts(result.conflicts)}`;
+    }
+    return line;
+  }).join('\n');
+}
+
+/**
+ * Tool: claim_many
+ * Claims several directories at once, rolling back if any cannot be claimed
+ */
+export async function handleClaimMany(params: ClaimManyParams): Promise<ToolResponse> {
+  try {
+    const { directories, agentId, workDescription } = params;
+    const config = loadConfig();
+
+    if (!validateAgentIdWithConfig(agentId, config)) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ Invalid agent ID "${agentId}" (${ErrorCode.INVALID_AGENT_ID})`
+        }],
+        isError: true
+      };
+    }
+
+    // Access is checked for every directory before any queue file is read or written
+    for (const directory of directories) {
+      try {
+        validateDirectoryAccess(directory, config);
+      } catch (error) {
+        if (error instanceof CoordinationError) {
+          return {
+            content: [{
+              type: "text",
+              text: `⚠️ Could not claim all directories; no directories were claimed.\n\n❌ ${directory}: ${error.message} (${error.code})`
+            }],
+            isError: true
+          };
+        }
+        throw error;
+      }
+    }
+
+    for (const directory of directories) {
+      try {
+        await assertNotReservedForOther(directory, agentId, config);
+      } catch (error) {
+        if (error instanceof CoordinationError) {
+          return {
+            content: [{
+              type: "text",
+              text: `⚠️ Could not claim all directories; no directories were claimed.\n\n❌ ${directory}: ${error.message} (${error.code})`
+            }],
+            isError: true
+          };
+        }
+        throw error;
+      }
+    }
+
+    const { success, results } = await claimManyAtomically(directories, agentId, workDescription, config);
+
+    if (!success) {
+      return {
+        content: [{
+          type: "text",
+          text: `⚠️ Could not claim all directories; no directories were claimed.\n\n${formatDirectoryResults(results)}`
+        }],
+        isError: true
+      };
+    }
+
+    for (const result of results.filter(r => r.outcome === 'claimed')) {
+      await consumeQueueEntry(result.directory, agentId, config);
+    }
+
+    // Send notification if enabled
+    if (config.enableNotifications) {
+      try {
+        const notificationManager = createNotificationManager(config);
+        for (const result of results.filter(r => r.outcome === 'claimed')) {
+          const payload = NotificationManager.createPayload(
+            NotificationType.WORK_STARTED,
+            `Work started by agent ${agentId}`,
+            result.directory,
+            agentId,
+            workDescription
+          );
+          
+          // Don't await - send in background to avoid blocking the operation
+          notificationManager.sendNotification(payload).catch(error => {
+            if (config.logLevel === 'debug') {
+              console.error('📤 Notification failed (non-blocking):', error);
+            }
+          });
+        }
+      } catch (error) {
+        if (config.logLevel === 'debug') {
+          console.error('📤 Notification setup failed:', error);
+        }
+      }
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: `✅ Claimed ${results.length} directories for agent ${agentId}.${workDescription ? ` Work: ${workDescription}` : ''}\n\n${formatDirectoryResults(results)}\n\nPass each fencing token to end_work_many when finished.`
+      }]
+    };
+  } catch (error) {
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Unexpected error claiming directories: ${error}`
+      }],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Tool: end_work_many
+ * Completes work in several directories after verifying every claim
+ */
+export async function handleEndWorkMany(params: EndWorkManyParams): Promise<ToolResponse> {
+  try {
+    const { claims, agentId, message } = params;
+    const config = loadConfig();
+
+    if (!validateAgentIdWithConfig(agentId, config)) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ Invalid agent ID "${agentId}" (${ErrorCode.INVALID_AGENT_ID})`
+        }],
+        isError: true
+      };
+    }
+
+    const { success, results } = await endWorkMany(claims, agentId, message, config);
+
+    for (const result of results.filter(r => r.outcome === 'completed')) {
+      await reserveForNextInQueue(result.directory, config);
+    }
+
+    if (config.enableNotifications) {
+      try {
+        const notificationManager = createNotificationManager(config);
+        for (const result of results.filter(r => r.outcome === 'completed')) {
+          const payload = NotificationManager.createPayload(
+            NotificationType.WORK_COMPLETED,
+            `Work completed by agent ${agentId}${message ? `: ${message}` : ''}`,
+            result.directory,
+            agentId,
+            message || 'Work completed'
+          );
+          
+          notificationManager.sendNotification(payload).catch(error => {
+            if (config.logLevel === 'debug') {
+              console.error('📤 Notification failed (non-blocking):', error);
+            }
+          });
+        }
+      } catch (error) {
+        if (config.logLevel === 'debug') {
+          console.error('📤 Notification setup failed:', error);
+        }
+      }
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: success
+          ? `✅ Work completed by agent ${agentId} in ${results.length} directories.${message ? ` Message: ${message}` : ''}\n\n${formatDirectoryResults(results)}`
+          : `⚠️ Could not end work in all directories.\n\n${formatDirectoryResults(results)}`
+      }],
+      ...(success ? {} : { isError: true })
+    };
+  } catch (error) {
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Unexpected error ending work: ${error}`
+      }],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Tool: join_queue
+ * Adds an agent to a directory's waitlist so it is handed the directory when the current work ends
+ */
+export async function handleJoinQueue(params: JoinQueueParams): Promise<ToolResponse> {
+  try {
+    const { directory, agentId, workDescription } = params;
+    const config = loadConfig();
+    
+    // Validate directory access
+    try {
+      validateDirectoryAccess(directory, config);
+    } catch (accessError) {
+      if (accessError instanceof CoordinationError) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ ${accessError.message} (${accessError.code})`
+          }],
+          isError: true
+        };
+      }
+      throw accessError;
+    }
+
+    if (!validateAgentIdWithConfig(agentId, config)) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ Invalid agent ID "${agentId}" (${ErrorCode.INVALID_AGENT_ID})`
+        }],
+        isError: true
+      };
+    }
+
+    const status = await getWorkStatus(directory, config);
+    const queue = await readQueue(directory, config);
+    if (status.holders.some(holder => holder.agentId === agentId)) {
+      return {
+        content: [{
+          type: "text",
+          text: `⚠️ Agent ${agentId} already holds a claim on ${directory}; there is nothing to wait for.`
+        }],
+        isError: true
+      };
+    }
+    if (status.status !== WorkState.WORK_IN_PROGRESS && status.status !== WorkState.SHARED_IN_PROGRESS && queue.entries.length === 0) {
+      return {
+        content: [{
+          type: "text",
+          text: `✅ Directory ${directory} is not claimed. Use update_boop to claim it directly.`
+        }]
+      };
+    }
+
+    const position = await joinQueue(directory, agentId, workDescription, config);
+    
+    return {
+      content: [{
+        type: "text",
+        text: `📋 Agent ${agentId} is #${position} in the queue for ${directory}. When the directory is released it will be reserved for the agent at the head of the queue for ${config.queueGraceMinutes} minutes; claim it with update_boop within that window or lose your place. Use check_status to see your position.`
+      }]
+    };
+  } catch (error) {
+    if (error instanceof CoordinationError) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ ${error.message} (${error.code})`
+        }],
+        isError: true
+      };
+    }
+    
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Unexpected error joining queue: ${error}`
+      }],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Tool: check_status
+ * Returns current status of beep/boop files with interpretation and optional stale cleanup
+ */
+export async function handleCheckStatus(params: CheckStatusParams): Promise<ToolResponse> {
+  try {
+    const { 
+      directory, 
+      maxAgeHours = 24, 
+      autoCleanStale = false, 
+      newAgentId, 
+      newWorkDescription 
+    } = params;
+
+    const config = loadConfig();
+
+    // If central listener is enabled, delegate synchronously and return its response
+    if (config.listenerEnabled) {
+      try {
+        const { listenerClient } = await import('./http-listener-client.js');
+        const payload = { directory, maxAgeHours, autoCleanStale, newAgentId, newWorkDescription };
+        const res = await listenerClient.post('/mcp/check_status', payload);
+        if (res.ok) {
+          const text = typeof res.data?.text === 'string' ? res.data.text : JSON.stringify(res.data ?? { ok: true });
+          return { content: [{ type: 'text', text }] };
+        }
+        return { content: [{ type: 'text', text: `❌ Listener error (${res.status}): ${res.error || 'unknown error'}` }], isError: true };
+      } catch (e) {
+        return { content: [{ type: 'text', text: `❌ Listener call failed: ${e}` }], isError: true };
+      }
+    }
+    
+    // Fallback to local implementation
+    let status = await getWorkStatus(directory, config);
+    let cleanupPerformed = false;
+    let cleanupMessage = '';
+
+    // Expired shared claims are dropped when stale cleanup is requested
+    if (autoCleanStale && status.holders.some(holder => holder.mode === 'shared')) {
+      const removed = await cleanupExpiredSharedClaims(directory, config);
+      if (removed.length > 0) {
+        cleanupMessage = `🧹 Removed expired shared claims from: ${removed.join(', ')}`;
+        status = await getWorkStatus(directory, config);
+      }
+    }
+    
+    // Check for stale boop file if work is in progress
+    if (status.status === WorkState.WORK_IN_PROGRESS && status.boopTimestamp) {
+      const isStale = isClaimStale(status, maxAgeHours);
+      const ageDescription = getFileAgeDescription(status.boopTimestamp);
+      
+      if (isStale) {
+        if (autoCleanStale) {
+          // Validate new agent ID if provided
+          if (newAgentId) {
+            if (!validateAgentIdWithConfig(newAgentId, config)) {
+              const reasons = [];
+              if (newAgentId.length > config.maxAgentIdLength) {
+                reasons.push(`exceeds maximum length of ${config.maxAgentIdLength}`);
+              }
+              if (config.requireTeamPrefix && config.teamPrefixes.length > 0) {
+                const hasValidPrefix = config.teamPrefixes.some(prefix => newAgentId.startsWith(prefix));
+                if (!hasValidPrefix) {
+                  reasons.push(`must start with one of: ${config.teamPrefixes.join(', ')}`);
+                }
+              }
+              if (!/^[a-zA-Z0-9._-]+$/.test(newAgentId)) {
+                reasons.push('contains invalid characters (only alphanumeric, hyphens, underscores, dots allowed)');
+              }
+              
+              return {
+                content: [{
+                  type: "text",
+                  text: `❌ Invalid new agent ID "${newAgentId}": ${reasons.join(', ')} (${ErrorCode.INVALID_AGENT_ID})`
+                }],
+                isError: true
+              };
+            }
+          }
+          
+          // Send stale detection notification first
+          if (config.enableNotifications) {
+            try {
+              const notificationManager = createNotificationManager(config);
+              const payload = NotificationManager.createPayload(
+                NotificationType.STALE_DETECTED,
+                `Stale work detected from agent ${status.agentId || 'unknown'} (${ageDescription} old)`,
+                directory,
+                status.agentId || 'unknown',
+                undefined,
+                { ageHours: (Date.now() - status.boopTimestamp.getTime()) / (1000 * 60 * 60), threshold: maxAgeHours }
+              );
+              
+              notificationManager.sendNotification(payload).catch(error => {
+                if (config.logLevel === 'debug') {
+                  console.error('📤 Stale detection notification failed:', error);
+                }
+              });
+            } catch (error) {
+              if (config.logLevel === 'debug') {
+                console.error('📤 Stale detection notification setup failed:', error);
+              }
+            }
+          }
+          
+          // Queued agents take precedence over a claimant supplied here
+          const queue = await readQueue(directory, config);
+          const claimant = queue.entries.length === 0 || queue.entries[0].agentId === newAgentId
+            ? newAgentId
+            : undefined;
+          
+          // Perform automatic cleanup
+          try {
+            const cleanup = await cleanupStaleBoopAndClaim(
+              directory,
+              status.agentId || 'unknown',
+              claimant,
+              newWorkDescription,
+              config,
+              maxAgeHours
+            );
+            
+            cleanupPerformed = true;
+            cleanupMessage = cleanup.message;
+            
+            if (claimant) {
+              await consumeQueueEntry(directory, claimant, config);
+            } else {
+              const reservation = await reserveForNextInQueue(directory, config);
+              if (reservation) {
+                cleanupMessage += ` Directory reserved for queued agent ${reservation.agentId} until ${reservation.expiresAt.toISOString()}.`;
+              }
+            }
+            
+            // Send cleanup notification
+            if (config.enableNotifications) {
+              try {
+                const notificationManager = createNotificationManager(config);
+                const payload = NotificationManager.createPayload(
+                  NotificationType.CLEANUP_PERFORMED,
+                  `Stale work cleaned up${newAgentId ? ` and claimed by ${newAgentId}` : ''}`,
+                  directory,
+                  newAgentId || status.agentId || 'system',
+                  newWorkDescription,
+                  { previousAgent: status.agentId, newAgent: newAgentId }
+                );
+                
+                notificationManager.sendNotification(payload).catch(error => {
+                  if (config.logLevel === 'debug') {
+                    console.error('📤 Cleanup notification failed:', error);
+                  }
+                });
+              } catch (error) {
+                if (config.logLevel === 'debug') {
+                  console.error('📤 Cleanup notification setup failed:', error);
+                }
+              }
+            }
+            
+            // Get updated status after cleanup
+            status = await getWorkStatus(directory, config);
+            
+          } catch (cleanupError) {
+            return {
+              content: [{
+                type: "text",
+                text: `❌ Failed to cleanup stale boop file: ${cleanupError instanceof Error ? cleanupError.message : cleanupError}`
+              }],
+              isError: true
+            };
+          }
+        } else {
+          // Just report stale file without cleanup
+          cleanupMessage = status.leaseExpiresAt
+            ? `⚠️ STALE BOOP DETECTED: Lease expired at ${status.leaseExpiresAt.toISOString()}. Use autoCleanStale=true to automatically clean up.`
+            : `⚠️ STALE BOOP DETECTED: File is ${ageDescription} old (threshold: ${maxAgeHours} hours). Use autoCleanStale=true to automatically clean up.`;
+        }
+      }
+    }
+    
+    // Format timestamps with age info
+    let timestampInfo = '';
+    if (status.beepTimestamp) {
+      const beepAge = getFileAgeDescription(status.beepTimestamp);
+      timestampInfo += `\n📅 Beep file: ${status.beepTimestamp.toISOString()} (${beepAge})`;
+    }
+    if (status.boopTimestamp) {
+      const boopAge = getFileAgeDescription(status.boopTimestamp);
+      const staleIndicator = isClaimStale(status, maxAgeHours) ? ' ⚠️ STALE' : '';
+      timestampInfo += `\n📅 Boop file: ${status.boopTimestamp.toISOString()} (${boopAge}${staleIndicator})`;
+    }
+    if (status.leaseExpiresAt) {
+      const leaseState = status.leaseExpiresAt.getTime() <= Date.now() ? 'expired' : 'active';
+      timestampInfo += `\n⏳ Lease expires: ${status.leaseExpiresAt.toISOString()} (${leaseState})`;
+    }
+
+    // Choose appropriate emoji and status text
+    let statusEmoji = '';
+    let statusText = '';
+    
+    switch (status.status) {
+      case WorkState.WORK_ALLOWED:
+        statusEmoji = '✅';
+        statusText = 'WORK ALLOWED';
+        break;
+      case WorkState.WORK_IN_PROGRESS:
+        statusEmoji = '🚧';
+        statusText = 'WORK IN PROGRESS';
+        break;
+      case WorkState.SHARED_IN_PROGRESS:
+        statusEmoji = '👥';
+        statusText = 'SHARED ACCESS';
+        break;
+      case WorkState.NO_COORDINATION:
+        statusEmoji = '⭕';
+        statusText = 'NO COORDINATION';
+        break;
+      case WorkState.INVALID_STATE:
+        statusEmoji = '⚠️';
+        statusText = 'INVALID STATE';
+        break;
+      case WorkState.CORRUPT_FILE:
+        statusEmoji = '💥';
+        statusText = 'CORRUPT FILE';
+        break;
+    }
+
+    // Build response text
+    let responseText = `${statusEmoji} ${statusText}\n\n📁 Directory: ${status.directory}\n📄 Beep file exists: ${status.beepExists}\n📄 Boop file exists: ${status.boopExists}`;
+    
+    if (status.agentId) {
+      responseText += `\n👤 Agent: ${status.agentId}`;
+    }
+    
+    if (status.holders.length > 0) {
+      responseText += `\n👥 Holders:\n${formatHolders(status)}`;
+    }
+    
+    const queue = await readQueue(directory, config);
+    if (queue.entries.length > 0) {
+      responseText += `\n📋 Queue:\n${describeQueue(queue)}`;
+    }
+    
+    responseText += timestampInfo;
+    
+    if (cleanupMessage) {
+      responseText += `\n\n🧹 Cleanup Action: ${cleanupMessage}`;
+    }
+    
+    const permissionWarnings = await checkCoordinationFilePermissions(directory, config);
+    if (permissionWarnings.length > 0) {
+      responseText += `\n\n⚠️ Permissions differ from BEEP_BOOP_FILE_PERMISSIONS:\n${permissionWarnings.map(warning => `• ${warning}`).join('\n')}`;
+    }
+    
+    responseText += `\n\nℹ️ ${status.details}`;
+    
+    responseText += `\n\n💡 Next steps:\n${getNextStepsRecommendation(status, cleanupPerformed)}`;
+    
+    // Add stale detection info if applicable
+    if (maxAgeHours !== 24) {
+      responseText += `\n\n🕒 Stale threshold: ${maxAgeHours} hours`;
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: responseText
+      }]
+    };
+  } catch (error) {
+    if (error instanceof CoordinationError) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ ${error.message} (${error.code})`
+        }],
+        isError: true
+      };
+    }
+    
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Unexpected error checking status: ${error}`
+      }],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Tool: list_claims
+ * Reports every directory with coordination files under a root directory
+ */
+export async function handleListClaims(params: ListClaimsParams): Promise<ToolResponse> {
+  try {
+    const { root, maxDepth = LIST_CLAIMS_DEFAULT_DEPTH, maxAgeHours } = params;
+    const config = loadConfig();
+    
+    // Validate directory access
+    try {
+      validateDirectoryAccess(root, config);
+    } catch (accessError) {
+      if (accessError instanceof CoordinationError) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ ${accessError.message} (${accessError.code})`
+          }],
+          isError: true
+        };
+      }
+      throw accessError;
+    }
+
+    // If central listener is enabled, delegate synchronously and return its response
+    if (config.listenerEnabled) {
+      try {
+        const { listenerClient } = await import('./http-listener-client.js');
+        const res = await listenerClient.post('/mcp/list_claims', { root, maxDepth, maxAgeHours });
+        if (res.ok) {
+          const text = typeof res.data?.text === 'string' ? res.data.text : JSON.stringify(res.data ?? { ok: true });
+          return { content: [{ type: 'text', text }] };
+        }
+        return { content: [{ type: 'text', text: `❌ Listener error (${res.status}): ${res.error || 'unknown error'}` }], isError: true };
+      } catch (e) {
+        return { content: [{ type: 'text', text: `❌ Listener call failed: ${e}` }], isError: true };
+      }
+    }
+
+    const listings = await listClaims(root, config, maxDepth, maxAgeHours ?? config.defaultMaxAgeHours);
+    
+    return {
+      content: [{
+        type: "text",
+        text: describeClaimListingSummary(root, maxDepth, listings)
+      }]
+    };
+  } catch (error) {
+    if (error instanceof CoordinationError) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ ${error.message} (${error.code})`
+        }],
+        isError: true
+      };
+    }
+    
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Unexpected error listing claims: ${error}`
+      }],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Tool: repair_state
+ * Proposes and optionally applies a fix for a directory holding both beep and boop files
+ */
+export async function handleRepairState(params: RepairStateParams): Promise<ToolResponse> {
+  try {
+    const { directory, confirm = false, keep, maxAgeHours = 24 } = params;
+    const config = loadConfig();
+    
+    // Validate directory access
+    try {
+      validateDirectoryAccess(directory, config);
+    } catch (accessError) {
+      if (accessError instanceof CoordinationError) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ ${accessError.message} (${accessError.code})`
+          }],
+          isError: true
+        };
+      }
+      throw accessError;
+    }
+
+    const describeProposal = (proposal: RepairProposal) =>
+      `📄 Beep file: ${proposal.beepTimestamp.toISOString()} (${getFileAgeDescription(proposal.beepTimestamp)})${proposal.beep.completedBy ? ` completed by ${proposal.beep.completedBy}` : ''} - ${proposal.beep.message || 'no message'}` +
+      `\n📄 Boop file: ${proposal.boopTimestamp.toISOString()} (${getFileAgeDescription(proposal.boopTimestamp)}) claimed by ${proposal.boop.agentId} (${proposal.boopActive ? 'active' : 'stale'})${proposal.boop.workDescription ? ` - ${proposal.boop.workDescription}` : ''}` +
+      `\n\n💡 Proposed resolution: keep ${proposal.keep} (${proposal.reason})`;
+
+    if (!confirm) {
+      const proposal = await proposeStateRepair(directory, maxAgeHours, config);
+      const resolution = keep ?? proposal.keep;
+      return {
+        content: [{
+          type: "text",
+          text: `⚠️ INVALID STATE in ${directory}\n\n${describeProposal(proposal)}\n\nCall repair_state again with confirm=true to keep the ${resolution} file${keep && keep !== proposal.keep ? ' (overriding the proposal)' : ''}. The discarded file will be copied aside first.`
+        }]
+      };
+    }
+
+    // The proposal is worked out again under the directory lock before anything is removed
+    const { proposal, kept: resolution, archivePath } = await applyStateRepair(directory, keep, maxAgeHours, config);
+    const summary = describeProposal(proposal);
+    const discarded = resolution === 'beep' ? 'boop' : 'beep';
+    
+    // Send notification if enabled
+    if (config.enableNotifications) {
+      try {
+        const notificationManager = createNotificationManager(config);
+        const payload = NotificationManager.createPayload(
+          NotificationType.CLEANUP_PERFORMED,
+          `Invalid state repaired: kept ${resolution}, discarded ${discarded}`,
+          directory,
+          proposal.boop.agentId || 'system',
+          undefined,
+          { kept: resolution, discarded, archivePath, reason: keep ? 'manual override' : proposal.reason }
+        );
+        
+        // Don't await - send in background to avoid blocking the operation
+        notificationManager.sendNotification(payload).catch(error => {
+          if (config.logLevel === 'debug') {
+            console.error('📤 Notification failed (non-blocking):', error);
+          }
+        });
+      } catch (error) {
+        if (config.logLevel === 'debug') {
+          console.error('📤 Notification setup failed:', error);
+        }
+      }
+    }
+    
+    return {
+      content: [{
+        type: "text",
+        text: `✅ Repaired ${directory}: kept the ${resolution} file and removed the ${discarded} file.\n🗄️ Copy of discarded ${discarded}: ${archivePath}\n\n${summary}`
+      }]
+    };
+  } catch (error) {
+    if (error instanceof CoordinationError) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ ${error.message} (${error.code})`
+        }],
+        isError: true
+      };
+    }
+    
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Unexpected error repairing state: ${error}`
+      }],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Tool: get_history
+ * Returns the timeline of claims, updates, completions, cleanups and transfers in a directory
+ */
+export async function handleGetHistory(params: GetHistoryParams): Promise<ToolResponse> {
+  try {
+    const { directory, agentId, since, until, limit = 50 } = params;
+    const config = loadConfig();
+    
+    // Validate directory access
+    try {
+      validateDirectoryAccess(directory, config);
+    } catch (accessError) {
+      if (accessError instanceof CoordinationError) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ ${accessError.message} (${accessError.code})`
+          }],
+          isError: true
+        };
+      }
+      throw accessError;
+    }
+
+    const sinceDate = since ? new Date(since) : undefined;
+    const untilDate = until ? new Date(until) : undefined;
+    if ((sinceDate && Number.isNaN(sinceDate.getTime())) || (untilDate && Number.isNaN(untilDate.getTime()))) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ Invalid date range: since and until must be ISO 8601 timestamps`
+        }],
+        isError: true
+      };
+    }
+
+    const entries = await readHistory(directory, config, { agentId, since: sinceDate, until: untilDate, limit });
+    
+    if (entries.length === 0) {
+      return {
+        content: [{
+          type: "text",
+          text: `📜 No history recorded for ${directory}${agentId || since || until ? ' matching the given filters' : ''}.`
+        }]
+      };
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: `📜 History for ${directory} (${entries.length} event${entries.length === 1 ? '' : 's'}, oldest first):\n\n${formatHistory(entries)}`
+      }]
+    };
+  } catch (error) {
+    if (error instanceof CoordinationError) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ ${error.message} (${error.code})`
+        }],
+        isError: true
+      };
+    }
+    
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Unexpected error reading history: ${error}`
+      }],
+      isError: true
+    };
+  }
+}
+
+/**
+ * List backups of coordination files, or restore one into its directory
+ */
+export async function handleRestoreBackup(params: RestoreBackupParams): Promise<ToolResponse> {
+  try {
+    const { backupId, directory, agentId, limit = LIST_BACKUPS_DEFAULT_LIMIT } = params;
+    const config = loadConfig();
+    
+    // Validate directory access
+    if (directory) {
+      try {
+        validateDirectoryAccess(directory, config);
+      } catch (accessError) {
+        if (accessError instanceof CoordinationError) {
+          return {
+            content: [{
+              type: "text",
+              text: `❌ ${accessError.message} (${accessError.code})`
+            }],
+            isError: true
+          };
+        }
+        throw accessError;
+      }
+    }
+
+    if (agentId && !validateAgentIdWithConfig(agentId, config)) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ Invalid agent ID "${agentId}" (${ErrorCode.INVALID_AGENT_ID})`
+        }],
+        isError: true
+      };
+    }
+
+    if (!backupId) {
+      const backups = await listBackups(config, directory);
+      const disabledNote = config.backupEnabled ? '' : '\n\n⚠️ Backups are disabled (BEEP_BOOP_BACKUP_ENABLED=false); no new backups will be taken.';
+      if (backups.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `💾 No backups found in ${config.backupDir}${directory ? ` for ${directory}` : ''}.${disabledNote}`
+          }]
+        };
+      }
+      const shown = backups.slice(0, limit);
+      return {
+        content: [{
+          type: "text",
+          text: `💾 ${backups.length} backup${backups.length === 1 ? '' : 's'} in ${config.backupDir}${directory ? ` for ${directory}` : ''}${shown.length < backups.length ? ` (newest ${shown.length} shown)` : ''}:\n\n${formatBackups(shown)}\n\nCall restore_backup with a backupId to restore one.${disabledNote}`
+        }]
+      };
+    }
+
+    const { manifest, replaced } = await restoreBackup(backupId, agentId || 'unknown', config);
+    const status = await getWorkStatus(manifest.directory, config);
+    
+    return {
+      content: [{
+        type: "text",
+        text: `✅ Restored backup ${manifest.id} into ${manifest.directory}\n📄 Files: ${manifest.files.join(', ')}\n📝 Taken ${manifest.createdAt.toISOString()}: ${manifest.reason}` +
+          (replaced ? `\n💾 Previous files saved as backup ${replaced.id}` : '') +
+          `\n📊 Status: ${status.status} - ${status.details}`
       }]
     };
   } catch (error) {
@@ -412,7 +1738,7 @@ export async function handleEndWork(params: EndWorkParams): Promise<ToolResponse
     return {
       content: [{
         type: "text",
-        text: `❌ Unexpected error ending work: ${error}`
+        text: `❌ Unexpected error restoring backup: ${error}`
       }],
       isError: true
     };
@@ -420,218 +1746,69 @@ export async function handleEndWork(params: EndWorkParams): Promise<ToolResponse
 }
 
 /**
- * Tool: check_status
- * Returns current status of beep/boop files with interpretation and optional stale cleanup
+ * Query the audit log of coordination operations
  */
-export async function handleCheckStatus(params: CheckStatusParams): Promise<ToolResponse> {
+export async function handleQueryAuditLog(params: QueryAuditLogParams): Promise<ToolResponse> {
   try {
-    const { 
-      directory, 
-      maxAgeHours = 24, 
-      autoCleanStale = false, 
-      newAgentId, 
-      newWorkDescription 
-    } = params;
-
+    const { agentId, directory, operation, since, until, limit = 50 } = params;
     const config = loadConfig();
 
-    // If central listener is enabled, delegate synchronously and return its response
-    if (config.listenerEnabled) {
-      try {
-        const { listenerClient } = await import('./http-listener-client.js');
-        const payload = { directory, maxAgeHours, autoCleanStale, newAgentId, newWorkDescription };
-        const res = await listenerClient.post('/mcp/check_status', payload);
-        if (res.ok) {
-          const text = typeof res.data?.text === 'string' ? res.data.text : JSON.stringify(res.data ?? { ok: true });
-          return { content: [{ type: 'text', text }] };
-        }
-        return { content: [{ type: 'text', text: `❌ Listener error (${res.status}): ${res.error || 'unknown error'}` }], isError: true };
-      } catch (e) {
-        return { content: [{ type: 'text', text: `❌ Listener call failed: ${e}` }], isError: true };
-      }
+    if (!config.auditLogEnabled) {
+      return {
+        content: [{
+          type: "text",
+          text: `⚠️ Audit logging is disabled. Set BEEP_BOOP_AUDIT_LOG_ENABLED=true to record coordination operations.`
+        }],
+        isError: true
+      };
     }
     
-    // Fallback to local implementation
-    let status = await getWorkStatus(directory);
-    let cleanupPerformed = false;
-    let cleanupMessage = '';
-    
-    // Check for stale boop file if work is in progress
-    if (status.status === WorkState.WORK_IN_PROGRESS && status.boopTimestamp) {
-      const isStale = isFileStale(status.boopTimestamp, maxAgeHours);
-      const ageDescription = getFileAgeDescription(status.boopTimestamp);
-      
-      if (isStale) {
-        if (autoCleanStale) {
-          // Validate new agent ID if provided
-          if (newAgentId) {
-            if (!validateAgentIdWithConfig(newAgentId, config)) {
-              const reasons = [];
-              if (newAgentId.length > config.maxAgentIdLength) {
-                reasons.push(`exceeds maximum length of ${config.maxAgentIdLength}`);
-              }
-              if (config.requireTeamPrefix && config.teamPrefixes.length > 0) {
-                const hasValidPrefix = config.teamPrefixes.some(prefix => newAgentId.startsWith(prefix));
-                if (!hasValidPrefix) {
-                  reasons.push(`must start with one of: ${config.teamPrefixes.join(', ')}`);
-                }
-              }
-              if (!/^[a-zA-Z0-9._-]+$/.test(newAgentId)) {
-                reasons.push('contains invalid characters (only alphanumeric, hyphens, underscores, dots allowed)');
-              }
-              
-              return {
-                content: [{
-                  type: "text",
-                  text: `❌ Invalid new agent ID "${newAgentId}": ${reasons.join(', ')}`
-                }],
-                isError: true
-              };
-            }
-          }
-          
-          // Send stale detection notification first
-          if (config.enableNotifications) {
-            try {
-              const notificationManager = createNotificationManager(config);
-              const payload = NotificationManager.createPayload(
-                NotificationType.STALE_DETECTED,
-                `Stale work detected from agent ${status.agentId || 'unknown'} (${ageDescription} old)`,
-                directory,
-                status.agentId || 'unknown',
-                undefined,
-                { ageHours: (Date.now() - status.boopTimestamp.getTime()) / (1000 * 60 * 60), threshold: maxAgeHours }
-              );
-              
-              notificationManager.sendNotification(payload).catch(error => {
-                if (config.logLevel === 'debug') {
-                  console.error('📤 Stale detection notification failed:', error);
-                }
-              });
-            } catch (error) {
-              if (config.logLevel === 'debug') {
-                console.error('📤 Stale detection notification setup failed:', error);
-              }
-            }
-          }
-          
-          // Perform automatic cleanup
-          try {
-            const cleanup = await cleanupStaleBoopAndClaim(
-              directory,
-              status.agentId || 'unknown',
-              newAgentId,
-              newWorkDescription
-            );
-            
-            cleanupPerformed = true;
-            cleanupMessage = cleanup.message;
-            
-            // Send cleanup notification
-            if (config.enableNotifications) {
-              try {
-                const notificationManager = createNotificationManager(config);
-                const payload = NotificationManager.createPayload(
-                  NotificationType.CLEANUP_PERFORMED,
-                  `Stale work cleaned up${newAgentId ? ` and claimed by ${newAgentId}` : ''}`,
-                  directory,
-                  newAgentId || status.agentId || 'system',
-                  newWorkDescription,
-                  { previousAgent: status.agentId, newAgent: newAgentId }
-                );
-                
-                notificationManager.sendNotification(payload).catch(error => {
-                  if (config.logLevel === 'debug') {
-                    console.error('📤 Cleanup notification failed:', error);
-                  }
-                });
-              } catch (error) {
-                if (config.logLevel === 'debug') {
-                  console.error('📤 Cleanup notification setup failed:', error);
-                }
-              }
-            }
-            
-            // Get updated status after cleanup
-            status = await getWorkStatus(directory);
-            
-          } catch (cleanupError) {
-            return {
-              content: [{
-                type: "text",
-                text: `❌ Failed to cleanup stale boop file: ${cleanupError instanceof Error ? cleanupError.message : cleanupError}`
-              }],
-              isError: true
-            };
-          }
-        } else {
-          // Just report stale file without cleanup
-          cleanupMessage = `⚠️ STALE BOOP DETECTED: File is ${ageDescription} old (threshold: ${maxAgeHours} hours). Use autoCleanStale=true to automatically clean up.`;
+    // Validate directory access
+    if (directory) {
+      try {
+        validateDirectoryAccess(directory, config);
+      } catch (accessError) {
+        if (accessError instanceof CoordinationError) {
+          return {
+            content: [{
+              type: "text",
+              text: `❌ ${accessError.message} (${accessError.code})`
+            }],
+            isError: true
+          };
         }
+        throw accessError;
       }
     }
-    
-    // Format timestamps with age info
-    let timestampInfo = '';
-    if (status.beepTimestamp) {
-      const beepAge = getFileAgeDescription(status.beepTimestamp);
-      timestampInfo += `\n📅 Beep file: ${status.beepTimestamp.toISOString()} (${beepAge})`;
-    }
-    if (status.boopTimestamp) {
-      const boopAge = getFileAgeDescription(status.boopTimestamp);
-      const staleIndicator = isFileStale(status.boopTimestamp, maxAgeHours) ? ' ⚠️ STALE' : '';
-      timestampInfo += `\n📅 Boop file: ${status.boopTimestamp.toISOString()} (${boopAge}${staleIndicator})`;
-    }
 
-    // Choose appropriate emoji and status text
-    let statusEmoji = '';
-    let statusText = '';
-    
-    switch (status.status) {
-      case WorkState.WORK_ALLOWED:
-        statusEmoji = '✅';
-        statusText = 'WORK ALLOWED';
-        break;
-      case WorkState.WORK_IN_PROGRESS:
-        statusEmoji = '🚧';
-        statusText = 'WORK IN PROGRESS';
-        break;
-      case WorkState.NO_COORDINATION:
-        statusEmoji = '⭕';
-        statusText = 'NO COORDINATION';
-        break;
-      case WorkState.INVALID_STATE:
-        statusEmoji = '⚠️';
-        statusText = 'INVALID STATE';
-        break;
+    const sinceDate = since ? new Date(since) : undefined;
+    const untilDate = until ? new Date(until) : undefined;
+    if ((sinceDate && Number.isNaN(sinceDate.getTime())) || (untilDate && Number.isNaN(untilDate.getTime()))) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ Invalid date range: since and until must be ISO 8601 timestamps`
+        }],
+        isError: true
+      };
     }
 
-    // Build response text
-    let responseText = `${statusEmoji} ${statusText}\n\n📁 Directory: ${status.directory}\n📄 Beep file exists: ${status.beepExists}\n📄 Boop file exists: ${status.boopExists}`;
-    
-    if (status.agentId) {
-      responseText += `\n👤 Agent: ${status.agentId}`;
-    }
-    
-    responseText += timestampInfo;
-    
-    if (cleanupMessage) {
-      responseText += `\n\n🧹 Cleanup Action: ${cleanupMessage}`;
-    }
-    
-    responseText += `\n\nℹ️ ${status.details}`;
-    
-    responseText += `\n\n💡 Next steps:\n${getNextStepsRecommendation(status, cleanupPerformed)}`;
+    const records = await readAuditLog(config, { agentId, directory, operation, since: sinceDate, until: untilDate, limit });
+    const filtered = agentId || directory || operation || since || until;
     
-    // Add stale detection info if applicable
-    if (maxAgeHours !== 24) {
-      responseText += `\n\n🕒 Stale threshold: ${maxAgeHours} hours`;
+    if (records.length === 0) {
+      return {
+        content: [{
+          type: "text",
+          text: `📋 No audit records found in ${config.auditLogPath}${filtered ? ' matching the given filters' : ''}.`
+        }]
+      };
     }
 
     return {
       content: [{
         type: "text",
-        text: responseText
+        text: `📋 ${records.length} audit record${records.length === 1 ? '' : 's'} from ${config.auditLogPath} (oldest first):\n\n${formatAuditRecords(records)}`
       }]
     };
   } catch (error) {
@@ -648,7 +1825,7 @@ export async function handleCheckStatus(params: CheckStatusParams): Promise<Tool
     return {
       content: [{
         type: "text",
-        text: `❌ Unexpected error checking status: ${error}`
+        text: `❌ Unexpected error querying audit log: ${error}`
       }],
       isError: true
     };
@@ -676,16 +1853,22 @@ function getNextStepsRecommendation(status: any, cleanupPerformed: boolean = fal
       
     case WorkState.WORK_IN_PROGRESS:
       if (status.agentId) {
-        return `• If you are agent "${status.agentId}", use end_work when complete\n• If you are a different agent, wait for work to finish\n• To check for stale files, use check_status with autoCleanStale=true`;
+        return `• If you are agent "${status.agentId}", use renew_boop periodically and end_work when complete\n• If you are a different agent, use join_queue to be handed the directory when work finishes\n• To check for stale files, use check_status with autoCleanStale=true`;
       } else {
         return '• Wait for current work to complete or investigate boop file contents';
       }
       
+    case WorkState.SHARED_IN_PROGRESS:
+      return '• Use update_boop with mode="shared" to read or review alongside the current holders\n• Exclusive claims are blocked until every shared holder calls end_work';
+      
     case WorkState.NO_COORDINATION:
       return '• Use update_boop to claim directory and start work\n• Or use create_beep if work is already complete';
       
     case WorkState.INVALID_STATE:
-      return '• Manual cleanup required: both beep and boop files exist\n• Investigate file contents and remove one of the files\n• Consider using end_work if current work is finishing';
+      return '• Both beep and boop files exist\n• Use repair_state to see a proposed resolution, then repair_state with confirm=true to apply it\n• Consider using end_work if current work is finishing';
+      
+    case WorkState.CORRUPT_FILE:
+      return '• A coordination file could not be parsed (see details above)\n• Inspect it, then fix or delete it by hand\n• Claims are refused until the directory is readable again';
       
     default:
       return '• Use check_status again to get current state';
@@ -959,6 +2142,7 @@ export async function handleInitiateConversation(params: InitiateConversationPar
             
             if (isReply && isUserMessage) {
               // Found a user response!
+              observeConversationWait(Date.now() - startTime, 'responded');
               return {
                 content: [{
                   type: 'text',
@@ -974,6 +2158,7 @@ export async function handleInitiateConversation(params: InitiateConversationPar
       }
       
       // Timeout reached without user response
+      observeConversationWait(Date.now() - startTime, 'timeout');
       return {
         content: [{
           type: 'text',
@@ -1104,6 +2289,12 @@ export async function handleCheckListenerStatus(params: { includeConfig?: boolea
         }
       }
       
+      const permissionWarnings = await inbox.checkPermissions();
+      if (permissionWarnings.length > 0) {
+        responseText += `• ⚠️ Permissions differ from ${config.inboxDirPermissions} (directories) / ${config.inboxFilePermissions} (messages):\n`;
+        responseText += permissionWarnings.map(warning => `  - ${warning}\n`).join('');
+      }
+      
       // Trigger auto-cleanup (non-blocking)
       inbox.autoCleanup();
       
@@ -1136,3 +2327,28 @@ export async function handleCheckListenerStatus(params: { includeConfig?: boolea
     };
   }
 }
+
+/**
+ * Tool: validate_config
+ * Reports every configuration problem and unknown BEEP_BOOP_* setting
+ */
+export async function handleValidateConfig(): Promise<ToolResponse> {
+  const report = checkConfig();
+
+  let responseText = report.valid
+    ? '✅ Configuration is valid'
+    : `❌ Configuration has ${report.errors.length} problem${report.errors.length !== 1 ? 's' : ''}; tools fail until ${report.errors.length !== 1 ? 'they are' : 'it is'} fixed`;
+  responseText += `\n\n📄 Config file: ${report.configFile ?? 'none (environment variables only)'}`;
+
+  if (report.errors.length > 0) {
+    responseText += `\n\n❌ **Problems:**\n${report.errors.map(error => `• ${error}`).join('\n')}`;
+  }
+  if (report.warnings.length > 0) {
+    responseText += `\n\n⚠️ **Unknown settings (likely typos):**\n${report.warnings.map(warning => `• ${warning}`).join('\n')}`;
+  }
+
+  return {
+    content: [{ type: 'text', text: responseText }],
+    ...(report.valid ? {} : { isError: true })
+  };
+}
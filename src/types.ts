@@ -20,6 +20,33 @@ export interface WorkStatus {
   beepTimestamp?: Date;
   /** Timestamp of boop file if it exists */
   boopTimestamp?: Date;
+  /** When the current claim's lease expires, if the boop file records one */
+  leaseExpiresAt?: Date;
+  /** Fencing token of the current claim, if the boop file records one */
+  fencingToken?: number;
+  /** Every agent currently holding the directory, exclusive or shared */
+  holders: ClaimHolder[];
+  /** Coordination files that could not be parsed, with the reason */
+  corruptFiles?: string[];
+}
+
+/** Whether a claim excludes all other agents or only exclusive claimers */
+export type ClaimMode = 'shared' | 'exclusive';
+
+/** An agent currently holding a claim on a directory */
+export interface ClaimHolder {
+  /** Agent identifier */
+  agentId: string;
+  /** Claim mode */
+  mode: ClaimMode;
+  /** When the claim started */
+  startedAt?: Date;
+  /** When the claim's lease expires */
+  leaseExpiresAt?: Date;
+  /** Description of the work being done */
+  workDescription?: string;
+  /** Fencing token issued with the claim */
+  fencingToken?: number;
 }
 
 /** Different states of work coordination */
@@ -28,10 +55,28 @@ export enum WorkState {
   WORK_ALLOWED = "work_allowed",
   /** Work is in progress - boop file exists */
   WORK_IN_PROGRESS = "work_in_progress", 
+  /** Only shared (read) claims are held - further shared claims allowed, exclusive claims blocked */
+  SHARED_IN_PROGRESS = "shared_in_progress",
   /** No coordination files exist - need to claim work */
   NO_COORDINATION = "no_coordination",
   /** Both files exist - invalid state */
-  INVALID_STATE = "invalid_state"
+  INVALID_STATE = "invalid_state",
+  /** A beep or boop file exists but cannot be parsed */
+  CORRUPT_FILE = "corrupt_file"
+}
+
+/** A claim in an ancestor or descendant directory that overlaps a requested claim */
+export interface ClaimConflict {
+  /** Directory holding the overlapping boop file */
+  directory: string;
+  /** Where the overlapping claim sits relative to the requested directory */
+  relation: 'ancestor' | 'descendant';
+  /** Agent holding the overlapping claim */
+  agentId?: string;
+  /** Mode of the overlapping claim */
+  mode: ClaimMode;
+  /** Whether the overlapping claim is stale */
+  stale: boolean;
 }
 
 /** Parameters for creating a beep file */
@@ -50,6 +95,10 @@ export interface UpdateBoopParams {
   agentId: string;
   /** Optional description of the work being done */
   workDescription?: string;
+  /** Fencing token from the original claim (required when updating an existing claim) */
+  fencingToken?: number;
+  /** Claim mode: shared claims may coexist, exclusive claims may not (default: exclusive) */
+  mode?: ClaimMode;
 }
 
 /** Parameters for ending work */
@@ -60,6 +109,287 @@ export interface EndWorkParams {
   agentId: string;
   /** Optional completion message */
   message?: string;
+  /** Fencing token returned by update_boop when the claim was made */
+  fencingToken?: number;
+}
+
+/** Parameters for renewing the lease on a claim */
+export interface RenewBoopParams {
+  /** Directory path where the claim is held */
+  directory: string;
+  /** Agent identifier holding the claim */
+  agentId: string;
+  /** Optional lease length in hours (defaults to configured lease duration) */
+  leaseHours?: number;
+  /** Fencing token returned by update_boop when the claim was made */
+  fencingToken?: number;
+}
+
+/** Parameters for claiming several directories at once */
+export interface ClaimManyParams {
+  /** Directory paths to claim together */
+  directories: string[];
+  /** Agent identifier claiming the work */
+  agentId: string;
+  /** Optional description of the work being done */
+  workDescription?: string;
+}
+
+/** A directory to release as part of end_work_many */
+export interface EndWorkManyClaim {
+  /** Directory path where work is being completed */
+  directory: string;
+  /** Fencing token returned when the directory was claimed */
+  fencingToken?: number;
+}
+
+/** Parameters for ending work in several directories at once */
+export interface EndWorkManyParams {
+  /** Directories to release */
+  claims: EndWorkManyClaim[];
+  /** Agent identifier that was doing the work */
+  agentId: string;
+  /** Optional completion message */
+  message?: string;
+}
+
+/** Outcome of one directory in a multi-directory operation */
+export interface DirectoryOperationResult {
+  /** Directory path */
+  directory: string;
+  /** What happened to this directory */
+  outcome: 'claimed' | 'already_held' | 'completed' | 'rolled_back' | 'failed' | 'not_attempted';
+  /** Fencing token of the claim, when one was created or is held */
+  fencingToken?: number;
+  /** Error message if this directory failed */
+  error?: string;
+  /** Error code if this directory failed */
+  errorCode?: string;
+  /** Overlapping claims allowed because the nested claim policy is 'warn' */
+  conflicts?: ClaimConflict[];
+}
+
+/** Parameters for handing a claim to another agent */
+export interface TransferClaimParams {
+  /** Directory path of the claim */
+  directory: string;
+  /** Agent currently holding the claim */
+  fromAgentId: string;
+  /** Agent receiving the claim */
+  toAgentId: string;
+  /** Fencing token issued when the claim was made */
+  fencingToken?: number;
+  /** Optional reason for the handoff */
+  reason?: string;
+}
+
+/** Kinds of event recorded in a directory's history */
+export type HistoryEventType =
+  | 'claimed'
+  | 'updated'
+  | 'completed'
+  | 'released'
+  | 'stale_cleanup'
+  | 'transferred'
+  | 'repaired'
+  | 'restored';
+
+/** One line of a directory's history file */
+export interface HistoryEntry {
+  /** When the event happened */
+  timestamp: Date;
+  /** What happened */
+  event: HistoryEventType;
+  /** Agent that performed the action (or whose claim was affected) */
+  agentId: string;
+  /** Agent that previously held the claim, for transfers and cleanups */
+  previousAgentId?: string;
+  /** Claim mode, for claims */
+  mode?: ClaimMode;
+  /** Fencing token of the claim involved */
+  fencingToken?: number;
+  /** Work description or completion message */
+  details?: string;
+}
+
+/** Parameters for reading a directory's history */
+export interface GetHistoryParams {
+  /** Directory path */
+  directory: string;
+  /** Only include events involving this agent */
+  agentId?: string;
+  /** Only include events at or after this time (ISO 8601) */
+  since?: string;
+  /** Only include events at or before this time (ISO 8601) */
+  until?: string;
+  /** Maximum number of most recent entries to return */
+  limit?: number;
+}
+
+/** Parameters for repairing a directory in INVALID_STATE */
+export interface RepairStateParams {
+  /** Directory path to repair */
+  directory: string;
+  /** Apply the resolution; when false only the proposal is returned */
+  confirm?: boolean;
+  /** Override the proposed resolution */
+  keep?: 'beep' | 'boop';
+  /** Maximum age in hours before a boop without a lease is considered inactive */
+  maxAgeHours?: number;
+}
+
+/** Proposed resolution for a directory holding both beep and boop files */
+export interface RepairProposal {
+  /** Directory path */
+  directory: string;
+  /** File to keep */
+  keep: 'beep' | 'boop';
+  /** Why that file was chosen */
+  reason: string;
+  /** Contents of the beep file */
+  beep: BeepFileContent;
+  /** Modification time of the beep file */
+  beepTimestamp: Date;
+  /** Contents of the boop file */
+  boop: BoopFileContent;
+  /** Modification time of the boop file */
+  boopTimestamp: Date;
+  /** Whether the boop's agent still appears active */
+  boopActive: boolean;
+}
+
+/** Parameters for listing and restoring backups */
+export interface RestoreBackupParams {
+  /** Backup to restore; when omitted, backups are listed */
+  backupId?: string;
+  /** Only list backups taken from this directory */
+  directory?: string;
+  /** Agent performing the restore, recorded in the directory history */
+  agentId?: string;
+  /** Maximum number of backups to list */
+  limit?: number;
+}
+
+/** Description of a backup of a directory's coordination files */
+export interface BackupManifest {
+  /** Backup identifier (its directory name under backupDir) */
+  id: string;
+  /** Absolute path of the directory the files came from */
+  directory: string;
+  /** Why the backup was taken */
+  reason: string;
+  /** When the backup was taken */
+  createdAt: Date;
+  /** Which coordination files the backup holds */
+  files: Array<'beep' | 'boop'>;
+}
+
+/** Parameters for querying the audit log */
+export interface QueryAuditLogParams {
+  /** Only include records for this acting agent */
+  agentId?: string;
+  /** Only include records touching this directory */
+  directory?: string;
+  /** Only include records for this operation (tool or route name) */
+  operation?: string;
+  /** Only include records at or after this time (ISO 8601) */
+  since?: string;
+  /** Only include records at or before this time (ISO 8601) */
+  until?: string;
+  /** Maximum number of most recent records to return */
+  limit?: number;
+}
+
+/** One line of the audit log */
+export interface AuditRecord {
+  /** When the operation finished */
+  timestamp: Date;
+  /** Request identifier, shared by a tool call and the listener route it delegates to */
+  requestId: string;
+  /** Whether the operation came through an MCP tool or an ingress route */
+  source: 'tool' | 'ingress';
+  /** Tool or route name */
+  operation: string;
+  /** Agent performing the operation, when known */
+  actor?: string;
+  /** Absolute paths of the directories the operation targeted */
+  directories: string[];
+  /** Coordination state of each directory before the operation */
+  before?: Record<string, WorkState>;
+  /** Coordination state of each directory after the operation */
+  after?: Record<string, WorkState>;
+  /** Outcome of the operation */
+  result: 'success' | 'error';
+  /** Error message for failed operations */
+  error?: string;
+  /** How long the operation took */
+  durationMs: number;
+}
+
+/** Parameters for listing claims across a directory tree */
+export interface ListClaimsParams {
+  /** Root directory to scan */
+  root: string;
+  /** Maximum depth below the root to descend */
+  maxDepth?: number;
+  /** Maximum age in hours before a claim is considered stale */
+  maxAgeHours?: number;
+}
+
+/** A directory with coordination files, as reported by list_claims */
+export interface ClaimListing {
+  /** Directory path */
+  directory: string;
+  /** Coordination state of the directory */
+  status: WorkState;
+  /** Agent holding the claim, or the agent that completed the work */
+  agentId?: string;
+  /** Work description of the claim, or the completion message */
+  workDescription?: string;
+  /** Timestamp of the boop file (or beep file when only that exists) */
+  timestamp?: Date;
+  /** Human readable age of that timestamp */
+  age?: string;
+  /** Whether the claim is stale */
+  stale: boolean;
+}
+
+/** Parameters for joining a directory's waitlist */
+export interface JoinQueueParams {
+  /** Directory path to wait for */
+  directory: string;
+  /** Agent identifier joining the queue */
+  agentId: string;
+  /** Optional description of the work the agent plans to do */
+  workDescription?: string;
+}
+
+/** An agent waiting for a directory */
+export interface QueueEntry {
+  /** Agent identifier */
+  agentId: string;
+  /** Description of the planned work */
+  workDescription?: string;
+  /** When the agent joined the queue */
+  enqueuedAt: Date;
+}
+
+/** A directory held for the agent at the head of the queue */
+export interface QueueReservation {
+  /** Agent the directory is reserved for */
+  agentId: string;
+  /** When the reservation started */
+  reservedAt: Date;
+  /** When the reservation lapses if the agent has not claimed the directory */
+  expiresAt: Date;
+}
+
+/** Waitlist for a directory, stored alongside the coordination files */
+export interface ClaimQueue {
+  /** Waiting agents in FIFO order */
+  entries: QueueEntry[];
+  /** Active reservation for the agent at the head of the queue */
+  reservation?: QueueReservation;
 }
 
 /** Parameters for checking status */
@@ -88,22 +418,50 @@ export interface FileMetadata {
 
 /** Content stored in a beep file */
 export interface BeepFileContent {
+  /** On-disk format version (absent in files written before versioning) */
+  schemaVersion?: number;
   /** When work was completed */
   completedAt: Date;
   /** Optional completion message */
   message?: string;
   /** Agent that completed the work */
   completedBy?: string;
+  /** Fencing token of the claim that was completed */
+  fencingToken?: number;
 }
 
 /** Content stored in a boop file */
 export interface BoopFileContent {
+  /** On-disk format version (absent in files written before versioning) */
+  schemaVersion?: number;
   /** When work started */
   startedAt: Date;
   /** Agent identifier doing the work */
   agentId: string;
   /** Optional description of work being done */
   workDescription?: string;
+  /** When the claim's lease expires unless renewed */
+  leaseExpiresAt?: Date;
+  /** Number of times the lease has been renewed */
+  renewalCount?: number;
+  /** Monotonically increasing token identifying this claim */
+  fencingToken?: number;
+  /** Claim mode (absent in legacy files, which are exclusive) */
+  mode?: ClaimMode;
+  /** Ownership handoffs made with transfer_claim, oldest first */
+  transfers?: ClaimTransfer[];
+}
+
+/** Record of a claim being handed from one agent to another */
+export interface ClaimTransfer {
+  /** Agent that held the claim */
+  fromAgentId: string;
+  /** Agent that received the claim */
+  toAgentId: string;
+  /** When the handoff happened */
+  transferredAt: Date;
+  /** Optional reason for the handoff */
+  reason?: string;
 }
 
 /** Custom error types for coordination system */
@@ -123,7 +481,13 @@ export enum ErrorCode {
   WORK_ALREADY_IN_PROGRESS = "WORK_ALREADY_IN_PROGRESS",
   WORK_NOT_CLAIMED = "WORK_NOT_CLAIMED",
   INVALID_STATE = "INVALID_STATE",
-  AGENT_MISMATCH = "AGENT_MISMATCH"
+  AGENT_MISMATCH = "AGENT_MISMATCH",
+  STALE_FENCING_TOKEN = "STALE_FENCING_TOKEN",
+  NESTED_CLAIM_CONFLICT = "NESTED_CLAIM_CONFLICT",
+  CORRUPT_FILE = "CORRUPT_FILE",
+  RESERVED_FOR_QUEUED_AGENT = "RESERVED_FOR_QUEUED_AGENT",
+  BACKUP_NOT_FOUND = "BACKUP_NOT_FOUND",
+  OPERATION_BUSY = "OPERATION_BUSY"
 }
 
 /** Tool response content matching MCP SDK format */
@@ -139,6 +503,17 @@ export interface ToolResponse {
   _meta?: { [x: string]: unknown } | undefined;
 }
 
+/**
+ * Error code a failed tool response reports in its text, if any
+ */
+export function errorCodeOfResponse(response: ToolResponse): ErrorCode | undefined {
+  if (!response.isError) {
+    return undefined;
+  }
+  const text = response.content[0]?.text ?? '';
+  return Object.values(ErrorCode).find(code => text.includes(`(${code})`));
+}
+
 /** Parameters for sending a user update back to chat platforms */
 export interface UpdateUserParams {
   /** ID of the captured message in the inbox store */